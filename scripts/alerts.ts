@@ -0,0 +1,373 @@
+/**
+ * Forex alert subscriptions evaluated against published oracle rates
+ *
+ * Subscriptions are edge-triggered: an alert goes out when a condition starts to hold and the
+ * subscription re-arms once it no longer does, so a rate hovering above a threshold alerts once
+ * rather than on every update. Cooldowns and quiet hours hold alerts back without dropping them:
+ * a condition that still holds when they end alerts at the next evaluation. An alert no channel
+ * accepted is retried the same way.
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { MAX_RATE_AGE } from './escrow-model.ts';
+import type { EventIndexer } from './indexer.ts';
+import { BASIS_POINTS, formatRate } from './quote.ts';
+import type { RatePoint } from './rate-history.ts';
+
+export type AlertCondition =
+  /** Rate strictly above the threshold (8 decimals) */
+  | { kind: 'above'; threshold: bigint }
+  /** Rate strictly below the threshold (8 decimals) */
+  | { kind: 'below'; threshold: bigint }
+  /** Rate moved by more than `changeBps` from the rate current `window` seconds earlier */
+  | { kind: 'change'; changeBps: bigint; window: bigint }
+  /** No rate published for more than `maxAge` seconds (default MAX_RATE_AGE) */
+  | { kind: 'stale'; maxAge?: bigint };
+
+export type AlertKind = AlertCondition['kind'];
+
+export interface QuietHours {
+  /** First quiet hour, 0-23 UTC */
+  start: number;
+  /** First hour after the quiet period, 0-23 UTC; may be below `start` to span midnight */
+  end: number;
+}
+
+export interface AlertSubscription {
+  id: string;
+  /** Who the alerts are for, e.g. a principal or an e-mail address */
+  subscriber: string;
+  currencyPair: string;
+  condition: AlertCondition;
+  channels: AlertChannel[];
+  /** Minimum seconds between two alerts of this subscription (default 0) */
+  cooldown?: bigint;
+  quietHours?: QuietHours;
+}
+
+export interface Alert {
+  subscriptionId: string;
+  subscriber: string;
+  currencyPair: string;
+  kind: AlertKind;
+  /** Latest published rate with 8 decimals */
+  rate: bigint;
+  /** Block time of the latest published rate */
+  rateUpdatedAt: bigint;
+  message: string;
+  /** Unix time in seconds of the evaluation that raised the alert */
+  triggeredAt: bigint;
+}
+
+export interface AlertChannel {
+  /** Label used in delivery error reports */
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+/**
+ * A published rate to evaluate, e.g. an `IndexedRateUpdate`
+ */
+export interface RateObservation extends RatePoint {
+  currencyPair: string;
+}
+
+export interface AlertEngineOptions {
+  /** Receives failed deliveries; other channels still receive the alert (default console.error) */
+  onDeliveryError?: (error: unknown, alert: Alert, channel: AlertChannel) => void;
+}
+
+// Per-subscription trigger state
+interface SubscriptionState {
+  subscription: AlertSubscription;
+  /** The condition held at the last evaluation and was alerted */
+  fired: boolean;
+  lastAlertAt: bigint | null;
+}
+
+export class AlertEngine {
+  private readonly subscriptions = new Map<string, SubscriptionState>();
+  /** Published rates by pair, oldest first, trimmed to the longest change window */
+  private readonly history = new Map<string, RatePoint[]>();
+  private readonly onDeliveryError: NonNullable<AlertEngineOptions['onDeliveryError']>;
+
+  constructor(options: AlertEngineOptions = {}) {
+    this.onDeliveryError = options.onDeliveryError ?? console.error;
+  }
+
+  /**
+   * Add or replace a subscription; a replaced subscription starts armed
+   * @throws RangeError for thresholds, windows or quiet hours the engine cannot evaluate
+   */
+  subscribe(subscription: AlertSubscription): void {
+    validateSubscription(subscription);
+    this.subscriptions.set(subscription.id, { subscription, fired: false, lastAlertAt: null });
+  }
+
+  unsubscribe(subscriptionId: string): boolean {
+    return this.subscriptions.delete(subscriptionId);
+  }
+
+  listSubscriptions(subscriber?: string): AlertSubscription[] {
+    return [...this.subscriptions.values()]
+      .map(state => state.subscription)
+      .filter(subscription => subscriber === undefined || subscription.subscriber === subscriber);
+  }
+
+  /**
+   * Evaluate every subscription on the pair against a newly published rate
+   *
+   * Rates not newer than the last one seen for the pair are ignored, so replays and repeated
+   * deliveries do not alert twice.
+   * @returns Alerts sent
+   */
+  async observe(observation: RateObservation): Promise<Alert[]> {
+    const points = this.history.get(observation.currencyPair) ?? [];
+    const latest = points[points.length - 1];
+    if (latest && observation.updatedAt <= latest.updatedAt) return [];
+
+    points.push({ rate: observation.rate, updatedAt: observation.updatedAt });
+    this.history.set(observation.currencyPair, this.trim(observation.currencyPair, points));
+    return this.evaluate(observation.updatedAt, observation.currencyPair);
+  }
+
+  /**
+   * Evaluate staleness at `now`; call it on a timer, since a stale rate produces no update
+   * @returns Alerts sent
+   */
+  async checkStale(now: bigint): Promise<Alert[]> {
+    return this.evaluate(now, null, 'stale');
+  }
+
+  /**
+   * Observe the indexer's published rates not seen yet, then check staleness
+   * @param now Current unix time in seconds
+   * @returns Alerts sent
+   */
+  async syncFromIndexer(indexer: EventIndexer, now: bigint): Promise<Alert[]> {
+    const alerts: Alert[] = [];
+    for (const update of indexer.listRateUpdates()) alerts.push(...(await this.observe(update)));
+    alerts.push(...(await this.checkStale(now)));
+    return alerts;
+  }
+
+  private async evaluate(
+    now: bigint,
+    currencyPair: string | null,
+    kind?: AlertKind
+  ): Promise<Alert[]> {
+    const alerts: Alert[] = [];
+    for (const state of this.subscriptions.values()) {
+      const { subscription } = state;
+      if (currencyPair !== null && subscription.currencyPair !== currencyPair) continue;
+      if (kind !== undefined && subscription.condition.kind !== kind) continue;
+
+      const points = this.history.get(subscription.currencyPair) ?? [];
+      const latest = points[points.length - 1];
+      // Pairs without a published rate are not evaluated, stale included
+      if (!latest) continue;
+
+      const message = conditionMessage(subscription, points, latest, now);
+      if (message === null) {
+        state.fired = false;
+        continue;
+      }
+      if (state.fired || !this.deliverable(state, now)) continue;
+
+      const alert: Alert = {
+        subscriptionId: subscription.id,
+        subscriber: subscription.subscriber,
+        currencyPair: subscription.currencyPair,
+        kind: subscription.condition.kind,
+        rate: latest.rate,
+        rateUpdatedAt: latest.updatedAt,
+        message,
+        triggeredAt: now,
+      };
+      if (!(await this.deliver(alert, subscription.channels))) continue;
+      state.fired = true;
+      state.lastAlertAt = now;
+      alerts.push(alert);
+    }
+    return alerts;
+  }
+
+  private deliverable(state: SubscriptionState, now: bigint): boolean {
+    const { cooldown = 0n, quietHours } = state.subscription;
+    if (state.lastAlertAt !== null && now - state.lastAlertAt < cooldown) return false;
+    return !quietHours || !isQuietHour(quietHours, now);
+  }
+
+  // False if every channel failed
+  private async deliver(alert: Alert, channels: AlertChannel[]): Promise<boolean> {
+    const sent = await Promise.all(
+      channels.map(channel =>
+        channel.send(alert).then(
+          () => true,
+          (error: unknown) => {
+            this.onDeliveryError(error, alert, channel);
+            return false;
+          }
+        )
+      )
+    );
+    return sent.length === 0 || sent.includes(true);
+  }
+
+  // Keep the points inside the longest change window on the pair, plus the rate current at its start
+  private trim(currencyPair: string, points: RatePoint[]): RatePoint[] {
+    let window = 0n;
+    for (const { subscription } of this.subscriptions.values()) {
+      const { condition } = subscription;
+      if (subscription.currencyPair === currencyPair && condition.kind === 'change') {
+        window = condition.window > window ? condition.window : window;
+      }
+    }
+    const latest = points[points.length - 1];
+    if (!latest) return points;
+    const firstInWindow = points.findIndex(point => point.updatedAt > latest.updatedAt - window);
+    // Without a change window only the latest rate is needed
+    return firstInWindow === -1 ? [latest] : points.slice(Math.max(0, firstInWindow - 1));
+  }
+}
+
+/**
+ * Describe why the condition holds, or return null if it does not
+ */
+function conditionMessage(
+  subscription: AlertSubscription,
+  points: RatePoint[],
+  latest: RatePoint,
+  now: bigint
+): string | null {
+  const { condition, currencyPair } = subscription;
+  const rate = formatRate(latest.rate);
+  switch (condition.kind) {
+    case 'above':
+      return latest.rate > condition.threshold
+        ? `${currencyPair} is ${rate}, above ${formatRate(condition.threshold)}`
+        : null;
+
+    case 'below':
+      return latest.rate < condition.threshold
+        ? `${currencyPair} is ${rate}, below ${formatRate(condition.threshold)}`
+        : null;
+
+    case 'change': {
+      const reference = rateAt(points, latest.updatedAt - condition.window);
+      const move = latest.rate - reference;
+      const moveBps = ((move < 0n ? -move : move) * BASIS_POINTS) / reference;
+      if (moveBps <= condition.changeBps) return null;
+      const direction = move < 0n ? 'fell' : 'rose';
+      const percent = formatBps(moveBps);
+      return `${currencyPair} ${direction} ${percent}% to ${rate} within ${condition.window}s`;
+    }
+
+    case 'stale': {
+      const age = now - latest.updatedAt;
+      return age > (condition.maxAge ?? MAX_RATE_AGE)
+        ? `${currencyPair} has not been published for ${age}s; the last rate was ${rate}`
+        : null;
+    }
+  }
+}
+
+// Rate current at `time`, or the oldest known rate if the history does not reach back that far
+function rateAt(points: RatePoint[], time: bigint): bigint {
+  let reference = points[0]?.rate ?? 0n;
+  for (const point of points) {
+    if (point.updatedAt > time) break;
+    reference = point.rate;
+  }
+  return reference;
+}
+
+function isQuietHour(quietHours: QuietHours, now: bigint): boolean {
+  const hour = Number((now / 3_600n) % 24n);
+  const { start, end } = quietHours;
+  return start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+function validateSubscription(subscription: AlertSubscription): void {
+  const { condition, quietHours } = subscription;
+  if ((condition.kind === 'above' || condition.kind === 'below') && condition.threshold <= 0n) {
+    throw new RangeError('Alert threshold must be positive');
+  }
+  if (condition.kind === 'change' && (condition.changeBps <= 0n || condition.window <= 0n)) {
+    throw new RangeError('Change alerts need a positive changeBps and window');
+  }
+  if (condition.kind === 'stale' && condition.maxAge !== undefined && condition.maxAge <= 0n) {
+    throw new RangeError('Stale alerts need a positive maxAge');
+  }
+  if (subscription.cooldown !== undefined && subscription.cooldown < 0n) {
+    throw new RangeError('Cooldown cannot be negative');
+  }
+  if (quietHours) {
+    for (const hour of [quietHours.start, quietHours.end]) {
+      if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+        throw new RangeError(`Quiet hours must be whole hours 0-23, got ${hour}`);
+      }
+    }
+  }
+}
+
+function formatBps(bps: bigint): string {
+  const fraction = (bps % 100n).toString().padStart(2, '0').replace(/0+$/, '');
+  return fraction ? `${bps / 100n}.${fraction}` : `${bps / 100n}`;
+}
+
+// Channels
+
+/**
+ * JSON form of an alert, with bigints as decimal strings
+ */
+export function alertToJson(alert: Alert): Record<string, string> {
+  return {
+    subscriptionId: alert.subscriptionId,
+    subscriber: alert.subscriber,
+    currencyPair: alert.currencyPair,
+    kind: alert.kind,
+    rate: alert.rate.toString(),
+    rateUpdatedAt: alert.rateUpdatedAt.toString(),
+    message: alert.message,
+    triggeredAt: alert.triggeredAt.toString(),
+  };
+}
+
+/**
+ * POSTs each alert as JSON to a URL
+ */
+export class WebhookChannel implements AlertChannel {
+  readonly name: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string> = {}
+  ) {
+    this.name = url;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...this.headers },
+      body: JSON.stringify(alertToJson(alert)),
+    });
+    if (!response.ok) throw new Error(`${this.name} responded ${response.status}`);
+  }
+}
+
+/**
+ * Appends each alert as one JSON line to a local file
+ */
+export class FileChannel implements AlertChannel {
+  readonly name: string;
+
+  constructor(private readonly path: string) {
+    this.name = `file:${path}`;
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(alertToJson(alert))}\n`);
+  }
+}
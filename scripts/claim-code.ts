@@ -0,0 +1,237 @@
+/**
+ * Claim codes for claimable remittances
+ *
+ * The secret of a claimable remittance is a secp256k1 private key, and the remittance stores
+ * the sha256 of its public key instead of a recipient. The creator shares a claim code carrying
+ * the remittance ID and the secret over any channel (SMS, chat, QR code). Once the recipient
+ * has a principal, they sign it with the secret and send the signature with `claim-remittance`;
+ * the secret never goes on chain, so a pending claim cannot be redirected. Anyone holding the
+ * code can still claim to a principal of their own, so it should be shared with the recipient
+ * only.
+ *
+ * Codes look like `SSC-42-<55 characters>`: Crockford base32 of the secret followed by a
+ * two-byte checksum over the remittance ID and the secret, which catches typos before a claim
+ * is sent.
+ */
+
+import {
+  Cl,
+  compressPublicKey,
+  privateKeyToPublic,
+  serializeCV,
+  signMessageHashRsv,
+} from '@stacks/transactions';
+import { createHash, randomBytes } from 'node:crypto';
+import { StackSendError } from './errors.ts';
+import type { Remittance } from './types.ts';
+
+// A secp256k1 private key
+export const CLAIM_SECRET_BYTES = 32;
+export const CLAIM_CODE_PREFIX = 'SSC';
+
+// Mirrors claim-domain in stacksend-escrow.clar
+export const CLAIM_DOMAIN = 'stacksend-claim';
+
+const CHECKSUM_BYTES = 2;
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const BODY_LENGTH = Math.ceil(((CLAIM_SECRET_BYTES + CHECKSUM_BYTES) * 8) / 5);
+
+export interface ClaimCode {
+  remittanceId: bigint;
+  /** Hex-encoded 32-byte secret, the private key that signs claim-remittance */
+  secret: string;
+}
+
+export interface ClaimMessageParams {
+  /** Fully qualified escrow principal, e.g. `SP….stacksend-escrow` */
+  escrowContract: string;
+  /** Chain ID of the network: 1 on mainnet, 0x80000000 on testnet */
+  chainId: number;
+  remittanceId: bigint;
+  /** Principal the funds are released to */
+  recipient: string;
+}
+
+/**
+ * A claim code is malformed or its checksum does not match
+ */
+export class ClaimCodeError extends StackSendError {
+  override readonly name = 'ClaimCodeError';
+}
+
+/**
+ * @returns A random hex-encoded 32-byte secret for a new claimable remittance
+ */
+export function generateClaimSecret(): string {
+  return randomBytes(CLAIM_SECRET_BYTES).toString('hex');
+}
+
+/**
+ * @param secret Hex-encoded 32-byte secret
+ * @returns Hex-encoded compressed public key the claim signature recovers to
+ * @throws RangeError if the secret is not 32 bytes
+ */
+export function claimPublicKey(secret: string): string {
+  checkSecret(secret);
+  return compressPublicKey(privateKeyToPublic(secret));
+}
+
+/**
+ * Mirror get-claim-hash
+ * @param publicKey Hex-encoded compressed public key of the secret, see `claimPublicKey`
+ * @returns Hex-encoded sha256 of the public key
+ */
+export function hashClaimPublicKey(publicKey: string): string {
+  return createHash('sha256').update(publicKey, 'hex').digest('hex');
+}
+
+/**
+ * @param secret Hex-encoded 32-byte secret
+ * @returns Hex-encoded claim hash, the `claim-hash` argument of create-claimable-remittance
+ * @throws RangeError if the secret is not 32 bytes
+ */
+export function claimHash(secret: string): string {
+  return hashClaimPublicKey(claimPublicKey(secret));
+}
+
+/**
+ * Mirror get-claim-message-hash
+ * @returns Hex-encoded sha256 of the consensus-serialized claim tuple
+ */
+export function claimMessageHash(params: ClaimMessageParams): string {
+  const message = Cl.tuple({
+    domain: Cl.stringAscii(CLAIM_DOMAIN),
+    'chain-id': Cl.uint(params.chainId),
+    escrow: Cl.principal(params.escrowContract),
+    'remittance-id': Cl.uint(params.remittanceId),
+    recipient: Cl.principal(params.recipient),
+  });
+  return createHash('sha256').update(serializeCV(message), 'hex').digest('hex');
+}
+
+/**
+ * Sign the release of a claimable remittance to a recipient
+ * @returns Hex-encoded recoverable signature (RSV), the `signature` argument of claim-remittance
+ * @throws RangeError if the secret is not 32 bytes
+ */
+export function signClaim(
+  claim: ClaimCode,
+  params: Omit<ClaimMessageParams, 'remittanceId'>
+): string {
+  checkSecret(claim.secret);
+  return signMessageHashRsv({
+    messageHash: claimMessageHash({ ...params, remittanceId: claim.remittanceId }),
+    privateKey: claim.secret,
+  });
+}
+
+/**
+ * Encode the claim code to share once the remittance is created
+ * @throws RangeError if the secret is not 32 bytes or the ID is negative
+ */
+export function encodeClaimCode(claim: ClaimCode): string {
+  checkSecret(claim.secret);
+  if (claim.remittanceId < 0n) throw new RangeError('Remittance ID must not be negative');
+  const bytes = [...hexBytes(claim.secret), ...checksum(claim)];
+
+  let body = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      body += ALPHABET[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) body += ALPHABET[(buffer << (5 - bits)) & 31];
+  return `${CLAIM_CODE_PREFIX}-${claim.remittanceId}-${body}`;
+}
+
+/**
+ * Decode a claim code as typed or pasted by the recipient
+ *
+ * Case, whitespace and the look-alike letters Crockford base32 allows (O for 0, I and L for 1)
+ * are accepted.
+ * @throws ClaimCodeError if the code is malformed or fails its checksum
+ */
+export function decodeClaimCode(code: string): ClaimCode {
+  const compact = code.replace(/\s/g, '').toUpperCase();
+  const match = new RegExp(`^${CLAIM_CODE_PREFIX}-(\\d+)-([0-9A-Z]{${BODY_LENGTH}})$`).exec(
+    compact
+  );
+  if (!match?.[1] || !match[2]) throw new ClaimCodeError('Malformed claim code');
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of match[2].replace(/O/g, '0').replace(/[IL]/g, '1')) {
+    const value = ALPHABET.indexOf(char);
+    if (value < 0) throw new ClaimCodeError(`Invalid character "${char}" in claim code`);
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  const claim = {
+    remittanceId: BigInt(match[1]),
+    secret: bytesHex(bytes.slice(0, CLAIM_SECRET_BYTES)),
+  };
+  if (bytesHex(bytes.slice(CLAIM_SECRET_BYTES)) !== bytesHex(checksum(claim))) {
+    throw new ClaimCodeError('Claim code checksum does not match, check it for typos');
+  }
+  return claim;
+}
+
+/**
+ * Check a decoded claim code against the remittance it names
+ * @returns True if the secret's public key hashes to the remittance's claim hash
+ */
+export function verifyClaimCode(
+  claim: ClaimCode,
+  remittance: Pick<Remittance, 'claimHash'>
+): boolean {
+  return remittance.claimHash !== null && claimHash(claim.secret) === remittance.claimHash;
+}
+
+/**
+ * Mirror the status and expiry checks of claim-remittance
+ * @param time Current block time (unix seconds)
+ */
+export function isClaimable(
+  remittance: Pick<Remittance, 'status' | 'claimExpiresAt'>,
+  time: bigint
+): boolean {
+  return (
+    remittance.status === 'funded' &&
+    remittance.claimExpiresAt !== null &&
+    time < remittance.claimExpiresAt
+  );
+}
+
+function checkSecret(secret: string): void {
+  if (!new RegExp(`^[0-9a-fA-F]{${CLAIM_SECRET_BYTES * 2}}$`).test(secret)) {
+    throw new RangeError(`Claim secret must be ${CLAIM_SECRET_BYTES} bytes of hex`);
+  }
+}
+
+// First bytes of sha256 over the decimal remittance ID and the secret
+function checksum(claim: ClaimCode): number[] {
+  const digest = createHash('sha256')
+    .update(`${claim.remittanceId}:`)
+    .update(claim.secret, 'hex')
+    .digest('hex');
+  return hexBytes(digest).slice(0, CHECKSUM_BYTES);
+}
+
+function hexBytes(hex: string): number[] {
+  return (hex.match(/../g) ?? []).map(pair => parseInt(pair, 16));
+}
+
+function bytesHex(bytes: number[]): string {
+  return bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,69 @@
+/**
+ * Strict decoders from Clarity values to plain TypeScript values
+ *
+ * Each decoder throws a TypeError naming the expected type when the value has
+ * another shape, so a contract change surfaces at the first decode.
+ */
+
+import { ClarityType, type ClarityValue } from '@stacks/transactions';
+
+export function decodeTuple(cv: ClarityValue): Record<string, ClarityValue> {
+  if (cv.type !== ClarityType.Tuple) throw new TypeError(`Expected tuple, got ${cv.type}`);
+  return cv.value;
+}
+
+export function field(tuple: Record<string, ClarityValue>, name: string): ClarityValue {
+  const value = tuple[name];
+  if (value === undefined) throw new TypeError(`Missing tuple field ${name}`);
+  return value;
+}
+
+export function decodeUInt(cv: ClarityValue): bigint {
+  if (cv.type !== ClarityType.UInt) throw new TypeError(`Expected uint, got ${cv.type}`);
+  return BigInt(cv.value);
+}
+
+export function decodeBool(cv: ClarityValue): boolean {
+  if (cv.type === ClarityType.BoolTrue) return true;
+  if (cv.type === ClarityType.BoolFalse) return false;
+  throw new TypeError(`Expected bool, got ${cv.type}`);
+}
+
+export function decodeAscii(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.StringASCII)
+    throw new TypeError(`Expected string-ascii, got ${cv.type}`);
+  return cv.value;
+}
+
+/**
+ * @returns Hex-encoded bytes, without 0x prefix
+ */
+export function decodeBuffer(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.Buffer) throw new TypeError(`Expected buffer, got ${cv.type}`);
+  return cv.value;
+}
+
+export function decodePrincipal(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.PrincipalStandard && cv.type !== ClarityType.PrincipalContract) {
+    throw new TypeError(`Expected principal, got ${cv.type}`);
+  }
+  return cv.value;
+}
+
+export function decodeList<T>(cv: ClarityValue, decode: (value: ClarityValue) => T): T[] {
+  if (cv.type !== ClarityType.List) throw new TypeError(`Expected list, got ${cv.type}`);
+  return cv.value.map(decode);
+}
+
+export function decodeOptional<T>(cv: ClarityValue, decode: (value: ClarityValue) => T): T | null {
+  if (cv.type === ClarityType.OptionalNone) return null;
+  if (cv.type !== ClarityType.OptionalSome)
+    throw new TypeError(`Expected optional, got ${cv.type}`);
+  return decode(cv.value);
+}
+
+export function decodeOk(cv: ClarityValue): ClarityValue {
+  if (cv.type !== ClarityType.ResponseOk)
+    throw new TypeError(`Expected ok response, got ${cv.type}`);
+  return cv.value;
+}
@@ -0,0 +1,82 @@
+// Generated by scripts/generate-currency-pairs.ts from contracts/stacksend-oracle.clar.
+// Do not edit; change initial-currency-pairs and regenerate.
+
+import type { CurrencyPair } from './pair-registry.ts';
+
+export const CURRENCY_PAIRS: readonly CurrencyPair[] = [
+  {
+    pair: 'STX-USD',
+    base: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+    quote: { code: 'USD', name: 'US Dollar', symbol: '$' },
+  },
+  {
+    pair: 'STX-EUR',
+    base: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+    quote: { code: 'EUR', name: 'Euro', symbol: '€' },
+  },
+  {
+    pair: 'STX-GBP',
+    base: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+    quote: { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+  },
+  {
+    pair: 'STX-KES',
+    base: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+    quote: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh' },
+  },
+  {
+    pair: 'STX-NGN',
+    base: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+    quote: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦' },
+  },
+  {
+    pair: 'STX-GHS',
+    base: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+    quote: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵' },
+  },
+  {
+    pair: 'USD-KES',
+    base: { code: 'USD', name: 'US Dollar', symbol: '$' },
+    quote: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh' },
+  },
+  {
+    pair: 'USD-NGN',
+    base: { code: 'USD', name: 'US Dollar', symbol: '$' },
+    quote: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦' },
+  },
+  {
+    pair: 'USD-GHS',
+    base: { code: 'USD', name: 'US Dollar', symbol: '$' },
+    quote: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵' },
+  },
+  {
+    pair: 'EUR-KES',
+    base: { code: 'EUR', name: 'Euro', symbol: '€' },
+    quote: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh' },
+  },
+  {
+    pair: 'EUR-NGN',
+    base: { code: 'EUR', name: 'Euro', symbol: '€' },
+    quote: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦' },
+  },
+  {
+    pair: 'EUR-GHS',
+    base: { code: 'EUR', name: 'Euro', symbol: '€' },
+    quote: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵' },
+  },
+  {
+    pair: 'GBP-KES',
+    base: { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+    quote: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh' },
+  },
+  {
+    pair: 'GBP-NGN',
+    base: { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+    quote: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦' },
+  },
+  {
+    pair: 'GBP-GHS',
+    base: { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+    quote: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵' },
+  },
+];
@@ -0,0 +1,221 @@
+/**
+ * Error catalog for the StackSend contracts
+ *
+ * Every `define-constant err-*` in stacksend-escrow.clar and stacksend-oracle.clar
+ * has an entry here; tests/error-catalog_test.ts keeps the two in sync.
+ */
+
+export type ErrorSource = 'escrow' | 'oracle';
+
+export interface ErrorDefinition {
+  code: number;
+  message: string;
+}
+
+export const ESCROW_ERRORS = {
+  'err-owner-only': { code: 100, message: 'Only the contract owner can perform this action' },
+  'err-not-found': { code: 101, message: 'Remittance or contribution not found' },
+  'err-unauthorized': { code: 102, message: 'Sender is not allowed to act on this remittance' },
+  'err-invalid-amount': { code: 103, message: 'Amount is zero or above the allowed maximum' },
+  'err-invalid-deadline': {
+    code: 104,
+    message: 'Deadline must be in the future and at most one year away',
+  },
+  'err-target-not-reached': { code: 105, message: 'Target amount has not been reached' },
+  'err-already-released': { code: 106, message: 'Funds have already been released' },
+  'err-deadline-passed': { code: 107, message: 'Remittance deadline has passed' },
+  'err-invalid-status': { code: 108, message: 'Remittance status does not allow this action' },
+  'err-contract-paused': { code: 109, message: 'Contract is paused' },
+  'err-invalid-recipient': { code: 110, message: 'Recipient cannot be the creator' },
+  'err-invalid-description': { code: 111, message: 'Description must be 1 to 500 characters' },
+  'err-invalid-currency-pair': {
+    code: 112,
+    message: 'Currency pair is not supported by the oracle',
+  },
+  'err-deadline-not-passed': { code: 113, message: 'Refunds open once the deadline has passed' },
+  'err-already-refunded': { code: 114, message: 'Contribution was already refunded' },
+  'err-no-pending-refunds': { code: 115, message: 'Every contributor has already been refunded' },
+  'err-token-not-allowed': { code: 116, message: 'Token is not allowed for remittances' },
+  'err-token-mismatch': { code: 117, message: 'Token does not match the remittance token' },
+  'err-stale-rate': { code: 118, message: 'No fresh exchange rate for the currency pair' },
+  'err-invalid-attestation': {
+    code: 119,
+    message: 'Attestation is not signed by an active phone verifier',
+  },
+  'err-attestation-expired': { code: 120, message: 'Phone attestation has expired' },
+  'err-phone-not-bound': { code: 121, message: 'No principal is bound to the phone number yet' },
+  'err-phone-already-bound': { code: 122, message: 'Phone number is already bound to a principal' },
+  'err-invalid-secret': {
+    code: 123,
+    message: 'Claim is not signed by the secret of the remittance claim hash',
+  },
+  'err-claim-expired': { code: 124, message: 'Claim period of the remittance has expired' },
+  'err-passkey-required': {
+    code: 125,
+    message: 'A passkey is registered, so the call needs a passkey assertion',
+  },
+  'err-invalid-passkey-assertion': {
+    code: 126,
+    message: 'Passkey assertion is invalid or was made for another challenge',
+  },
+  'err-passkey-already-registered': { code: 127, message: 'A passkey is already registered' },
+  'err-passkey-not-registered': { code: 128, message: 'No passkey is registered' },
+  'err-schedule-not-due': {
+    code: 129,
+    message: 'Schedule period has not started or was already triggered',
+  },
+  'err-schedule-ended': { code: 130, message: 'Schedule has no periods left' },
+  'err-invalid-interval': { code: 131, message: 'Schedule interval is zero or exceeds a year' },
+  'err-invalid-split': {
+    code: 132,
+    message: 'Split needs 2 to 10 distinct recipients with shares summing to 10000 basis points',
+  },
+} as const satisfies Record<string, ErrorDefinition>;
+
+export const ORACLE_ERRORS = {
+  'err-owner-only': { code: 200, message: 'Only the oracle owner can perform this action' },
+  'err-not-found': { code: 201, message: 'No exchange rate recorded for this currency pair' },
+  'err-stale-price': { code: 202, message: 'Exchange rate is older than the maximum rate age' },
+  'err-invalid-rate': { code: 203, message: 'Rate is outside the accepted bounds' },
+  'err-unauthorized': {
+    code: 204,
+    message: 'Sender is not an authorized updater or the oracle is paused',
+  },
+  'err-invalid-pair': { code: 205, message: 'Currency pair is malformed or not supported' },
+  'err-already-submitted': {
+    code: 206,
+    message: 'Updater already submitted a rate in the current round',
+  },
+  'err-invalid-quorum': { code: 207, message: 'Quorum is outside the accepted bounds' },
+  'err-invalid-window': { code: 208, message: 'TWAP window must be longer than zero' },
+} as const satisfies Record<string, ErrorDefinition>;
+
+export type EscrowErrorName = keyof typeof ESCROW_ERRORS;
+export type OracleErrorName = keyof typeof ORACLE_ERRORS;
+
+const CATALOGS: Record<ErrorSource, Record<string, ErrorDefinition>> = {
+  escrow: ESCROW_ERRORS,
+  oracle: ORACLE_ERRORS,
+};
+
+/**
+ * Base class for every decoded StackSend failure
+ */
+export abstract class StackSendError extends Error {}
+
+/**
+ * A contract returned `(err uN)`
+ */
+export abstract class ContractError extends StackSendError {
+  abstract readonly source: ErrorSource;
+
+  constructor(
+    readonly code: number,
+    readonly errorName: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class EscrowError extends ContractError {
+  override readonly name = 'EscrowError';
+  readonly source = 'escrow';
+  declare readonly errorName: EscrowErrorName;
+}
+
+export class OracleError extends ContractError {
+  override readonly name = 'OracleError';
+  readonly source = 'oracle';
+  declare readonly errorName: OracleErrorName;
+}
+
+/**
+ * A contract returned an error code missing from the catalog
+ */
+export class UnknownContractError extends StackSendError {
+  override readonly name = 'UnknownContractError';
+
+  constructor(readonly code: number) {
+    super(`Unknown contract error u${code}`);
+  }
+}
+
+/**
+ * The transaction was aborted without a contract error code
+ */
+export class TransactionAbortError extends StackSendError {
+  override readonly name = 'TransactionAbortError';
+
+  constructor(readonly reason: 'post-condition' | 'runtime') {
+    super(
+      reason === 'post-condition'
+        ? 'Transaction aborted by a post-condition'
+        : 'Transaction aborted by a runtime error'
+    );
+  }
+}
+
+/**
+ * Look up an error code in the catalogs
+ * @param code Numeric error code, e.g. 107
+ * @param source Contract the code came from, inferred from the code range if omitted
+ * @returns Typed error, or UnknownContractError if the code is not in the catalog
+ */
+export function errorFromCode(
+  code: number,
+  source?: ErrorSource
+): ContractError | UnknownContractError {
+  const sources: ErrorSource[] = source ? [source] : ['escrow', 'oracle'];
+  for (const candidate of sources) {
+    const entry = Object.entries(CATALOGS[candidate]).find(([, def]) => def.code === code);
+    if (entry) {
+      const [errorName, { message }] = entry;
+      return candidate === 'escrow'
+        ? new EscrowError(code, errorName, message)
+        : new OracleError(code, errorName, message);
+    }
+  }
+  return new UnknownContractError(code);
+}
+
+/**
+ * Decode a Clarity response repr such as `(err u107)`
+ * @param repr Result string from a Clarinet receipt or `tx_result.repr` from the API
+ * @param source Contract that produced the result, inferred from the code if omitted
+ * @returns Decoded error, or null if the response is not an error
+ */
+export function decodeError(repr: string, source?: ErrorSource): StackSendError | null {
+  const trimmed = repr.trim();
+  if (!trimmed.startsWith('(err ')) return null;
+
+  const match = /^\(err u(\d+)\)$/.exec(trimmed);
+  if (!match?.[1]) return new TransactionAbortError('runtime');
+  return errorFromCode(Number(match[1]), source);
+}
+
+/**
+ * Subset of a Stacks API transaction used to classify failures
+ */
+export interface TransactionOutcome {
+  tx_status: string;
+  tx_result?: { repr: string };
+}
+
+/**
+ * Classify a confirmed transaction
+ * @returns Decoded error, or null if the transaction did not abort
+ */
+export function decodeTransactionResult(
+  tx: TransactionOutcome,
+  source?: ErrorSource
+): StackSendError | null {
+  switch (tx.tx_status) {
+    case 'abort_by_post_condition':
+      return new TransactionAbortError('post-condition');
+    case 'abort_by_response':
+      return decodeError(tx.tx_result?.repr ?? '(err none)', source);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,963 @@
+/**
+ * Typed client for the stacksend-escrow contract
+ */
+
+import {
+  broadcastTransaction,
+  ClarityType,
+  Cl,
+  fetchAbi,
+  fetchCallReadOnlyFunction,
+  makeContractCall,
+  type ClarityValue,
+  type ContractCallOptions,
+} from '@stacks/transactions';
+import { networkFrom, type StacksNetwork, type StacksNetworkName } from '@stacks/network';
+import {
+  decodeAscii,
+  decodeBool,
+  decodeBuffer,
+  decodeList,
+  decodeOk,
+  decodeOptional,
+  decodePrincipal,
+  decodeTuple,
+  decodeUInt,
+  field,
+} from './clarity.ts';
+import { signClaim, type ClaimCode } from './claim-code.ts';
+import { STX_TOKEN, type TokenInfo } from './money.ts';
+import { CURRENCIES, type CurrencyInfo, type CurrencyPair } from './pair-registry.ts';
+import type { PasskeyAction, PasskeyAssertion } from './passkey.ts';
+import { fiatToMicroStx, fiatValue } from './quote.ts';
+import type { RatePoint, TwapResult } from './rate-history.ts';
+import type {
+  Contribution,
+  CreateClaimableRemittanceParams,
+  CreateFiatRemittanceParams,
+  CreatePhoneRemittanceParams,
+  CreateRemittanceParams,
+  CreateScheduleParams,
+  CreateSplitRemittanceParams,
+  EscrowPublicFunction,
+  Passkey,
+  PhoneBinding,
+  Remittance,
+  RemittanceStatus,
+  Schedule,
+  ScheduleStatus,
+  SplitRecipient,
+} from './types.ts';
+
+export type {
+  Contribution,
+  CreateClaimableRemittanceParams,
+  CreateFiatRemittanceParams,
+  CreatePhoneRemittanceParams,
+  CreateRemittanceParams,
+  CreateScheduleParams,
+  CreateSplitRemittanceParams,
+  EscrowPublicFunction,
+  Passkey,
+  PhoneBinding,
+  Remittance,
+  RemittanceStatus,
+  Schedule,
+  ScheduleStatus,
+  SplitRecipient,
+};
+
+export const ESCROW_CONTRACT_NAME = 'stacksend-escrow';
+export const ORACLE_CONTRACT_NAME = 'stacksend-oracle';
+
+/**
+ * Unsigned contract call, ready to be handed to a wallet or to `EscrowClient.submit`
+ */
+export interface EscrowContractCall {
+  contractAddress: string;
+  contractName: string;
+  functionName: EscrowPublicFunction;
+  functionArgs: ClarityValue[];
+}
+
+export type SubmitOptions = Pick<
+  ContractCallOptions,
+  'fee' | 'nonce' | 'postConditionMode' | 'postConditions'
+>;
+
+export interface EscrowClientConfig {
+  contractAddress: string;
+  contractName?: string;
+  network: StacksNetworkName | StacksNetwork;
+  /** tx-sender used for read-only calls, defaults to the contract address */
+  senderAddress?: string;
+}
+
+/**
+ * Funding of a remittance valued at the current oracle rate
+ */
+export interface FundingProgress {
+  remittanceId: bigint;
+  /** Amount raised in base units of the remittance asset */
+  totalRaised: bigint;
+  /** Target in base units; for a fiat target, its current STX equivalent */
+  targetAmount: bigint;
+  /** Fiat target with 8 decimals, null when `targetAmount` is the target */
+  fiatTarget: bigint | null;
+  /** Fiat value of `totalRaised` with 8 decimals, null without a fiat target or a fresh rate */
+  fiatRaised: bigint | null;
+  /**
+   * False if the oracle has no fresh rate for a fiat target; `targetAmount` is then the
+   * STX equivalent recorded at creation and contributions cannot mark the remittance funded
+   */
+  rateFresh: boolean;
+}
+
+export class EscrowClient {
+  readonly contractAddress: string;
+  readonly contractName: string;
+  readonly network: StacksNetworkName | StacksNetwork;
+  private readonly senderAddress: string;
+  private readonly tokenInfos = new Map<string, Promise<TokenInfo>>();
+  private readonly assetNames = new Map<string, Promise<string>>();
+
+  constructor(config: EscrowClientConfig) {
+    this.contractAddress = config.contractAddress;
+    this.contractName = config.contractName ?? ESCROW_CONTRACT_NAME;
+    this.network = config.network;
+    this.senderAddress = config.senderAddress ?? config.contractAddress;
+  }
+
+  // Public functions
+  //
+  // Calls that move funds take the remittance's `token` (a SIP-010 contract identifier, or null
+  // for STX) and pick the STX or token variant of the contract function.
+
+  createRemittance(params: CreateRemittanceParams): EscrowContractCall {
+    const args = [
+      Cl.principal(params.recipient),
+      Cl.uint(params.targetAmount),
+      Cl.uint(params.deadline),
+      Cl.stringAscii(params.description),
+      Cl.stringAscii(params.currencyPair),
+    ];
+    return params.token
+      ? this.call('create-token-remittance', [Cl.principal(params.token), ...args])
+      : this.call('create-remittance', args);
+  }
+
+  /**
+   * Create an STX remittance whose target is set in fiat and valued with the oracle
+   */
+  createFiatRemittance(params: CreateFiatRemittanceParams): EscrowContractCall {
+    return this.call('create-fiat-remittance', [
+      Cl.principal(params.recipient),
+      Cl.uint(params.fiatTarget),
+      Cl.uint(params.deadline),
+      Cl.stringAscii(params.description),
+      Cl.stringAscii(params.currencyPair),
+    ]);
+  }
+
+  /**
+   * Create an STX remittance for the owner of a phone number, who binds a principal later
+   */
+  createPhoneRemittance(params: CreatePhoneRemittanceParams): EscrowContractCall {
+    return this.call('create-phone-remittance', [
+      Cl.bufferFromHex(params.phoneHash),
+      Cl.uint(params.targetAmount),
+      Cl.uint(params.deadline),
+      Cl.stringAscii(params.description),
+      Cl.stringAscii(params.currencyPair),
+    ]);
+  }
+
+  /**
+   * Create an STX remittance claimed with a secret, see `generateClaimSecret` and `claimHash`
+   */
+  createClaimableRemittance(params: CreateClaimableRemittanceParams): EscrowContractCall {
+    return this.call('create-claimable-remittance', [
+      Cl.bufferFromHex(params.claimHash),
+      Cl.uint(params.targetAmount),
+      Cl.uint(params.deadline),
+      Cl.uint(params.claimExpiresAt),
+      Cl.stringAscii(params.description),
+      Cl.stringAscii(params.currencyPair),
+    ]);
+  }
+
+  /**
+   * Create an STX remittance whose net amount is split between recipients by their shares
+   */
+  createSplitRemittance(params: CreateSplitRemittanceParams): EscrowContractCall {
+    return this.call('create-split-remittance', [
+      Cl.list(
+        params.splits.map(split =>
+          Cl.tuple({
+            recipient: Cl.principal(split.recipient),
+            'share-bps': Cl.uint(split.shareBps),
+          })
+        )
+      ),
+      Cl.uint(params.targetAmount),
+      Cl.uint(params.deadline),
+      Cl.stringAscii(params.description),
+      Cl.stringAscii(params.currencyPair),
+    ]);
+  }
+
+  contribute(
+    remittanceId: bigint,
+    amount: bigint,
+    token: string | null = null
+  ): EscrowContractCall {
+    return token
+      ? this.call('contribute-token', [Cl.uint(remittanceId), Cl.principal(token), Cl.uint(amount)])
+      : this.call('contribute', [Cl.uint(remittanceId), Cl.uint(amount)]);
+  }
+
+  /**
+   * Withdraw part or all of the sender's contribution while the remittance is active
+   */
+  withdrawContribution(
+    remittanceId: bigint,
+    amount: bigint,
+    token: string | null = null
+  ): EscrowContractCall {
+    return token
+      ? this.call('withdraw-token-contribution', [
+          Cl.uint(remittanceId),
+          Cl.principal(token),
+          Cl.uint(amount),
+        ])
+      : this.call('withdraw-contribution', [Cl.uint(remittanceId), Cl.uint(amount)]);
+  }
+
+  releaseFunds(remittanceId: bigint, token: string | null = null): EscrowContractCall {
+    return this.assetCall('release-funds', 'release-token-funds', remittanceId, token);
+  }
+
+  /**
+   * Release funds to a recipient who registered a passkey
+   * @param assertion Assertion over the current "release" challenge, see `getPasskeyChallenge`
+   */
+  releaseFundsWithPasskey(
+    remittanceId: bigint,
+    assertion: PasskeyAssertion,
+    token: string | null = null
+  ): EscrowContractCall {
+    return this.passkeyCall(
+      'release-funds-with-passkey',
+      'release-token-funds-with-passkey',
+      remittanceId,
+      assertion,
+      token
+    );
+  }
+
+  /**
+   * Release a funded claimable remittance to `recipient` with a code from `decodeClaimCode`
+   *
+   * The secret signs the recipient and stays off chain, so the call cannot be redirected.
+   */
+  claimRemittance(claim: ClaimCode, recipient: string): EscrowContractCall {
+    const signature = signClaim(claim, {
+      escrowContract: `${this.contractAddress}.${this.contractName}`,
+      chainId: networkFrom(this.network).chainId,
+      recipient,
+    });
+    return this.call('claim-remittance', [
+      Cl.uint(claim.remittanceId),
+      Cl.bufferFromHex(signature),
+      Cl.principal(recipient),
+    ]);
+  }
+
+  cancelRemittance(remittanceId: bigint, token: string | null = null): EscrowContractCall {
+    return this.assetCall('cancel-remittance', 'cancel-token-remittance', remittanceId, token);
+  }
+
+  /**
+   * Cancel a remittance whose creator registered a passkey
+   * @param assertion Assertion over the current "cancel" challenge, see `getPasskeyChallenge`
+   */
+  cancelRemittanceWithPasskey(
+    remittanceId: bigint,
+    assertion: PasskeyAssertion,
+    token: string | null = null
+  ): EscrowContractCall {
+    return this.passkeyCall(
+      'cancel-remittance-with-passkey',
+      'cancel-token-remittance-with-passkey',
+      remittanceId,
+      assertion,
+      token
+    );
+  }
+
+  /**
+   * Refund the next page of contributors of a cancelled remittance; anyone can send it
+   */
+  processRefunds(remittanceId: bigint, token: string | null = null): EscrowContractCall {
+    return this.assetCall('process-refunds', 'process-token-refunds', remittanceId, token);
+  }
+
+  /**
+   * Claim the sender's own refund after the deadline passed without funding
+   */
+  claimRefund(remittanceId: bigint, token: string | null = null): EscrowContractCall {
+    return this.assetCall('claim-refund', 'claim-token-refund', remittanceId, token);
+  }
+
+  /**
+   * Mark a fiat-target remittance funded if it is reached at the current oracle rate
+   */
+  refreshFunding(remittanceId: bigint): EscrowContractCall {
+    return this.call('refresh-funding', [Cl.uint(remittanceId)]);
+  }
+
+  /**
+   * Bind the sender to a phone hash with an attestation from `signPhoneAttestation`
+   * @param signature Hex-encoded RSV signature of an active phone verifier
+   */
+  bindPhone(phoneHash: string, expiresAt: bigint, signature: string): EscrowContractCall {
+    return this.call('bind-phone', [
+      Cl.bufferFromHex(phoneHash),
+      Cl.uint(expiresAt),
+      Cl.bufferFromHex(signature),
+    ]);
+  }
+
+  /**
+   * Require the sender's passkey for their releases or cancellations of a remittance
+   * @param publicKey Hex-encoded compressed key, see `compressPasskeyPublicKey`
+   * @param rpIdHash Hex-encoded hash of the relying party ID the passkey was created for,
+   *   see `hashRpId`
+   */
+  registerPasskey(remittanceId: bigint, publicKey: string, rpIdHash: string): EscrowContractCall {
+    return this.call('register-passkey', [
+      Cl.uint(remittanceId),
+      Cl.bufferFromHex(publicKey),
+      Cl.bufferFromHex(rpIdHash),
+    ]);
+  }
+
+  /**
+   * Create a schedule that spawns a remittance to the recipient every interval
+   * @param params.deposit Pre-authorized funding moved into the escrow with the call
+   */
+  createSchedule(params: CreateScheduleParams): EscrowContractCall {
+    return this.call('create-schedule', [
+      Cl.principal(params.recipient),
+      Cl.uint(params.amount),
+      Cl.uint(params.interval),
+      Cl.uint(params.startAt),
+      Cl.uint(params.endAt),
+      Cl.stringAscii(params.description),
+      Cl.stringAscii(params.currencyPair),
+      Cl.uint(params.deposit ?? 0n),
+    ]);
+  }
+
+  /**
+   * Spawn the remittance of a schedule's current period; anyone can send it
+   */
+  triggerSchedule(scheduleId: bigint): EscrowContractCall {
+    return this.call('trigger-schedule', [Cl.uint(scheduleId)]);
+  }
+
+  fundSchedule(scheduleId: bigint, amount: bigint): EscrowContractCall {
+    return this.call('fund-schedule', [Cl.uint(scheduleId), Cl.uint(amount)]);
+  }
+
+  withdrawScheduleDeposit(scheduleId: bigint, amount: bigint): EscrowContractCall {
+    return this.call('withdraw-schedule-deposit', [Cl.uint(scheduleId), Cl.uint(amount)]);
+  }
+
+  /**
+   * Stop a schedule and refund its deposit to the creator
+   */
+  cancelSchedule(scheduleId: bigint): EscrowContractCall {
+    return this.call('cancel-schedule', [Cl.uint(scheduleId)]);
+  }
+
+  pauseContract(): EscrowContractCall {
+    return this.call('pause-contract', []);
+  }
+
+  unpauseContract(): EscrowContractCall {
+    return this.call('unpause-contract', []);
+  }
+
+  updatePlatformFee(newFeeBps: bigint): EscrowContractCall {
+    return this.call('update-platform-fee', [Cl.uint(newFeeBps)]);
+  }
+
+  /**
+   * Allow or disallow a SIP-010 token for new remittances (owner only)
+   * @param maxAmount Largest target or contribution, in the token's smallest unit
+   */
+  setTokenAllowed(token: string, allowed: boolean, maxAmount: bigint): EscrowContractCall {
+    return this.call('set-token-allowed', [
+      Cl.principal(token),
+      Cl.bool(allowed),
+      Cl.uint(maxAmount),
+    ]);
+  }
+
+  /**
+   * Add or deactivate a phone verifier's compressed public key (owner only)
+   */
+  setPhoneVerifier(publicKey: string, active: boolean): EscrowContractCall {
+    return this.call('set-phone-verifier', [Cl.bufferFromHex(publicKey), Cl.bool(active)]);
+  }
+
+  emergencyWithdraw(
+    amount: bigint,
+    recipient: string,
+    token: string | null = null
+  ): EscrowContractCall {
+    return token
+      ? this.call('emergency-withdraw-token', [
+          Cl.principal(token),
+          Cl.uint(amount),
+          Cl.principal(recipient),
+        ])
+      : this.call('emergency-withdraw', [Cl.uint(amount), Cl.principal(recipient)]);
+  }
+
+  /**
+   * Sign a contract call with a private key and broadcast it
+   * @param call Call built by one of the public function methods
+   * @param senderKey Hex-encoded private key of the sender
+   * @returns Transaction ID
+   */
+  async submit(
+    call: EscrowContractCall,
+    senderKey: string,
+    options: SubmitOptions = {}
+  ): Promise<string> {
+    const transaction = await makeContractCall({
+      ...call,
+      ...options,
+      senderKey,
+      network: this.network,
+    });
+    const result = await broadcastTransaction({ transaction, network: this.network });
+    if ('error' in result) {
+      throw new Error(`Broadcast of ${call.functionName} rejected: ${result.reason}`);
+    }
+    return result.txid;
+  }
+
+  // Read-only functions
+
+  async getContractOwner(): Promise<string> {
+    return decodePrincipal(await this.readOnly('get-contract-owner', []));
+  }
+
+  async isPaused(): Promise<boolean> {
+    return decodeBool(await this.readOnly('is-paused', []));
+  }
+
+  /**
+   * @returns The remittance, or null if the ID does not exist
+   */
+  async getRemittance(remittanceId: bigint): Promise<Remittance | null> {
+    const result = await this.readOnly('get-remittance', [Cl.uint(remittanceId)]);
+    return result.type === ClarityType.ResponseOk ? decodeRemittance(result.value) : null;
+  }
+
+  /**
+   * @returns The recipients of a split remittance with their shares, or null if it is not split
+   */
+  async getRemittanceSplits(remittanceId: bigint): Promise<SplitRecipient[] | null> {
+    const result = await this.readOnly('get-remittance-splits', [Cl.uint(remittanceId)]);
+    return result.type === ClarityType.ResponseOk
+      ? decodeList(result.value, decodeSplitRecipient)
+      : null;
+  }
+
+  /**
+   * @returns The contribution, or null if the principal never contributed
+   */
+  async getContribution(remittanceId: bigint, contributor: string): Promise<Contribution | null> {
+    const result = await this.readOnly('get-contribution', [
+      Cl.uint(remittanceId),
+      Cl.principal(contributor),
+    ]);
+    return result.type === ClarityType.ResponseOk ? decodeContribution(result.value) : null;
+  }
+
+  async getContributorCount(remittanceId: bigint): Promise<bigint> {
+    return decodeUInt(await this.readOnly('get-contributor-count', [Cl.uint(remittanceId)]));
+  }
+
+  /**
+   * Read one page of a remittance's contributors, in index order
+   * @param offset Position of the first contributor to read
+   * @param limit Maximum number of contributors to read
+   */
+  async getContributors(remittanceId: bigint, offset = 0n, limit = 50n): Promise<string[]> {
+    const count = await this.getContributorCount(remittanceId);
+    const end = offset + limit < count ? offset + limit : count;
+    const reads: Promise<ClarityValue>[] = [];
+    for (let index = offset; index < end; index++) {
+      reads.push(this.readOnly('get-contributor-at', [Cl.uint(remittanceId), Cl.uint(index)]));
+    }
+    return (await Promise.all(reads)).map(result => {
+      if (result.type !== ClarityType.ResponseOk) {
+        throw new TypeError(
+          `Contributor index of remittance ${remittanceId} changed while reading`
+        );
+      }
+      return decodePrincipal(result.value);
+    });
+  }
+
+  /**
+   * Refund progress of a cancelled remittance
+   * @returns Position of the next contributor to refund and the number still waiting
+   */
+  async getRefundProgress(
+    remittanceId: bigint
+  ): Promise<{ nextIndex: bigint; pendingCount: bigint }> {
+    const [count, cursor] = await Promise.all([
+      this.getContributorCount(remittanceId),
+      this.readOnly('get-refund-cursor', [Cl.uint(remittanceId)]),
+    ]);
+    const nextIndex = decodeUInt(cursor);
+    return { nextIndex, pendingCount: count - nextIndex };
+  }
+
+  /**
+   * Amount claim-refund would return to a contributor right now
+   * @param now Current stacks-block-time, e.g. the timestamp of the chain tip
+   * @returns The refundable amount, or 0 if claim-refund would fail
+   */
+  async getClaimableRefund(
+    remittanceId: bigint,
+    contributor: string,
+    now: bigint
+  ): Promise<bigint> {
+    const [remittance, contribution] = await Promise.all([
+      this.getRemittance(remittanceId),
+      this.getContribution(remittanceId, contributor),
+    ]);
+    if (!remittance || !contribution) return 0n;
+    // Mirrors claim-asset-refund, which also accepts a funded remittance whose claim expired
+    const claimExpired = remittance.claimExpiresAt !== null && remittance.claimExpiresAt <= now;
+    const open =
+      remittance.status === 'active' ||
+      remittance.status === 'expired' ||
+      (remittance.status === 'funded' && claimExpired);
+    return open && remittance.deadline <= now && contribution.amount > 0n
+      ? contribution.amount
+      : 0n;
+  }
+
+  /**
+   * @returns Platform fee in basis points
+   */
+  async getPlatformFee(): Promise<bigint> {
+    return decodeUInt(await this.readOnly('get-platform-fee', []));
+  }
+
+  /**
+   * Current STX equivalent of a fiat amount, rounded up like create-fiat-remittance
+   * @param fiatAmount Fiat amount with 8 decimals
+   * @param currencyPair Oracle pair pricing STX, e.g. `STX-KES`
+   * @returns Amount in micro-STX, or null if the oracle has no fresh rate
+   */
+  async getStxEquivalent(fiatAmount: bigint, currencyPair: string): Promise<bigint | null> {
+    const result = await this.readOnly('get-stx-equivalent', [
+      Cl.uint(fiatAmount),
+      Cl.stringAscii(currencyPair),
+    ]);
+    return result.type === ClarityType.ResponseOk ? decodeUInt(result.value) : null;
+  }
+
+  /**
+   * Look up a pair in the oracle's registry, including pairs added after deployment
+   * @returns The pair with display metadata and whether it is active, or null if never registered
+   */
+  async getCurrencyPair(
+    currencyPair: string
+  ): Promise<(CurrencyPair & { active: boolean }) | null> {
+    const result = await this.readOnly(
+      'get-currency-pair',
+      [Cl.stringAscii(currencyPair)],
+      `${this.contractAddress}.${ORACLE_CONTRACT_NAME}`
+    );
+    if (result.type !== ClarityType.ResponseOk) return null;
+    const tuple = decodeTuple(result.value);
+    return {
+      pair: currencyPair,
+      base: currencyInfo(decodeAscii(field(tuple, 'base'))),
+      quote: currencyInfo(decodeAscii(field(tuple, 'quote'))),
+      active: decodeBool(field(tuple, 'active')),
+    };
+  }
+
+  /**
+   * @returns True if the oracle accepts rates and new remittances for the pair
+   */
+  async isSupportedPair(currencyPair: string): Promise<boolean> {
+    return decodeBool(
+      await this.readOnly(
+        'is-supported-pair',
+        [Cl.stringAscii(currencyPair)],
+        `${this.contractAddress}.${ORACLE_CONTRACT_NAME}`
+      )
+    );
+  }
+
+  /**
+   * Fresh oracle rate as read by the escrow
+   * @returns Fiat units per STX with 8 decimals, or null if missing or stale
+   */
+  async getFreshExchangeRate(currencyPair: string): Promise<bigint | null> {
+    const result = await this.readOnly(
+      'get-fresh-exchange-rate',
+      [Cl.stringAscii(currencyPair)],
+      `${this.contractAddress}.${ORACLE_CONTRACT_NAME}`
+    );
+    return result.type === ClarityType.ResponseOk
+      ? decodeUInt(field(decodeTuple(result.value), 'rate'))
+      : null;
+  }
+
+  /**
+   * Published rates the oracle retains for a pair, e.g. for `toRateSeries`
+   * @returns Up to RATE_HISTORY_SIZE rates, newest first
+   */
+  async getRateHistory(currencyPair: string): Promise<RatePoint[]> {
+    const result = await this.readOnly(
+      'get-rate-history',
+      [Cl.stringAscii(currencyPair)],
+      `${this.contractAddress}.${ORACLE_CONTRACT_NAME}`
+    );
+    if (result.type !== ClarityType.List) throw new TypeError(`Expected list, got ${result.type}`);
+    return result.value.map(entry => {
+      const tuple = decodeTuple(entry);
+      return {
+        rate: decodeUInt(field(tuple, 'rate')),
+        updatedAt: decodeUInt(field(tuple, 'updated-at')),
+      };
+    });
+  }
+
+  /**
+   * Time-weighted average rate over a window ending at the current block
+   * @param window Window length in seconds
+   * @returns The TWAP, or null if the pair has no history or the window is empty
+   */
+  async getTwap(currencyPair: string, window: bigint): Promise<TwapResult | null> {
+    const result = await this.readOnly(
+      'get-twap',
+      [Cl.stringAscii(currencyPair), Cl.uint(window)],
+      `${this.contractAddress}.${ORACLE_CONTRACT_NAME}`
+    );
+    if (result.type !== ClarityType.ResponseOk) return null;
+    const tuple = decodeTuple(result.value);
+    return {
+      twap: decodeUInt(field(tuple, 'twap')),
+      covered: decodeUInt(field(tuple, 'covered')),
+      observations: Number(decodeUInt(field(tuple, 'observations'))),
+    };
+  }
+
+  /**
+   * Funding of a remittance, with fiat targets converted at the current oracle rate
+   * @returns The progress, or null if the ID does not exist
+   */
+  async getFundingProgress(remittanceId: bigint): Promise<FundingProgress | null> {
+    const remittance = await this.getRemittance(remittanceId);
+    if (!remittance) return null;
+
+    const { totalRaised, targetAmount, fiatTarget } = remittance;
+    if (fiatTarget === null) {
+      return {
+        remittanceId,
+        totalRaised,
+        targetAmount,
+        fiatTarget,
+        fiatRaised: null,
+        rateFresh: true,
+      };
+    }
+    const rate = await this.getFreshExchangeRate(remittance.currencyPair);
+    return {
+      remittanceId,
+      totalRaised,
+      targetAmount: rate === null ? targetAmount : fiatToMicroStx(fiatTarget, rate),
+      fiatTarget,
+      fiatRaised: rate === null ? null : fiatValue(totalRaised, rate),
+      rateFresh: rate !== null,
+    };
+  }
+
+  /**
+   * @returns The principal bound to a phone hash, or null if it is not bound yet
+   */
+  async getPhoneBinding(phoneHash: string): Promise<PhoneBinding | null> {
+    const result = await this.readOnly('get-phone-binding', [Cl.bufferFromHex(phoneHash)]);
+    if (result.type !== ClarityType.ResponseOk) return null;
+    const tuple = decodeTuple(result.value);
+    return {
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      verifier: decodeBuffer(field(tuple, 'verifier')),
+      boundAt: decodeUInt(field(tuple, 'bound-at')),
+    };
+  }
+
+  /**
+   * @returns The passkey a creator or recipient registered, or null if there is none
+   */
+  async getPasskey(remittanceId: bigint, owner: string): Promise<Passkey | null> {
+    const result = await this.readOnly('get-passkey', [Cl.uint(remittanceId), Cl.principal(owner)]);
+    if (result.type !== ClarityType.ResponseOk) return null;
+    const tuple = decodeTuple(result.value);
+    return {
+      publicKey: decodeBuffer(field(tuple, 'public-key')),
+      rpIdHash: decodeBuffer(field(tuple, 'rp-id-hash')),
+      nonce: decodeUInt(field(tuple, 'nonce')),
+    };
+  }
+
+  /**
+   * Challenge the owner's passkey must sign next for an action, see `encodePasskeyAssertion`
+   * @returns Hex-encoded challenge, or null if the owner registered no passkey
+   */
+  async getPasskeyChallenge(
+    remittanceId: bigint,
+    owner: string,
+    action: PasskeyAction
+  ): Promise<string | null> {
+    const passkey = await this.getPasskey(remittanceId, owner);
+    if (!passkey) return null;
+    return decodeBuffer(
+      await this.readOnly('get-passkey-challenge', [
+        Cl.uint(remittanceId),
+        Cl.stringAscii(action),
+        Cl.uint(passkey.nonce),
+      ])
+    );
+  }
+
+  /**
+   * @returns The schedule, or null if the ID does not exist
+   */
+  async getSchedule(scheduleId: bigint): Promise<Schedule | null> {
+    const result = await this.readOnly('get-schedule', [Cl.uint(scheduleId)]);
+    return result.type === ClarityType.ResponseOk ? decodeSchedule(result.value) : null;
+  }
+
+  /**
+   * @returns Number of schedules; IDs run from 0 to the count minus one
+   */
+  async getScheduleCount(): Promise<bigint> {
+    return decodeUInt(await this.readOnly('get-schedule-count', []));
+  }
+
+  async isPhoneVerifier(publicKey: string): Promise<boolean> {
+    return decodeBool(await this.readOnly('is-phone-verifier', [Cl.bufferFromHex(publicKey)]));
+  }
+
+  async isTokenAllowed(token: string): Promise<boolean> {
+    return decodeBool(await this.readOnly('is-token-allowed', [Cl.principal(token)]));
+  }
+
+  /**
+   * @returns Largest amount of the token a remittance may target, 0 if it was never configured
+   */
+  async getTokenMaxAmount(token: string): Promise<bigint> {
+    return decodeUInt(await this.readOnly('get-token-max-amount', [Cl.principal(token)]));
+  }
+
+  /**
+   * Read the name, symbol and decimals of a remittance asset from its SIP-010 contract
+   * @param token SIP-010 contract identifier, or null for STX
+   * @returns Token metadata, cached per client since SIP-010 metadata is immutable
+   */
+  getTokenInfo(token: string | null): Promise<TokenInfo> {
+    if (!token) return Promise.resolve(STX_TOKEN);
+
+    let info = this.tokenInfos.get(token);
+    if (!info) {
+      info = this.fetchTokenInfo(token);
+      info.catch(() => this.tokenInfos.delete(token));
+      this.tokenInfos.set(token, info);
+    }
+    return info;
+  }
+
+  /**
+   * Name of the fungible token a SIP-010 contract defines, needed for its post-conditions
+   * @param token SIP-010 contract identifier
+   * @throws TypeError if the contract does not define exactly one fungible token
+   */
+  getTokenAssetName(token: string): Promise<string> {
+    let name = this.assetNames.get(token);
+    if (!name) {
+      name = this.fetchTokenAssetName(token);
+      name.catch(() => this.assetNames.delete(token));
+      this.assetNames.set(token, name);
+    }
+    return name;
+  }
+
+  private async fetchTokenAssetName(token: string): Promise<string> {
+    const [contractAddress = '', contractName = ''] = token.split('.');
+    const abi = await fetchAbi({ contractAddress, contractName, network: this.network });
+    const [asset, ...others] = abi.fungible_tokens;
+    if (!asset || others.length > 0) {
+      throw new TypeError(`${token} defines ${abi.fungible_tokens.length} fungible tokens`);
+    }
+    return asset.name;
+  }
+
+  private async fetchTokenInfo(token: string): Promise<TokenInfo> {
+    const [name, symbol, decimals] = await Promise.all([
+      this.readOnly('get-name', [], token),
+      this.readOnly('get-symbol', [], token),
+      this.readOnly('get-decimals', [], token),
+    ]);
+    return {
+      contract: token,
+      name: decodeAscii(decodeOk(name)),
+      symbol: decodeAscii(decodeOk(symbol)),
+      decimals: Number(decodeUInt(decodeOk(decimals))),
+    };
+  }
+
+  private assetCall(
+    stxFunctionName: EscrowPublicFunction,
+    tokenFunctionName: EscrowPublicFunction,
+    remittanceId: bigint,
+    token: string | null
+  ): EscrowContractCall {
+    return token
+      ? this.call(tokenFunctionName, [Cl.uint(remittanceId), Cl.principal(token)])
+      : this.call(stxFunctionName, [Cl.uint(remittanceId)]);
+  }
+
+  private passkeyCall(
+    stxFunctionName: EscrowPublicFunction,
+    tokenFunctionName: EscrowPublicFunction,
+    remittanceId: bigint,
+    assertion: PasskeyAssertion,
+    token: string | null
+  ): EscrowContractCall {
+    const tuple = Cl.tuple({
+      'authenticator-data': Cl.bufferFromHex(assertion.authenticatorData),
+      'client-data-json': Cl.bufferFromHex(assertion.clientDataJson),
+      signature: Cl.bufferFromHex(assertion.signature),
+    });
+    return token
+      ? this.call(tokenFunctionName, [Cl.uint(remittanceId), Cl.principal(token), tuple])
+      : this.call(stxFunctionName, [Cl.uint(remittanceId), tuple]);
+  }
+
+  private call(
+    functionName: EscrowPublicFunction,
+    functionArgs: ClarityValue[]
+  ): EscrowContractCall {
+    return {
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+    };
+  }
+
+  /**
+   * @param contract Contract identifier to call instead of the escrow, e.g. a SIP-010 token
+   */
+  private readOnly(functionName: string, functionArgs: ClarityValue[], contract?: string) {
+    const [contractAddress = this.contractAddress, contractName = this.contractName] =
+      contract?.split('.') ?? [];
+    return fetchCallReadOnlyFunction({
+      contractAddress,
+      contractName,
+      functionName,
+      functionArgs,
+      senderAddress: this.senderAddress,
+      network: this.network,
+    });
+  }
+}
+
+// Clarity value decoders
+
+// Codes registered after the display metadata was written fall back to the bare code
+function currencyInfo(code: string): CurrencyInfo {
+  return CURRENCIES[code] ?? { code, name: code, symbol: code };
+}
+
+/**
+ * Decode a `remittances` map value
+ */
+export function decodeRemittance(cv: ClarityValue): Remittance {
+  const tuple = decodeTuple(cv);
+  return {
+    creator: decodePrincipal(field(tuple, 'creator')),
+    recipient: decodePrincipal(field(tuple, 'recipient')),
+    targetAmount: decodeUInt(field(tuple, 'target-amount')),
+    totalRaised: decodeUInt(field(tuple, 'total-raised')),
+    deadline: decodeUInt(field(tuple, 'deadline')),
+    description: decodeAscii(field(tuple, 'description')),
+    status: decodeAscii(field(tuple, 'status')) as RemittanceStatus,
+    createdAt: decodeUInt(field(tuple, 'created-at')),
+    releasedAt: decodeOptional(field(tuple, 'released-at'), decodeUInt),
+    currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+    token: decodeOptional(field(tuple, 'token'), decodePrincipal),
+    fiatTarget: decodeOptional(field(tuple, 'fiat-target'), decodeUInt),
+    phoneHash: decodeOptional(field(tuple, 'phone-hash'), decodeBuffer),
+    claimHash: decodeOptional(field(tuple, 'claim-hash'), decodeBuffer),
+    claimExpiresAt: decodeOptional(field(tuple, 'claim-expires-at'), decodeUInt),
+  };
+}
+
+/**
+ * Decode a `contributions` map value
+ */
+export function decodeContribution(cv: ClarityValue): Contribution {
+  const tuple = decodeTuple(cv);
+  return {
+    amount: decodeUInt(field(tuple, 'amount')),
+    contributedAt: decodeUInt(field(tuple, 'contributed-at')),
+  };
+}
+
+/**
+ * Decode an entry of a `remittance-splits` map value
+ */
+export function decodeSplitRecipient(cv: ClarityValue): SplitRecipient {
+  const tuple = decodeTuple(cv);
+  return {
+    recipient: decodePrincipal(field(tuple, 'recipient')),
+    shareBps: decodeUInt(field(tuple, 'share-bps')),
+  };
+}
+
+/**
+ * Decode a `schedules` map value
+ */
+export function decodeSchedule(cv: ClarityValue): Schedule {
+  const tuple = decodeTuple(cv);
+  return {
+    creator: decodePrincipal(field(tuple, 'creator')),
+    recipient: decodePrincipal(field(tuple, 'recipient')),
+    amount: decodeUInt(field(tuple, 'amount')),
+    interval: decodeUInt(field(tuple, 'interval')),
+    startAt: decodeUInt(field(tuple, 'start-at')),
+    endAt: decodeUInt(field(tuple, 'end-at')),
+    description: decodeAscii(field(tuple, 'description')),
+    currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+    nextPeriod: decodeUInt(field(tuple, 'next-period')),
+    deposit: decodeUInt(field(tuple, 'deposit')),
+    status: decodeAscii(field(tuple, 'status')) as ScheduleStatus,
+    createdAt: decodeUInt(field(tuple, 'created-at')),
+  };
+}
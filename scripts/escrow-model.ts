@@ -0,0 +1,1317 @@
+/**
+ * Off-chain reference model of the stacksend-escrow contract
+ *
+ * Every public function is reproduced with the same check order, error codes and
+ * STX or SIP-010 transfers as the Clarity source, so the model can predict outcomes
+ * for the UI and serve as the oracle in differential tests against simnet.
+ *
+ * Calls that move funds take an optional `token`; when set they model the
+ * `-token` variant of the contract function, e.g. `contribute-token`. Releases and
+ * cancellations likewise take an optional `assertion` for the `-with-passkey` variants.
+ */
+
+import { hashClaimPublicKey } from './claim-code.ts';
+import {
+  ESCROW_ERRORS,
+  StackSendError,
+  TransactionAbortError,
+  errorFromCode,
+  type EscrowErrorName,
+} from './errors.ts';
+import { MAX_AMOUNT, MIN_AMOUNT } from './money.ts';
+import { CURRENCY_PAIRS } from './pair-registry.ts';
+import { schedulePeriod } from './schedule.ts';
+import {
+  FLAG_USER_PRESENT,
+  FLAG_USER_VERIFIED,
+  passkeyChallenge,
+  type PasskeyAction,
+} from './passkey.ts';
+import {
+  BASIS_POINTS,
+  DEFAULT_PLATFORM_FEE_BPS,
+  MAX_FIAT_TARGET,
+  MAX_PLATFORM_FEE_BPS,
+  fiatToMicroStx,
+  fiatValue,
+  quoteFee,
+  splitPayouts,
+} from './quote.ts';
+import type {
+  Contribution,
+  CreateClaimableRemittanceParams,
+  CreateFiatRemittanceParams,
+  CreatePhoneRemittanceParams,
+  CreateRemittanceParams,
+  CreateScheduleParams,
+  CreateSplitRemittanceParams,
+  Passkey,
+  PhoneBinding,
+  Remittance,
+  Schedule,
+  SplitRecipient,
+} from './types.ts';
+
+// Mirrors max-deadline-offset, max-schedule-duration and refund-page-size
+export const MAX_DEADLINE_OFFSET = 31_536_000n;
+export const MAX_SCHEDULE_DURATION = 157_680_000n;
+export const REFUND_PAGE_SIZE = 50n;
+
+// Mirrors min-split-recipients and the length of the splits list of create-split-remittance
+export const MIN_SPLIT_RECIPIENTS = 2;
+export const MAX_SPLIT_RECIPIENTS = 10;
+
+// Mirrors max-rate-age in stacksend-oracle.clar
+export const MAX_RATE_AGE = 86_400n;
+
+// chain-id of testnet and simnet
+export const TESTNET_CHAIN_ID = 0x80000000;
+
+// Error codes returned by stx-transfer? and ft-transfer?
+const STX_ERR_INSUFFICIENT_BALANCE = 1;
+const STX_ERR_SAME_PRINCIPAL = 2;
+const STX_ERR_NON_POSITIVE_AMOUNT = 3;
+
+/** SIP-010 contract identifier passed to a `-token` function, null or omitted for STX */
+type TokenArg = { token?: string | null };
+
+/**
+ * Passkey assertion as check-passkey sees it, with the signature already verified off-chain
+ */
+export interface ModelPasskeyAssertion {
+  /** Hex-encoded relying party ID hash the authenticator data starts with */
+  rpIdHash: string;
+  /** Hex-encoded challenge carried by the client data */
+  challenge: string;
+  /** Authenticator data flags */
+  flags: number;
+  /** Public key the signature verifies under, null if it verifies under none */
+  signer: string | null;
+}
+
+/** Assertion passed to a `-with-passkey` function, omitted for the plain function */
+type AssertionArg = { assertion?: ModelPasskeyAssertion };
+
+export type EscrowCall =
+  | { fn: 'create-remittance'; sender: string; params: CreateRemittanceParams }
+  | { fn: 'create-fiat-remittance'; sender: string; params: CreateFiatRemittanceParams }
+  | { fn: 'create-phone-remittance'; sender: string; params: CreatePhoneRemittanceParams }
+  | { fn: 'create-claimable-remittance'; sender: string; params: CreateClaimableRemittanceParams }
+  | { fn: 'create-split-remittance'; sender: string; params: CreateSplitRemittanceParams }
+  | ({ fn: 'contribute'; sender: string; remittanceId: bigint; amount: bigint } & TokenArg)
+  | ({
+      fn: 'withdraw-contribution';
+      sender: string;
+      remittanceId: bigint;
+      amount: bigint;
+    } & TokenArg)
+  | ({ fn: 'release-funds'; sender: string; remittanceId: bigint } & TokenArg & AssertionArg)
+  | ({ fn: 'cancel-remittance'; sender: string; remittanceId: bigint } & TokenArg & AssertionArg)
+  | ({ fn: 'process-refunds'; sender: string; remittanceId: bigint } & TokenArg)
+  | {
+      fn: 'claim-remittance';
+      sender: string;
+      remittanceId: bigint;
+      /** Public key the claim signature recovers to, null if it does not recover */
+      signer: string | null;
+      recipient: string;
+    }
+  | ({ fn: 'claim-refund'; sender: string; remittanceId: bigint } & TokenArg)
+  | { fn: 'refresh-funding'; sender: string; remittanceId: bigint }
+  | {
+      fn: 'bind-phone';
+      sender: string;
+      phoneHash: string;
+      expiresAt: bigint;
+      /** Public key the attestation signature recovers to, null if it does not recover */
+      signer: string | null;
+    }
+  | {
+      fn: 'register-passkey';
+      sender: string;
+      remittanceId: bigint;
+      publicKey: string;
+      rpIdHash: string;
+    }
+  | { fn: 'create-schedule'; sender: string; params: CreateScheduleParams }
+  | { fn: 'trigger-schedule'; sender: string; scheduleId: bigint }
+  | { fn: 'fund-schedule'; sender: string; scheduleId: bigint; amount: bigint }
+  | { fn: 'withdraw-schedule-deposit'; sender: string; scheduleId: bigint; amount: bigint }
+  | { fn: 'cancel-schedule'; sender: string; scheduleId: bigint }
+  | { fn: 'pause-contract'; sender: string }
+  | { fn: 'unpause-contract'; sender: string }
+  | { fn: 'update-platform-fee'; sender: string; newFeeBps: bigint }
+  | { fn: 'set-token-allowed'; sender: string; token: string; allowed: boolean; maxAmount: bigint }
+  | { fn: 'set-phone-verifier'; sender: string; publicKey: string; active: boolean }
+  | ({ fn: 'emergency-withdraw'; sender: string; amount: bigint; recipient: string } & TokenArg);
+
+export interface StxTransfer {
+  sender: string;
+  recipient: string;
+  amount: bigint;
+  /** SIP-010 contract identifier of a token transfer, null for STX */
+  token: string | null;
+}
+
+export type ModelResult =
+  { ok: true; value: bigint | boolean } | { ok: false; error: StackSendError; code: number | null };
+
+export interface ModelOutcome {
+  result: ModelResult;
+  /** STX and token transfer events emitted by a successful call, in order */
+  transfers: StxTransfer[];
+}
+
+export interface TraceEntry {
+  step: number;
+  time: bigint;
+  call: EscrowCall;
+  expected: ModelOutcome;
+  /** Result repr observed on chain, when the entry came from `check` */
+  actual?: string;
+}
+
+export interface EscrowModelOptions {
+  owner: string;
+  /** Contract principal receiving contributions, defaults to `<owner>.stacksend-escrow` */
+  contractId?: string;
+  feeBps?: bigint;
+  /** Known STX balances; principals missing here are assumed to hold enough STX */
+  balances?: Record<string, bigint>;
+  /** Known balances per SIP-010 contract identifier, with the same assumption */
+  tokenBalances?: Record<string, Record<string, bigint>>;
+  /** SIP-010 tokens already allowed for new remittances, with their max amount */
+  allowedTokens?: Record<string, bigint>;
+  /** Oracle rates by currency pair, see `setExchangeRate` */
+  exchangeRates?: Record<string, ExchangeRate>;
+  /** Pairs the oracle supports, defaults to the pairs it registers at deployment */
+  currencyPairs?: string[];
+  /** chain-id passkey challenges are bound to, defaults to TESTNET_CHAIN_ID */
+  chainId?: number;
+}
+
+/**
+ * Oracle rate as stored by stacksend-oracle
+ */
+export interface ExchangeRate {
+  /** Fiat units per STX with 8 decimals */
+  rate: bigint;
+  /** Block time of the update */
+  updatedAt: bigint;
+}
+
+/**
+ * The model and the chain disagreed; `trace` holds every call up to the divergence
+ */
+export class DivergenceError extends StackSendError {
+  override readonly name = 'DivergenceError';
+
+  constructor(readonly trace: TraceEntry[]) {
+    super(`Model diverged from contract\n${formatTrace(trace)}`);
+  }
+}
+
+/**
+ * Render a Clarity-style repr of a model result, e.g. `(ok u0)` or `(err u107)`
+ */
+export function reprResult(result: ModelResult): string {
+  if (result.ok) {
+    return typeof result.value === 'boolean' ? `(ok ${result.value})` : `(ok u${result.value})`;
+  }
+  return result.code === null ? '(err none)' : `(err u${result.code})`;
+}
+
+/**
+ * Render a trace as one line per call, marking divergent steps
+ */
+export function formatTrace(trace: TraceEntry[]): string {
+  return trace
+    .map(entry => {
+      const { fn, sender, ...args } = entry.call;
+      const expected = reprResult(entry.expected.result);
+      const divergent = entry.actual !== undefined && entry.actual !== expected;
+      const argList = Object.entries(args)
+        .map(
+          ([key, value]) =>
+            `${key}=${typeof value === 'object' ? JSON.stringify(value, bigintReplacer) : value}`
+        )
+        .join(' ');
+      return (
+        `${divergent ? '!' : ' '} #${entry.step} t=${entry.time} ${fn} from ${sender} ${argList}` +
+        ` -> expected ${expected}${divergent ? `, actual ${entry.actual}` : ''}`
+      );
+    })
+    .join('\n');
+}
+
+export class EscrowModel {
+  readonly owner: string;
+  readonly contractId: string;
+  readonly chainId: number;
+  private nonce = 0n;
+  private scheduleNonce = 0n;
+  private paused = false;
+  private feeBps: bigint;
+  private readonly contractBalances = new Map<string | null, bigint>();
+  private readonly balances: Map<string, bigint>;
+  private readonly allowedTokens: Set<string>;
+  private readonly tokenMaxAmounts: Map<string, bigint>;
+  private readonly exchangeRates: Map<string, ExchangeRate>;
+  private readonly currencyPairs: Set<string>;
+  private readonly phoneVerifiers = new Set<string>();
+  private readonly phoneBindings = new Map<string, PhoneBinding>();
+  private readonly passkeys = new Map<string, Passkey>();
+  private readonly remittances = new Map<bigint, Remittance>();
+  private readonly splits = new Map<bigint, SplitRecipient[]>();
+  private readonly contributions = new Map<string, Contribution>();
+  private readonly contributors = new Map<bigint, string[]>();
+  private readonly refundCursors = new Map<bigint, bigint>();
+  private readonly schedules = new Map<bigint, Schedule>();
+  private readonly history: TraceEntry[] = [];
+
+  constructor(options: EscrowModelOptions) {
+    this.owner = options.owner;
+    this.contractId = options.contractId ?? `${options.owner}.stacksend-escrow`;
+    this.chainId = options.chainId ?? TESTNET_CHAIN_ID;
+    this.feeBps = options.feeBps ?? DEFAULT_PLATFORM_FEE_BPS;
+    this.balances = new Map(Object.entries(options.balances ?? {}));
+    for (const [token, holders] of Object.entries(options.tokenBalances ?? {})) {
+      for (const [holder, balance] of Object.entries(holders)) {
+        this.balances.set(balanceKey(holder, token), balance);
+      }
+    }
+    this.allowedTokens = new Set(Object.keys(options.allowedTokens ?? {}));
+    this.tokenMaxAmounts = new Map(Object.entries(options.allowedTokens ?? {}));
+    this.exchangeRates = new Map(Object.entries(options.exchangeRates ?? {}));
+    this.currencyPairs = new Set(options.currencyPairs ?? CURRENCY_PAIRS.map(entry => entry.pair));
+  }
+
+  // Read-only views
+
+  getRemittance(remittanceId: bigint): Remittance | null {
+    const remittance = this.remittances.get(remittanceId);
+    return remittance ? { ...remittance } : null;
+  }
+
+  getRemittanceSplits(remittanceId: bigint): SplitRecipient[] | null {
+    const splits = this.splits.get(remittanceId);
+    return splits ? splits.map(split => ({ ...split })) : null;
+  }
+
+  getContribution(remittanceId: bigint, contributor: string): Contribution | null {
+    const contribution = this.contributions.get(contributionKey(remittanceId, contributor));
+    return contribution ? { ...contribution } : null;
+  }
+
+  getContributors(remittanceId: bigint): string[] {
+    return [...(this.contributors.get(remittanceId) ?? [])];
+  }
+
+  getRefundCursor(remittanceId: bigint): bigint {
+    return this.refundCursors.get(remittanceId) ?? 0n;
+  }
+
+  getPlatformFee(): bigint {
+    return this.feeBps;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isTokenAllowed(token: string): boolean {
+    return this.allowedTokens.has(token);
+  }
+
+  getTokenMaxAmount(token: string): bigint {
+    return this.tokenMaxAmounts.get(token) ?? 0n;
+  }
+
+  isPhoneVerifier(publicKey: string): boolean {
+    return this.phoneVerifiers.has(publicKey);
+  }
+
+  getPhoneBinding(phoneHash: string): PhoneBinding | null {
+    const binding = this.phoneBindings.get(phoneHash);
+    return binding ? { ...binding } : null;
+  }
+
+  getPasskey(remittanceId: bigint, owner: string): Passkey | null {
+    const passkey = this.passkeys.get(contributionKey(remittanceId, owner));
+    return passkey ? { ...passkey } : null;
+  }
+
+  /**
+   * @param token SIP-010 contract identifier, or null for the STX balance
+   */
+  getContractBalance(token: string | null = null): bigint {
+    return this.contractBalances.get(token) ?? 0n;
+  }
+
+  /**
+   * Mirrors get-fresh-exchange-rate as read by the escrow
+   * @returns The rate, or null if it is missing or older than MAX_RATE_AGE at `time`
+   */
+  getFreshRate(currencyPair: string, time: bigint): bigint | null {
+    const entry = this.exchangeRates.get(currencyPair);
+    return entry && time - entry.updatedAt <= MAX_RATE_AGE ? entry.rate : null;
+  }
+
+  getRemittanceCount(): bigint {
+    return this.nonce;
+  }
+
+  getSchedule(scheduleId: bigint): Schedule | null {
+    const schedule = this.schedules.get(scheduleId);
+    return schedule ? { ...schedule } : null;
+  }
+
+  getScheduleCount(): bigint {
+    return this.scheduleNonce;
+  }
+
+  get trace(): readonly TraceEntry[] {
+    return this.history;
+  }
+
+  /**
+   * Copy the state without the trace, e.g. to apply an optimistic update
+   */
+  clone(): EscrowModel {
+    const copy = new EscrowModel({
+      owner: this.owner,
+      contractId: this.contractId,
+      currencyPairs: [...this.currencyPairs],
+      chainId: this.chainId,
+    });
+    copy.nonce = this.nonce;
+    copy.scheduleNonce = this.scheduleNonce;
+    copy.paused = this.paused;
+    copy.feeBps = this.feeBps;
+    this.contractBalances.forEach((value, key) => copy.contractBalances.set(key, value));
+    this.balances.forEach((value, key) => copy.balances.set(key, value));
+    this.allowedTokens.forEach(token => copy.allowedTokens.add(token));
+    this.tokenMaxAmounts.forEach((value, key) => copy.tokenMaxAmounts.set(key, value));
+    this.phoneVerifiers.forEach(publicKey => copy.phoneVerifiers.add(publicKey));
+    this.phoneBindings.forEach((value, key) => copy.phoneBindings.set(key, { ...value }));
+    this.passkeys.forEach((value, key) => copy.passkeys.set(key, { ...value }));
+    this.exchangeRates.forEach((value, key) => copy.exchangeRates.set(key, value));
+    this.remittances.forEach((value, key) => copy.remittances.set(key, { ...value }));
+    this.splits.forEach((value, key) =>
+      copy.splits.set(
+        key,
+        value.map(split => ({ ...split }))
+      )
+    );
+    this.contributions.forEach((value, key) => copy.contributions.set(key, { ...value }));
+    this.contributors.forEach((value, key) => copy.contributors.set(key, [...value]));
+    this.refundCursors.forEach((value, key) => copy.refundCursors.set(key, value));
+    this.schedules.forEach((value, key) => copy.schedules.set(key, { ...value }));
+    return copy;
+  }
+
+  // Transitions
+
+  /**
+   * Record an oracle update; the oracle is a separate contract, so this is not a traced call
+   * @param rate Fiat units per STX with 8 decimals
+   * @param time Block time of the update
+   */
+  setExchangeRate(currencyPair: string, rate: bigint, time: bigint) {
+    this.exchangeRates.set(currencyPair, { rate, updatedAt: time });
+  }
+
+  /**
+   * Record add-currency-pair or remove-currency-pair on the oracle, like `setExchangeRate`
+   */
+  setCurrencyPairSupported(currencyPair: string, supported: boolean) {
+    if (supported) this.currencyPairs.add(currencyPair);
+    else this.currencyPairs.delete(currencyPair);
+  }
+
+  /**
+   * Apply a call at the given block time
+   * @param call Public function call with its sender
+   * @param time Value of stacks-block-time in the block that includes the call
+   * @returns Predicted result and transfers; state is only changed on success
+   */
+  apply(call: EscrowCall, time: bigint): ModelOutcome {
+    const staged = this.clone();
+    const transfers: StxTransfer[] = [];
+    let result: ModelResult;
+    try {
+      result = { ok: true, value: staged.execute(call, time, transfers) };
+    } catch (error) {
+      if (!(error instanceof CallFailure)) throw error;
+      result = { ok: false, error: error.error, code: error.code };
+    }
+
+    if (result.ok) this.commit(staged);
+    const outcome = { result, transfers: result.ok ? transfers : [] };
+    this.history.push({ step: this.history.length, time, call, expected: outcome });
+    return outcome;
+  }
+
+  /**
+   * Apply a call and compare the prediction with the result observed on chain
+   * @param actual Result repr from the receipt, e.g. `(ok true)`
+   * @throws DivergenceError carrying the trace if the results differ
+   */
+  check(call: EscrowCall, time: bigint, actual: string): ModelOutcome {
+    const outcome = this.apply(call, time);
+    const entry = this.history[this.history.length - 1];
+    if (entry) entry.actual = actual;
+    if (reprResult(outcome.result) !== actual) throw new DivergenceError([...this.history]);
+    return outcome;
+  }
+
+  private execute(call: EscrowCall, time: bigint, transfers: StxTransfer[]): bigint | boolean {
+    switch (call.fn) {
+      case 'create-remittance':
+        return this.createRemittance(call.sender, call.params, time);
+      case 'create-fiat-remittance':
+        return this.createFiatRemittance(call.sender, call.params, time);
+      case 'create-phone-remittance':
+        return this.createRemittance(
+          call.sender,
+          { ...call.params, recipient: this.contractId },
+          time,
+          { phoneHash: call.params.phoneHash }
+        );
+      case 'create-claimable-remittance':
+        check(call.params.claimExpiresAt > call.params.deadline, 'err-invalid-deadline');
+        check(
+          call.params.claimExpiresAt <= call.params.deadline + MAX_DEADLINE_OFFSET,
+          'err-invalid-deadline'
+        );
+        return this.createRemittance(
+          call.sender,
+          { ...call.params, recipient: this.contractId },
+          time,
+          { claimHash: call.params.claimHash, claimExpiresAt: call.params.claimExpiresAt }
+        );
+      case 'create-split-remittance':
+        return this.createSplitRemittance(call.sender, call.params, time);
+      case 'contribute':
+        return this.contribute(
+          call.sender,
+          call.remittanceId,
+          call.token ?? null,
+          call.amount,
+          time,
+          transfers
+        );
+      case 'withdraw-contribution':
+        return this.withdrawContribution(
+          call.sender,
+          call.remittanceId,
+          call.token ?? null,
+          call.amount,
+          time,
+          transfers
+        );
+      case 'release-funds':
+        return this.releaseFunds(
+          call.sender,
+          call.remittanceId,
+          call.token ?? null,
+          call.assertion ?? null,
+          time,
+          transfers
+        );
+      case 'cancel-remittance':
+        return this.cancelRemittance(
+          call.sender,
+          call.remittanceId,
+          call.token ?? null,
+          call.assertion ?? null,
+          transfers
+        );
+      case 'process-refunds':
+        return this.processRefunds(call.remittanceId, call.token ?? null, transfers);
+      case 'claim-refund':
+        return this.claimRefund(
+          call.sender,
+          call.remittanceId,
+          call.token ?? null,
+          time,
+          transfers
+        );
+      case 'claim-remittance':
+        return this.claimRemittance(
+          call.remittanceId,
+          call.signer,
+          call.recipient,
+          time,
+          transfers
+        );
+      case 'refresh-funding':
+        return this.refreshFunding(call.remittanceId, time);
+      case 'bind-phone':
+        return this.bindPhone(call.sender, call.phoneHash, call.expiresAt, call.signer, time);
+      case 'register-passkey':
+        return this.registerPasskey(call.sender, call.remittanceId, call.publicKey, call.rpIdHash);
+      case 'create-schedule':
+        return this.createSchedule(call.sender, call.params, time, transfers);
+      case 'trigger-schedule':
+        return this.triggerSchedule(call.scheduleId, time);
+      case 'fund-schedule':
+        return this.fundSchedule(call.sender, call.scheduleId, call.amount, transfers);
+      case 'withdraw-schedule-deposit':
+        return this.withdrawScheduleDeposit(call.sender, call.scheduleId, call.amount, transfers);
+      case 'cancel-schedule':
+        return this.cancelSchedule(call.sender, call.scheduleId, transfers);
+      case 'pause-contract':
+        this.assertOwner(call.sender);
+        check(!this.paused, 'err-contract-paused');
+        this.paused = true;
+        return true;
+      case 'unpause-contract':
+        this.assertOwner(call.sender);
+        check(this.paused, 'err-invalid-status');
+        this.paused = false;
+        return true;
+      case 'update-platform-fee':
+        this.assertOwner(call.sender);
+        checkAmount(call.newFeeBps, 0n, MAX_PLATFORM_FEE_BPS);
+        this.feeBps = call.newFeeBps;
+        return true;
+      case 'set-token-allowed':
+        this.assertOwner(call.sender);
+        check(call.maxAmount > 0n, 'err-invalid-amount');
+        if (call.allowed) this.allowedTokens.add(call.token);
+        else this.allowedTokens.delete(call.token);
+        this.tokenMaxAmounts.set(call.token, call.maxAmount);
+        return true;
+      case 'set-phone-verifier':
+        this.assertOwner(call.sender);
+        if (call.active) this.phoneVerifiers.add(call.publicKey);
+        else this.phoneVerifiers.delete(call.publicKey);
+        return true;
+      case 'emergency-withdraw':
+        this.assertOwner(call.sender);
+        // Tokens have no upper bound here, so one never allowed can still be recovered
+        if (call.token) check(call.amount >= MIN_AMOUNT, 'err-invalid-amount');
+        else checkAmount(call.amount, MIN_AMOUNT, MAX_AMOUNT);
+        this.transfer(this.contractId, call.recipient, call.amount, call.token ?? null, transfers);
+        return true;
+    }
+  }
+
+  private createRemittance(
+    sender: string,
+    params: CreateRemittanceParams,
+    time: bigint,
+    extra: Partial<
+      Pick<Remittance, 'fiatTarget' | 'phoneHash' | 'claimHash' | 'claimExpiresAt'>
+    > = {}
+  ): bigint {
+    check(!this.paused, 'err-contract-paused');
+    check(params.recipient !== sender, 'err-invalid-recipient');
+    const token = params.token ?? null;
+    if (token !== null) check(this.allowedTokens.has(token), 'err-token-not-allowed');
+    checkAmount(params.targetAmount, MIN_AMOUNT, this.assetMaxAmount(token));
+    check(params.deadline > time, 'err-invalid-deadline');
+    check(params.deadline <= time + MAX_DEADLINE_OFFSET, 'err-invalid-deadline');
+    check(params.description.length > 0, 'err-invalid-description');
+    check(params.description.length <= 500, 'err-invalid-description');
+    check(this.currencyPairs.has(params.currencyPair), 'err-invalid-currency-pair');
+
+    return this.storeRemittance(sender, params, time, extra);
+  }
+
+  private createSplitRemittance(
+    sender: string,
+    params: CreateSplitRemittanceParams,
+    time: bigint
+  ): bigint {
+    const [primary] = params.splits;
+    if (!primary) throw CallFailure.escrow('err-invalid-split');
+    const remittanceId = this.createRemittance(
+      sender,
+      { ...params, recipient: primary.recipient },
+      time
+    );
+
+    // Mirrors validate-splits
+    let total = 0n;
+    params.splits.forEach((split, index) => {
+      check(split.recipient !== sender, 'err-invalid-recipient');
+      check(split.recipient !== this.contractId, 'err-invalid-recipient');
+      check(
+        params.splits.findIndex(other => other.recipient === split.recipient) === index,
+        'err-invalid-split'
+      );
+      check(split.shareBps > 0n && split.shareBps <= BASIS_POINTS, 'err-invalid-split');
+      total += split.shareBps;
+    });
+    check(params.splits.length >= MIN_SPLIT_RECIPIENTS, 'err-invalid-split');
+    check(total === BASIS_POINTS, 'err-invalid-split');
+
+    this.splits.set(
+      remittanceId,
+      params.splits.map(split => ({ ...split }))
+    );
+    return remittanceId;
+  }
+
+  // Mirrors store-remittance
+  private storeRemittance(
+    creator: string,
+    params: CreateRemittanceParams,
+    time: bigint,
+    extra: Partial<Pick<Remittance, 'fiatTarget' | 'phoneHash' | 'claimHash' | 'claimExpiresAt'>>
+  ): bigint {
+    const remittanceId = this.nonce;
+    this.remittances.set(remittanceId, {
+      creator,
+      recipient: params.recipient,
+      targetAmount: params.targetAmount,
+      totalRaised: 0n,
+      deadline: params.deadline,
+      description: params.description,
+      status: 'active',
+      createdAt: time,
+      releasedAt: null,
+      currencyPair: params.currencyPair,
+      token: params.token ?? null,
+      fiatTarget: extra.fiatTarget ?? null,
+      phoneHash: extra.phoneHash ?? null,
+      claimHash: extra.claimHash ?? null,
+      claimExpiresAt: extra.claimExpiresAt ?? null,
+    });
+    this.nonce = remittanceId + 1n;
+    return remittanceId;
+  }
+
+  private createFiatRemittance(
+    sender: string,
+    params: CreateFiatRemittanceParams,
+    time: bigint
+  ): bigint {
+    checkAmount(params.fiatTarget, 1n, MAX_FIAT_TARGET);
+    check(params.currencyPair.startsWith('STX-'), 'err-invalid-currency-pair');
+    const rate = this.requireFreshRate(params.currencyPair, time);
+    return this.createRemittance(
+      sender,
+      { ...params, targetAmount: fiatToMicroStx(params.fiatTarget, rate) },
+      time,
+      { fiatTarget: params.fiatTarget }
+    );
+  }
+
+  private contribute(
+    sender: string,
+    remittanceId: bigint,
+    token: string | null,
+    amount: bigint,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): true {
+    const remittance = this.requireRemittance(remittanceId);
+    checkToken(remittance, token);
+    check(!this.paused, 'err-contract-paused');
+    checkAmount(amount, MIN_AMOUNT, this.assetMaxAmount(remittance.token));
+    check(remittance.status === 'active', 'err-invalid-status');
+    check(remittance.deadline > time, 'err-deadline-passed');
+
+    this.transfer(sender, this.contractId, amount, token, transfers);
+
+    const key = contributionKey(remittanceId, sender);
+    const existing = this.contributions.get(key)?.amount ?? 0n;
+    if (existing === 0n) {
+      this.contributors.set(remittanceId, [...(this.contributors.get(remittanceId) ?? []), sender]);
+    }
+    this.contributions.set(key, { amount: existing + amount, contributedAt: time });
+
+    const totalRaised = remittance.totalRaised + amount;
+    this.remittances.set(remittanceId, {
+      ...remittance,
+      totalRaised,
+      status: this.isTargetReached(remittance, totalRaised, time) ? 'funded' : 'active',
+    });
+    return true;
+  }
+
+  private refreshFunding(remittanceId: bigint, time: bigint): boolean {
+    const remittance = this.requireRemittance(remittanceId);
+    check(!this.paused, 'err-contract-paused');
+    check(remittance.status === 'active', 'err-invalid-status');
+    check(remittance.deadline > time, 'err-deadline-passed');
+    if (remittance.fiatTarget === null) return false;
+
+    const rate = this.requireFreshRate(remittance.currencyPair, time);
+    const reached = fiatValue(remittance.totalRaised, rate) >= remittance.fiatTarget;
+    if (reached) this.remittances.set(remittanceId, { ...remittance, status: 'funded' });
+    return reached;
+  }
+
+  // Mirrors is-target-reached: a fiat target is not reached without a fresh rate
+  private isTargetReached(remittance: Remittance, total: bigint, time: bigint): boolean {
+    if (remittance.fiatTarget === null) return total >= remittance.targetAmount;
+    const rate = this.getFreshRate(remittance.currencyPair, time);
+    return rate !== null && fiatValue(total, rate) >= remittance.fiatTarget;
+  }
+
+  private requireFreshRate(currencyPair: string, time: bigint): bigint {
+    const rate = this.getFreshRate(currencyPair, time);
+    if (rate === null) throw CallFailure.escrow('err-stale-rate');
+    return rate;
+  }
+
+  private withdrawContribution(
+    sender: string,
+    remittanceId: bigint,
+    token: string | null,
+    amount: bigint,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): bigint {
+    const remittance = this.requireRemittance(remittanceId);
+    const key = contributionKey(remittanceId, sender);
+    const contribution = this.contributions.get(key);
+    if (!contribution) throw CallFailure.escrow('err-not-found');
+    checkToken(remittance, token);
+    checkAmount(amount, MIN_AMOUNT, contribution.amount);
+    check(remittance.status === 'active', 'err-invalid-status');
+    check(remittance.deadline > time, 'err-deadline-passed');
+
+    this.transfer(this.contractId, sender, amount, token, transfers);
+
+    const remaining = contribution.amount - amount;
+    if (remaining > 0n) {
+      this.contributions.set(key, { ...contribution, amount: remaining });
+    } else {
+      this.contributions.delete(key);
+      // remove-contributor moves the last contributor into the freed position
+      const list = [...(this.contributors.get(remittanceId) ?? [])];
+      const index = list.indexOf(sender);
+      const last = list.pop();
+      if (last !== undefined && index < list.length) list[index] = last;
+      this.contributors.set(remittanceId, list);
+    }
+    this.remittances.set(remittanceId, {
+      ...remittance,
+      totalRaised: remittance.totalRaised - amount,
+    });
+    return remaining;
+  }
+
+  private releaseFunds(
+    sender: string,
+    remittanceId: bigint,
+    token: string | null,
+    assertion: ModelPasskeyAssertion | null,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): true {
+    const remittance = this.requireRemittance(remittanceId);
+    const recipient = this.resolveRecipient(remittance);
+    checkToken(remittance, token);
+    check(sender === recipient, 'err-unauthorized');
+    check(remittance.status === 'funded', 'err-invalid-status');
+    this.checkPasskey(remittanceId, recipient, 'release', assertion);
+
+    return this.payOut(remittanceId, remittance, token, recipient, time, transfers);
+  }
+
+  private claimRemittance(
+    remittanceId: bigint,
+    signer: string | null,
+    recipient: string,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): true {
+    const remittance = this.requireRemittance(remittanceId);
+    if (signer === null) throw CallFailure.escrow('err-invalid-secret');
+    check(remittance.claimHash === hashClaimPublicKey(signer), 'err-invalid-secret');
+    check(remittance.status === 'funded', 'err-invalid-status');
+    check(!isClaimExpired(remittance, time), 'err-claim-expired');
+    check(recipient !== this.contractId, 'err-invalid-recipient');
+
+    return this.payOut(remittanceId, remittance, null, recipient, time, transfers);
+  }
+
+  // Mirrors pay-out
+  private payOut(
+    remittanceId: bigint,
+    remittance: Remittance,
+    token: string | null,
+    recipient: string,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): true {
+    const { platformFee, netAmount } = quoteFee(remittance.totalRaised, this.feeBps);
+    const splits = this.splits.get(remittanceId);
+    if (splits) {
+      // Mirrors pay-split; a share that rounds to nothing is not transferred
+      for (const payout of splitPayouts(netAmount, splits)) {
+        if (payout.amount > 0n) {
+          this.transfer(this.contractId, payout.recipient, payout.amount, token, transfers);
+        }
+      }
+    } else {
+      this.transfer(this.contractId, recipient, netAmount, token, transfers);
+    }
+    this.transfer(this.contractId, this.owner, platformFee, token, transfers);
+
+    this.remittances.set(remittanceId, {
+      ...remittance,
+      recipient,
+      status: 'completed',
+      releasedAt: time,
+    });
+    return true;
+  }
+
+  // Mirrors resolve-recipient
+  private resolveRecipient(remittance: Remittance): string {
+    if (remittance.phoneHash === null) return remittance.recipient;
+    const binding = this.phoneBindings.get(remittance.phoneHash);
+    if (!binding) throw CallFailure.escrow('err-phone-not-bound');
+    return binding.recipient;
+  }
+
+  private bindPhone(
+    sender: string,
+    phoneHash: string,
+    expiresAt: bigint,
+    signer: string | null,
+    time: bigint
+  ): true {
+    if (signer === null) throw CallFailure.escrow('err-invalid-attestation');
+    check(this.phoneVerifiers.has(signer), 'err-invalid-attestation');
+    check(time < expiresAt, 'err-attestation-expired');
+    check(!this.phoneBindings.has(phoneHash), 'err-phone-already-bound');
+
+    this.phoneBindings.set(phoneHash, { recipient: sender, verifier: signer, boundAt: time });
+    return true;
+  }
+
+  private registerPasskey(
+    sender: string,
+    remittanceId: bigint,
+    publicKey: string,
+    rpIdHash: string
+  ): true {
+    const remittance = this.requireRemittance(remittanceId);
+    // An unbound phone remittance has no recipient yet, which only fails the creator check
+    const recipient =
+      remittance.phoneHash === null
+        ? remittance.recipient
+        : this.phoneBindings.get(remittance.phoneHash)?.recipient;
+    check(sender === remittance.creator || sender === recipient, 'err-unauthorized');
+    check(remittance.status === 'active' || remittance.status === 'funded', 'err-invalid-status');
+    const key = contributionKey(remittanceId, sender);
+    check(!this.passkeys.has(key), 'err-passkey-already-registered');
+
+    this.passkeys.set(key, { publicKey, rpIdHash, nonce: 0n });
+    return true;
+  }
+
+  // Mirrors check-passkey
+  private checkPasskey(
+    remittanceId: bigint,
+    owner: string,
+    action: PasskeyAction,
+    assertion: ModelPasskeyAssertion | null
+  ) {
+    const key = contributionKey(remittanceId, owner);
+    const passkey = this.passkeys.get(key);
+    if (!passkey) {
+      check(assertion === null, 'err-passkey-not-registered');
+      return;
+    }
+    if (assertion === null) throw CallFailure.escrow('err-passkey-required');
+    const challenge = passkeyChallenge({
+      escrowContract: this.contractId,
+      chainId: this.chainId,
+      remittanceId,
+      action,
+      nonce: passkey.nonce,
+    });
+    const required = FLAG_USER_PRESENT | FLAG_USER_VERIFIED;
+    check(assertion.challenge === challenge, 'err-invalid-passkey-assertion');
+    check(assertion.rpIdHash === passkey.rpIdHash, 'err-invalid-passkey-assertion');
+    check((assertion.flags & required) === required, 'err-invalid-passkey-assertion');
+    check(assertion.signer === passkey.publicKey, 'err-invalid-passkey-assertion');
+
+    this.passkeys.set(key, { ...passkey, nonce: passkey.nonce + 1n });
+  }
+
+  private cancelRemittance(
+    sender: string,
+    remittanceId: bigint,
+    token: string | null,
+    assertion: ModelPasskeyAssertion | null,
+    transfers: StxTransfer[]
+  ): true {
+    const remittance = this.requireRemittance(remittanceId);
+    checkToken(remittance, token);
+    check(sender === remittance.creator, 'err-unauthorized');
+    check(
+      remittance.status === 'active' ||
+        remittance.status === 'funded' ||
+        remittance.status === 'expired',
+      'err-invalid-status'
+    );
+    this.checkPasskey(remittanceId, sender, 'cancel', assertion);
+
+    this.remittances.set(remittanceId, { ...remittance, status: 'cancelled' });
+    this.refundPage(remittanceId, token, 0n, transfers);
+    return true;
+  }
+
+  private processRefunds(
+    remittanceId: bigint,
+    token: string | null,
+    transfers: StxTransfer[]
+  ): bigint {
+    const remittance = this.requireRemittance(remittanceId);
+    const nextIndex = this.getRefundCursor(remittanceId);
+    checkToken(remittance, token);
+    check(remittance.status === 'cancelled', 'err-invalid-status');
+    check(
+      nextIndex < BigInt(this.contributors.get(remittanceId)?.length ?? 0),
+      'err-no-pending-refunds'
+    );
+    return this.refundPage(remittanceId, token, nextIndex, transfers);
+  }
+
+  // Mirrors refund-page; returns the number of contributors still waiting
+  private refundPage(
+    remittanceId: bigint,
+    token: string | null,
+    start: bigint,
+    transfers: StxTransfer[]
+  ): bigint {
+    const contributors = this.contributors.get(remittanceId) ?? [];
+    const count = BigInt(contributors.length);
+    const end = start + REFUND_PAGE_SIZE < count ? start + REFUND_PAGE_SIZE : count;
+
+    // refund-contributor unwraps every transfer, so a failed refund aborts the transaction
+    let refunded = 0n;
+    for (const contributor of contributors.slice(Number(start), Number(end))) {
+      const key = contributionKey(remittanceId, contributor);
+      const contribution = this.contributions.get(key);
+      if (!contribution) throw CallFailure.runtime();
+      if (contribution.amount > 0n) {
+        try {
+          this.transfer(this.contractId, contributor, contribution.amount, token, transfers);
+        } catch {
+          throw CallFailure.runtime();
+        }
+        this.contributions.set(key, { ...contribution, amount: 0n });
+        refunded += contribution.amount;
+      }
+    }
+
+    const remittance = this.requireRemittance(remittanceId);
+    this.refundCursors.set(remittanceId, end);
+    this.remittances.set(remittanceId, {
+      ...remittance,
+      totalRaised: remittance.totalRaised - refunded,
+    });
+    return count - end;
+  }
+
+  private claimRefund(
+    sender: string,
+    remittanceId: bigint,
+    token: string | null,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): bigint {
+    const remittance = this.requireRemittance(remittanceId);
+    const key = contributionKey(remittanceId, sender);
+    const contribution = this.contributions.get(key);
+    if (!contribution) throw CallFailure.escrow('err-not-found');
+    checkToken(remittance, token);
+    check(
+      remittance.status === 'active' ||
+        remittance.status === 'expired' ||
+        (remittance.status === 'funded' && isClaimExpired(remittance, time)),
+      'err-invalid-status'
+    );
+    check(remittance.deadline <= time, 'err-deadline-not-passed');
+    check(contribution.amount > 0n, 'err-already-refunded');
+
+    this.transfer(this.contractId, sender, contribution.amount, token, transfers);
+
+    this.contributions.set(key, { ...contribution, amount: 0n });
+    this.remittances.set(remittanceId, {
+      ...remittance,
+      totalRaised: remittance.totalRaised - contribution.amount,
+      status: 'expired',
+    });
+    return contribution.amount;
+  }
+
+  private createSchedule(
+    sender: string,
+    params: CreateScheduleParams,
+    time: bigint,
+    transfers: StxTransfer[]
+  ): bigint {
+    const deposit = params.deposit ?? 0n;
+    check(!this.paused, 'err-contract-paused');
+    check(params.recipient !== sender, 'err-invalid-recipient');
+    checkAmount(params.amount, MIN_AMOUNT, MAX_AMOUNT);
+    check(params.interval > 0n && params.interval <= MAX_DEADLINE_OFFSET, 'err-invalid-interval');
+    check(params.startAt >= time, 'err-invalid-deadline');
+    check(params.startAt <= time + MAX_DEADLINE_OFFSET, 'err-invalid-deadline');
+    check(params.endAt > params.startAt, 'err-invalid-deadline');
+    check(params.endAt <= params.startAt + MAX_SCHEDULE_DURATION, 'err-invalid-deadline');
+    check(params.description.length > 0, 'err-invalid-description');
+    check(params.description.length <= 500, 'err-invalid-description');
+    check(this.currencyPairs.has(params.currencyPair), 'err-invalid-currency-pair');
+    checkAmount(deposit, 0n, MAX_AMOUNT);
+
+    if (deposit > 0n) this.transfer(sender, this.contractId, deposit, null, transfers);
+
+    const scheduleId = this.scheduleNonce;
+    this.schedules.set(scheduleId, {
+      creator: sender,
+      recipient: params.recipient,
+      amount: params.amount,
+      interval: params.interval,
+      startAt: params.startAt,
+      endAt: params.endAt,
+      description: params.description,
+      currencyPair: params.currencyPair,
+      nextPeriod: 0n,
+      deposit,
+      status: 'active',
+      createdAt: time,
+    });
+    this.scheduleNonce = scheduleId + 1n;
+    return scheduleId;
+  }
+
+  private triggerSchedule(scheduleId: bigint, time: bigint): bigint {
+    const schedule = this.requireSchedule(scheduleId);
+    check(!this.paused, 'err-contract-paused');
+    check(schedule.status === 'active', 'err-invalid-status');
+    check(time >= schedule.startAt, 'err-schedule-not-due');
+    const { period, startsAt, endsAt } = schedulePeriod(
+      schedule,
+      (time - schedule.startAt) / schedule.interval
+    );
+    check(startsAt < schedule.endAt, 'err-schedule-ended');
+    check(period >= schedule.nextPeriod, 'err-schedule-not-due');
+    check(this.currencyPairs.has(schedule.currencyPair), 'err-invalid-currency-pair');
+
+    const remittanceId = this.storeRemittance(
+      schedule.creator,
+      { ...schedule, targetAmount: schedule.amount, deadline: endsAt },
+      time,
+      {}
+    );
+    // Mirrors fund-from-deposit: the escrow already holds the deposit
+    const prefunded = schedule.deposit >= schedule.amount;
+    if (prefunded) {
+      this.contributors.set(remittanceId, [schedule.creator]);
+      this.contributions.set(contributionKey(remittanceId, schedule.creator), {
+        amount: schedule.amount,
+        contributedAt: time,
+      });
+      const remittance = this.requireRemittance(remittanceId);
+      this.remittances.set(remittanceId, {
+        ...remittance,
+        totalRaised: schedule.amount,
+        status: 'funded',
+      });
+    }
+    this.schedules.set(scheduleId, {
+      ...schedule,
+      nextPeriod: period + 1n,
+      deposit: prefunded ? schedule.deposit - schedule.amount : schedule.deposit,
+    });
+    return remittanceId;
+  }
+
+  private fundSchedule(
+    sender: string,
+    scheduleId: bigint,
+    amount: bigint,
+    transfers: StxTransfer[]
+  ): bigint {
+    const schedule = this.requireSchedule(scheduleId);
+    const deposit = schedule.deposit + amount;
+    check(!this.paused, 'err-contract-paused');
+    check(sender === schedule.creator, 'err-unauthorized');
+    check(schedule.status === 'active', 'err-invalid-status');
+    checkAmount(amount, MIN_AMOUNT, MAX_AMOUNT);
+    checkAmount(deposit, MIN_AMOUNT, MAX_AMOUNT);
+
+    this.transfer(sender, this.contractId, amount, null, transfers);
+    this.schedules.set(scheduleId, { ...schedule, deposit });
+    return deposit;
+  }
+
+  private withdrawScheduleDeposit(
+    sender: string,
+    scheduleId: bigint,
+    amount: bigint,
+    transfers: StxTransfer[]
+  ): bigint {
+    const schedule = this.requireSchedule(scheduleId);
+    check(sender === schedule.creator, 'err-unauthorized');
+    checkAmount(amount, MIN_AMOUNT, schedule.deposit);
+
+    this.transfer(this.contractId, sender, amount, null, transfers);
+    const deposit = schedule.deposit - amount;
+    this.schedules.set(scheduleId, { ...schedule, deposit });
+    return deposit;
+  }
+
+  private cancelSchedule(sender: string, scheduleId: bigint, transfers: StxTransfer[]): bigint {
+    const schedule = this.requireSchedule(scheduleId);
+    check(sender === schedule.creator, 'err-unauthorized');
+    check(schedule.status === 'active', 'err-invalid-status');
+
+    if (schedule.deposit > 0n) {
+      this.transfer(this.contractId, sender, schedule.deposit, null, transfers);
+    }
+    this.schedules.set(scheduleId, { ...schedule, deposit: 0n, status: 'cancelled' });
+    return schedule.deposit;
+  }
+
+  private requireSchedule(scheduleId: bigint): Schedule {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) throw CallFailure.escrow('err-not-found');
+    return schedule;
+  }
+
+  private requireRemittance(remittanceId: bigint): Remittance {
+    const remittance = this.remittances.get(remittanceId);
+    if (!remittance) throw CallFailure.escrow('err-not-found');
+    return remittance;
+  }
+
+  private assetMaxAmount(token: string | null): bigint {
+    return token === null ? MAX_AMOUNT : this.getTokenMaxAmount(token);
+  }
+
+  private assertOwner(sender: string) {
+    check(sender === this.owner, 'err-owner-only');
+  }
+
+  // Mirrors stx-transfer? and ft-transfer?, which share their error codes
+  private transfer(
+    sender: string,
+    recipient: string,
+    amount: bigint,
+    token: string | null,
+    transfers: StxTransfer[]
+  ) {
+    if (amount <= 0n) throw CallFailure.stx(STX_ERR_NON_POSITIVE_AMOUNT);
+    if (sender === recipient) throw CallFailure.stx(STX_ERR_SAME_PRINCIPAL);
+
+    const balance =
+      sender === this.contractId
+        ? this.getContractBalance(token)
+        : this.balances.get(balanceKey(sender, token));
+    if (balance !== undefined && balance < amount) {
+      throw CallFailure.stx(STX_ERR_INSUFFICIENT_BALANCE);
+    }
+
+    this.adjustBalance(sender, token, -amount);
+    this.adjustBalance(recipient, token, amount);
+    transfers.push({ sender, recipient, amount, token });
+  }
+
+  private adjustBalance(principal: string, token: string | null, delta: bigint) {
+    if (principal === this.contractId) {
+      this.contractBalances.set(token, this.getContractBalance(token) + delta);
+      return;
+    }
+    const key = balanceKey(principal, token);
+    const balance = this.balances.get(key);
+    if (balance !== undefined) this.balances.set(key, balance + delta);
+  }
+
+  private commit(staged: EscrowModel) {
+    this.nonce = staged.nonce;
+    this.scheduleNonce = staged.scheduleNonce;
+    this.paused = staged.paused;
+    this.feeBps = staged.feeBps;
+    replace(this.contractBalances, staged.contractBalances);
+    replace(this.balances, staged.balances);
+    this.allowedTokens.clear();
+    staged.allowedTokens.forEach(token => this.allowedTokens.add(token));
+    replace(this.tokenMaxAmounts, staged.tokenMaxAmounts);
+    this.phoneVerifiers.clear();
+    staged.phoneVerifiers.forEach(publicKey => this.phoneVerifiers.add(publicKey));
+    replace(this.phoneBindings, staged.phoneBindings);
+    replace(this.passkeys, staged.passkeys);
+    replace(this.remittances, staged.remittances);
+    replace(this.splits, staged.splits);
+    replace(this.contributions, staged.contributions);
+    replace(this.contributors, staged.contributors);
+    replace(this.refundCursors, staged.refundCursors);
+    replace(this.schedules, staged.schedules);
+  }
+}
+
+/**
+ * Thrown inside a transition to abort it, like an `err` response or a runtime panic
+ */
+class CallFailure extends Error {
+  constructor(
+    readonly error: StackSendError,
+    readonly code: number | null
+  ) {
+    super(error.message);
+  }
+
+  static escrow(name: EscrowErrorName): CallFailure {
+    const { code } = ESCROW_ERRORS[name];
+    return new CallFailure(errorFromCode(code, 'escrow'), code);
+  }
+
+  static stx(code: number): CallFailure {
+    return new CallFailure(errorFromCode(code, 'escrow'), code);
+  }
+
+  static runtime(): CallFailure {
+    return new CallFailure(new TransactionAbortError('runtime'), null);
+  }
+}
+
+function check(condition: boolean, name: EscrowErrorName) {
+  if (!condition) throw CallFailure.escrow(name);
+}
+
+// Mirrors check-token
+// Mirrors is-claim-expired
+function isClaimExpired(remittance: Remittance, time: bigint): boolean {
+  return remittance.claimExpiresAt !== null && remittance.claimExpiresAt <= time;
+}
+
+function checkToken(remittance: Remittance, token: string | null) {
+  check(remittance.token === token, 'err-token-mismatch');
+}
+
+// Mirrors validate-amount
+function checkAmount(amount: bigint, min: bigint, max: bigint) {
+  check(amount >= min && amount <= max, 'err-invalid-amount');
+}
+
+function contributionKey(remittanceId: bigint, contributor: string): string {
+  return `${remittanceId}|${contributor}`;
+}
+
+// STX balances are keyed by principal alone, so `balances` option keys map directly
+function balanceKey(holder: string, token: string | null): string {
+  return token === null ? holder : `${token}|${holder}`;
+}
+
+function replace<K, V>(target: Map<K, V>, source: Map<K, V>) {
+  target.clear();
+  source.forEach((value, key) => target.set(key, value));
+}
+
+function bigintReplacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
@@ -0,0 +1,582 @@
+/**
+ * Typed print events emitted by stacksend-escrow and stacksend-oracle
+ */
+
+import { ClarityType, hexToCV, type ClarityValue } from '@stacks/transactions';
+import {
+  decodeAscii,
+  decodeBool,
+  decodeBuffer,
+  decodeList,
+  decodeOptional,
+  decodePrincipal,
+  decodeTuple,
+  decodeUInt,
+  field,
+} from './clarity.ts';
+import type { SplitRecipient } from './types.ts';
+
+// Mirrors event-version in stacksend-escrow.clar
+export const ESCROW_EVENT_VERSION = 1n;
+// Mirrors event-version in stacksend-oracle.clar
+export const ORACLE_EVENT_VERSION = 1n;
+
+interface EventBase<N extends string> {
+  event: N;
+  version: bigint;
+}
+
+export interface RemittanceCreatedEvent extends EventBase<'remittance-created'> {
+  remittanceId: bigint;
+  creator: string;
+  recipient: string;
+  targetAmount: bigint;
+  deadline: bigint;
+  description: string;
+  currencyPair: string;
+  /** SIP-010 contract the remittance is denominated in, null for STX */
+  token: string | null;
+  /** Target in fiat units of the currency pair, null when the target is fixed in the asset */
+  fiatTarget: bigint | null;
+  /** Hex-encoded phone hash of a phone remittance, whose `recipient` is the escrow until release */
+  phoneHash: string | null;
+  /** Hex-encoded claim hash of a claimable remittance, whose `recipient` is the escrow until claimed */
+  claimHash: string | null;
+  claimExpiresAt: bigint | null;
+  createdAt: bigint;
+}
+
+/** Emitted after remittance-created for a split remittance */
+export interface RemittanceSplitEvent extends EventBase<'remittance-split'> {
+  remittanceId: bigint;
+  /** Recipients in list order; the first one releases */
+  recipients: SplitRecipient[];
+}
+
+export interface ContributionReceivedEvent extends EventBase<'contribution-received'> {
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  /** Total contributed by this contributor to the remittance, including `amount` */
+  contributorTotal: bigint;
+  totalRaised: bigint;
+  contributedAt: bigint;
+}
+
+export interface ContributionWithdrawnEvent extends EventBase<'contribution-withdrawn'> {
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  /** Contribution left after the withdrawal; 0 when fully withdrawn */
+  contributorTotal: bigint;
+  totalRaised: bigint;
+}
+
+/** Emitted after the contribution that reaches the target */
+export interface RemittanceFundedEvent extends EventBase<'remittance-funded'> {
+  remittanceId: bigint;
+  targetAmount: bigint;
+  totalRaised: bigint;
+}
+
+export interface FundsReleasedEvent extends EventBase<'funds-released'> {
+  remittanceId: bigint;
+  recipient: string;
+  totalRaised: bigint;
+  netAmount: bigint;
+  platformFee: bigint;
+  releasedAt: bigint;
+}
+
+/** One recipient's share of a split remittance, printed before funds-released */
+export interface SplitPaidEvent extends EventBase<'split-paid'> {
+  remittanceId: bigint;
+  recipient: string;
+  shareBps: bigint;
+  /** Share of the net amount, including the rounding dust for the first recipient; 0 is not sent */
+  amount: bigint;
+}
+
+export interface RemittanceCancelledEvent extends EventBase<'remittance-cancelled'> {
+  remittanceId: bigint;
+  creator: string;
+  /** Total owed to contributors; paid out over one or more refunds-processed pages */
+  refundedAmount: bigint;
+  /** Number of contributors, including any that already claimed */
+  refundCount: bigint;
+}
+
+/** Emitted for each page of refunds paid after a cancel, including the first one */
+export interface RefundsProcessedEvent extends EventBase<'refunds-processed'> {
+  remittanceId: bigint;
+  refundedAmount: bigint;
+  refundCount: bigint;
+  /** Position of the next contributor to refund */
+  nextIndex: bigint;
+  pendingCount: bigint;
+}
+
+export interface RefundClaimedEvent extends EventBase<'refund-claimed'> {
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  /** Total still held for the remittance after the refund */
+  totalRaised: bigint;
+}
+
+export interface PhoneBoundEvent extends EventBase<'phone-bound'> {
+  phoneHash: string;
+  recipient: string;
+  /** Hex-encoded public key of the verifier that signed the attestation */
+  verifier: string;
+  boundAt: bigint;
+}
+
+export interface PasskeyRegisteredEvent extends EventBase<'passkey-registered'> {
+  remittanceId: bigint;
+  /** Creator or recipient whose releases or cancellations now need the passkey */
+  owner: string;
+  publicKey: string;
+  rpIdHash: string;
+}
+
+export interface PasskeyVerifiedEvent extends EventBase<'passkey-verified'> {
+  remittanceId: bigint;
+  owner: string;
+  action: string;
+  /** Nonce the assertion signed; the next assertion must sign `nonce + 1` */
+  nonce: bigint;
+}
+
+export interface ScheduleCreatedEvent extends EventBase<'schedule-created'> {
+  scheduleId: bigint;
+  creator: string;
+  recipient: string;
+  amount: bigint;
+  interval: bigint;
+  startAt: bigint;
+  endAt: bigint;
+  description: string;
+  currencyPair: string;
+  deposit: bigint;
+  createdAt: bigint;
+}
+
+export interface ScheduleTriggeredEvent extends EventBase<'schedule-triggered'> {
+  scheduleId: bigint;
+  period: bigint;
+  remittanceId: bigint;
+  /** Whether the remittance was funded from the deposit */
+  prefunded: boolean;
+  /** Periods before `period` that were skipped because they were never triggered */
+  missed: bigint;
+  /** Deposit left after funding the remittance */
+  deposit: bigint;
+}
+
+export interface ScheduleFundedEvent extends EventBase<'schedule-funded'> {
+  scheduleId: bigint;
+  amount: bigint;
+  deposit: bigint;
+}
+
+export interface ScheduleDepositWithdrawnEvent extends EventBase<'schedule-deposit-withdrawn'> {
+  scheduleId: bigint;
+  amount: bigint;
+  deposit: bigint;
+}
+
+export interface ScheduleCancelledEvent extends EventBase<'schedule-cancelled'> {
+  scheduleId: bigint;
+  /** Deposit returned to the creator */
+  refunded: bigint;
+}
+
+export interface ContractPausedEvent extends EventBase<'contract-paused'> {
+  owner: string;
+}
+
+export interface ContractUnpausedEvent extends EventBase<'contract-unpaused'> {
+  owner: string;
+}
+
+export interface PlatformFeeUpdatedEvent extends EventBase<'platform-fee-updated'> {
+  oldFeeBps: bigint;
+  newFeeBps: bigint;
+}
+
+export interface TokenAllowanceUpdatedEvent extends EventBase<'token-allowance-updated'> {
+  token: string;
+  allowed: boolean;
+  maxAmount: bigint;
+}
+
+export interface PhoneVerifierUpdatedEvent extends EventBase<'phone-verifier-updated'> {
+  publicKey: string;
+  active: boolean;
+}
+
+export interface EmergencyWithdrawalEvent extends EventBase<'emergency-withdrawal'> {
+  amount: bigint;
+  recipient: string;
+  /** SIP-010 contract withdrawn from, null for STX */
+  token: string | null;
+}
+
+export type EscrowEvent =
+  | RemittanceCreatedEvent
+  | RemittanceSplitEvent
+  | ContributionReceivedEvent
+  | ContributionWithdrawnEvent
+  | RemittanceFundedEvent
+  | FundsReleasedEvent
+  | SplitPaidEvent
+  | RemittanceCancelledEvent
+  | RefundsProcessedEvent
+  | RefundClaimedEvent
+  | PhoneBoundEvent
+  | PasskeyRegisteredEvent
+  | PasskeyVerifiedEvent
+  | ScheduleCreatedEvent
+  | ScheduleTriggeredEvent
+  | ScheduleFundedEvent
+  | ScheduleDepositWithdrawnEvent
+  | ScheduleCancelledEvent
+  | ContractPausedEvent
+  | ContractUnpausedEvent
+  | PlatformFeeUpdatedEvent
+  | TokenAllowanceUpdatedEvent
+  | PhoneVerifierUpdatedEvent
+  | EmergencyWithdrawalEvent;
+
+export type EscrowEventName = EscrowEvent['event'];
+
+type EventOf<N extends EscrowEventName> = Extract<EscrowEvent, { event: N }>;
+type Tuple = Record<string, ClarityValue>;
+
+const DECODERS: { [N in EscrowEventName]: (tuple: Tuple) => Omit<EventOf<N>, keyof EventBase<N>> } =
+  {
+    'remittance-created': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      creator: decodePrincipal(field(tuple, 'creator')),
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      targetAmount: decodeUInt(field(tuple, 'target-amount')),
+      deadline: decodeUInt(field(tuple, 'deadline')),
+      description: decodeAscii(field(tuple, 'description')),
+      currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+      token: decodeOptional(field(tuple, 'token'), decodePrincipal),
+      fiatTarget: decodeOptional(field(tuple, 'fiat-target'), decodeUInt),
+      phoneHash: decodeOptional(field(tuple, 'phone-hash'), decodeBuffer),
+      claimHash: decodeOptional(field(tuple, 'claim-hash'), decodeBuffer),
+      claimExpiresAt: decodeOptional(field(tuple, 'claim-expires-at'), decodeUInt),
+      createdAt: decodeUInt(field(tuple, 'created-at')),
+    }),
+    'remittance-split': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      recipients: decodeList(field(tuple, 'recipients'), value => {
+        const split = decodeTuple(value);
+        return {
+          recipient: decodePrincipal(field(split, 'recipient')),
+          shareBps: decodeUInt(field(split, 'share-bps')),
+        };
+      }),
+    }),
+    'contribution-received': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      contributor: decodePrincipal(field(tuple, 'contributor')),
+      amount: decodeUInt(field(tuple, 'amount')),
+      contributorTotal: decodeUInt(field(tuple, 'contributor-total')),
+      totalRaised: decodeUInt(field(tuple, 'total-raised')),
+      contributedAt: decodeUInt(field(tuple, 'contributed-at')),
+    }),
+    'contribution-withdrawn': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      contributor: decodePrincipal(field(tuple, 'contributor')),
+      amount: decodeUInt(field(tuple, 'amount')),
+      contributorTotal: decodeUInt(field(tuple, 'contributor-total')),
+      totalRaised: decodeUInt(field(tuple, 'total-raised')),
+    }),
+    'remittance-funded': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      targetAmount: decodeUInt(field(tuple, 'target-amount')),
+      totalRaised: decodeUInt(field(tuple, 'total-raised')),
+    }),
+    'funds-released': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      totalRaised: decodeUInt(field(tuple, 'total-raised')),
+      netAmount: decodeUInt(field(tuple, 'net-amount')),
+      platformFee: decodeUInt(field(tuple, 'platform-fee')),
+      releasedAt: decodeUInt(field(tuple, 'released-at')),
+    }),
+    'split-paid': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      shareBps: decodeUInt(field(tuple, 'share-bps')),
+      amount: decodeUInt(field(tuple, 'amount')),
+    }),
+    'remittance-cancelled': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      creator: decodePrincipal(field(tuple, 'creator')),
+      refundedAmount: decodeUInt(field(tuple, 'refunded-amount')),
+      refundCount: decodeUInt(field(tuple, 'refund-count')),
+    }),
+    'refunds-processed': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      refundedAmount: decodeUInt(field(tuple, 'refunded-amount')),
+      refundCount: decodeUInt(field(tuple, 'refund-count')),
+      nextIndex: decodeUInt(field(tuple, 'next-index')),
+      pendingCount: decodeUInt(field(tuple, 'pending-count')),
+    }),
+    'refund-claimed': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      contributor: decodePrincipal(field(tuple, 'contributor')),
+      amount: decodeUInt(field(tuple, 'amount')),
+      totalRaised: decodeUInt(field(tuple, 'total-raised')),
+    }),
+    'phone-bound': tuple => ({
+      phoneHash: decodeBuffer(field(tuple, 'phone-hash')),
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      verifier: decodeBuffer(field(tuple, 'verifier')),
+      boundAt: decodeUInt(field(tuple, 'bound-at')),
+    }),
+    'passkey-registered': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      owner: decodePrincipal(field(tuple, 'owner')),
+      publicKey: decodeBuffer(field(tuple, 'public-key')),
+      rpIdHash: decodeBuffer(field(tuple, 'rp-id-hash')),
+    }),
+    'passkey-verified': tuple => ({
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      owner: decodePrincipal(field(tuple, 'owner')),
+      action: decodeAscii(field(tuple, 'action')),
+      nonce: decodeUInt(field(tuple, 'nonce')),
+    }),
+    'schedule-created': tuple => ({
+      scheduleId: decodeUInt(field(tuple, 'schedule-id')),
+      creator: decodePrincipal(field(tuple, 'creator')),
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      amount: decodeUInt(field(tuple, 'amount')),
+      interval: decodeUInt(field(tuple, 'interval')),
+      startAt: decodeUInt(field(tuple, 'start-at')),
+      endAt: decodeUInt(field(tuple, 'end-at')),
+      description: decodeAscii(field(tuple, 'description')),
+      currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+      deposit: decodeUInt(field(tuple, 'deposit')),
+      createdAt: decodeUInt(field(tuple, 'created-at')),
+    }),
+    'schedule-triggered': tuple => ({
+      scheduleId: decodeUInt(field(tuple, 'schedule-id')),
+      period: decodeUInt(field(tuple, 'period')),
+      remittanceId: decodeUInt(field(tuple, 'remittance-id')),
+      prefunded: decodeBool(field(tuple, 'prefunded')),
+      missed: decodeUInt(field(tuple, 'missed')),
+      deposit: decodeUInt(field(tuple, 'deposit')),
+    }),
+    'schedule-funded': tuple => ({
+      scheduleId: decodeUInt(field(tuple, 'schedule-id')),
+      amount: decodeUInt(field(tuple, 'amount')),
+      deposit: decodeUInt(field(tuple, 'deposit')),
+    }),
+    'schedule-deposit-withdrawn': tuple => ({
+      scheduleId: decodeUInt(field(tuple, 'schedule-id')),
+      amount: decodeUInt(field(tuple, 'amount')),
+      deposit: decodeUInt(field(tuple, 'deposit')),
+    }),
+    'schedule-cancelled': tuple => ({
+      scheduleId: decodeUInt(field(tuple, 'schedule-id')),
+      refunded: decodeUInt(field(tuple, 'refunded')),
+    }),
+    'contract-paused': tuple => ({ owner: decodePrincipal(field(tuple, 'owner')) }),
+    'contract-unpaused': tuple => ({ owner: decodePrincipal(field(tuple, 'owner')) }),
+    'platform-fee-updated': tuple => ({
+      oldFeeBps: decodeUInt(field(tuple, 'old-fee-bps')),
+      newFeeBps: decodeUInt(field(tuple, 'new-fee-bps')),
+    }),
+    'token-allowance-updated': tuple => ({
+      token: decodePrincipal(field(tuple, 'token')),
+      allowed: decodeBool(field(tuple, 'allowed')),
+      maxAmount: decodeUInt(field(tuple, 'max-amount')),
+    }),
+    'phone-verifier-updated': tuple => ({
+      publicKey: decodeBuffer(field(tuple, 'public-key')),
+      active: decodeBool(field(tuple, 'active')),
+    }),
+    'emergency-withdrawal': tuple => ({
+      amount: decodeUInt(field(tuple, 'amount')),
+      recipient: decodePrincipal(field(tuple, 'recipient')),
+      token: decodeOptional(field(tuple, 'token'), decodePrincipal),
+    }),
+  };
+
+export function isEscrowEventName(name: string): name is EscrowEventName {
+  return Object.prototype.hasOwnProperty.call(DECODERS, name);
+}
+
+/**
+ * Narrow a decoded event to one event type
+ * @example if (isEscrowEvent(event, 'funds-released')) notify(event.recipient, event.netAmount);
+ */
+export function isEscrowEvent<N extends EscrowEventName>(
+  event: EscrowEvent,
+  name: N
+): event is EventOf<N> {
+  return event.event === name;
+}
+
+/**
+ * Decode a print event value from stacksend-escrow
+ * @param value Printed Clarity value, or its hex serialization (`raw_value` in node events)
+ * @returns The typed event, or null if the value is not an escrow event tuple
+ * @throws TypeError if the event version is unsupported or a field has the wrong type
+ */
+export function decodeEscrowEvent(value: ClarityValue | string): EscrowEvent | null {
+  const cv = typeof value === 'string' ? hexToCV(value) : value;
+  if (cv.type !== ClarityType.Tuple) return null;
+
+  const tuple = decodeTuple(cv);
+  const name = tuple['event'];
+  if (name?.type !== ClarityType.StringASCII || !isEscrowEventName(name.value)) return null;
+
+  const version = decodeUInt(field(tuple, 'version'));
+  if (version !== ESCROW_EVENT_VERSION) {
+    throw new TypeError(`Unsupported ${name.value} event version ${version}`);
+  }
+  return decodeNamedEvent(name.value, version, tuple);
+}
+
+function decodeNamedEvent<N extends EscrowEventName>(
+  name: N,
+  version: bigint,
+  tuple: Tuple
+): EventOf<N> {
+  return { event: name, version, ...DECODERS[name](tuple) } as EventOf<N>;
+}
+
+// ============================================================================
+// ORACLE EVENTS
+// ============================================================================
+
+/**
+ * A round reached quorum and published its median
+ */
+export interface RatePublishedEvent extends EventBase<'rate-published'> {
+  currencyPair: string;
+  roundId: bigint;
+  /** Published median rate with 8 decimals */
+  rate: bigint;
+  /** Oracle whose submission completed the round */
+  updater: string;
+  submissionCount: bigint;
+  outlierCount: bigint;
+  updatedAt: bigint;
+}
+
+/**
+ * A submission of a published round deviated from the median by more than 5%
+ */
+export interface OutlierSubmissionEvent extends EventBase<'outlier-submission'> {
+  currencyPair: string;
+  roundId: bigint;
+  updater: string;
+  rate: bigint;
+  median: bigint;
+}
+
+export interface QuorumUpdatedEvent extends EventBase<'quorum-updated'> {
+  oldQuorum: bigint;
+  newQuorum: bigint;
+}
+
+export interface CurrencyPairAddedEvent extends EventBase<'currency-pair-added'> {
+  currencyPair: string;
+}
+
+export interface CurrencyPairRemovedEvent extends EventBase<'currency-pair-removed'> {
+  currencyPair: string;
+}
+
+export type OracleEvent =
+  | RatePublishedEvent
+  | OutlierSubmissionEvent
+  | QuorumUpdatedEvent
+  | CurrencyPairAddedEvent
+  | CurrencyPairRemovedEvent;
+
+export type OracleEventName = OracleEvent['event'];
+
+type OracleEventOf<N extends OracleEventName> = Extract<OracleEvent, { event: N }>;
+
+const ORACLE_DECODERS: {
+  [N in OracleEventName]: (tuple: Tuple) => Omit<OracleEventOf<N>, keyof EventBase<N>>;
+} = {
+  'rate-published': tuple => ({
+    currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+    roundId: decodeUInt(field(tuple, 'round-id')),
+    rate: decodeUInt(field(tuple, 'rate')),
+    updater: decodePrincipal(field(tuple, 'updater')),
+    submissionCount: decodeUInt(field(tuple, 'submission-count')),
+    outlierCount: decodeUInt(field(tuple, 'outlier-count')),
+    updatedAt: decodeUInt(field(tuple, 'updated-at')),
+  }),
+  'outlier-submission': tuple => ({
+    currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+    roundId: decodeUInt(field(tuple, 'round-id')),
+    updater: decodePrincipal(field(tuple, 'updater')),
+    rate: decodeUInt(field(tuple, 'rate')),
+    median: decodeUInt(field(tuple, 'median')),
+  }),
+  'quorum-updated': tuple => ({
+    oldQuorum: decodeUInt(field(tuple, 'old-quorum')),
+    newQuorum: decodeUInt(field(tuple, 'new-quorum')),
+  }),
+  'currency-pair-added': tuple => ({
+    currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+  }),
+  'currency-pair-removed': tuple => ({
+    currencyPair: decodeAscii(field(tuple, 'currency-pair')),
+  }),
+};
+
+export function isOracleEventName(name: string): name is OracleEventName {
+  return Object.prototype.hasOwnProperty.call(ORACLE_DECODERS, name);
+}
+
+/**
+ * Narrow a decoded oracle event to one event type
+ */
+export function isOracleEvent<N extends OracleEventName>(
+  event: OracleEvent,
+  name: N
+): event is OracleEventOf<N> {
+  return event.event === name;
+}
+
+/**
+ * Decode a print event value from stacksend-oracle
+ * @param value Printed Clarity value, or its hex serialization (`raw_value` in node events)
+ * @returns The typed event, or null if the value is not an oracle event tuple
+ * @throws TypeError if the event version is unsupported or a field has the wrong type
+ */
+export function decodeOracleEvent(value: ClarityValue | string): OracleEvent | null {
+  const cv = typeof value === 'string' ? hexToCV(value) : value;
+  if (cv.type !== ClarityType.Tuple) return null;
+
+  const tuple = decodeTuple(cv);
+  const name = tuple['event'];
+  if (name?.type !== ClarityType.StringASCII || !isOracleEventName(name.value)) return null;
+
+  const version = decodeUInt(field(tuple, 'version'));
+  if (version !== ORACLE_EVENT_VERSION) {
+    throw new TypeError(`Unsupported ${name.value} event version ${version}`);
+  }
+  return decodeNamedOracleEvent(name.value, version, tuple);
+}
+
+function decodeNamedOracleEvent<N extends OracleEventName>(
+  name: N,
+  version: bigint,
+  tuple: Tuple
+): OracleEventOf<N> {
+  return { event: name, version, ...ORACLE_DECODERS[name](tuple) } as OracleEventOf<N>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Regenerate currency-pairs.ts from the oracle's initial-currency-pairs
+ *
+ * Run with `deno run --allow-read --allow-write scripts/generate-currency-pairs.ts`.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { readInitialPairs, renderCurrencyPairsModule } from './pair-registry.ts';
+
+const oracle = new URL('../contracts/stacksend-oracle.clar', import.meta.url);
+const output = new URL('./currency-pairs.ts', import.meta.url);
+
+writeFileSync(output, renderCurrencyPairsModule(readInitialPairs(readFileSync(oracle, 'utf8'))));
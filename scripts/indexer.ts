@@ -0,0 +1,1319 @@
+/**
+ * SQLite index of stacksend-escrow and stacksend-oracle activity
+ *
+ * Ingests stacks-node event-observer `/new_block` payloads, posted by a node or
+ * read from recorded fixtures. Raw payloads are stored alongside the derived
+ * tables, which can be rebuilt from the first stored block at any time.
+ *
+ * Rows are derived from the versioned events the contracts print and the escrow's
+ * outgoing transfers, so calls made through other contracts are indexed too.
+ */
+
+import { readFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import Database from 'better-sqlite3';
+import {
+  decodeEscrowEvent,
+  decodeOracleEvent,
+  isEscrowEvent,
+  isOracleEvent,
+  type EscrowEvent,
+  type OracleEvent,
+  type RefundsProcessedEvent,
+} from './events.ts';
+import type {
+  Passkey,
+  PhoneBinding,
+  Remittance,
+  RemittanceStatus,
+  Schedule,
+  ScheduleStatus,
+  SplitRecipient,
+} from './types.ts';
+
+// Event-observer payloads
+
+export interface ObserverTransaction {
+  txid: string;
+  tx_index: number;
+  status: string;
+  /** Hex-serialized Clarity result */
+  raw_result: string;
+  /** Hex-serialized transaction */
+  raw_tx: string;
+}
+
+export interface ObserverEvent {
+  txid: string;
+  event_index: number;
+  committed: boolean;
+  type: string;
+  stx_transfer_event?: { sender: string; recipient: string; amount: string };
+  ft_transfer_event?: {
+    asset_identifier: string;
+    sender: string;
+    recipient: string;
+    amount: string;
+  };
+  contract_event?: {
+    contract_identifier: string;
+    topic: string;
+    /** Hex-serialized Clarity value */
+    raw_value: string;
+  };
+}
+
+export interface NewBlockPayload {
+  block_height: number;
+  block_hash: string;
+  index_block_hash: string;
+  parent_index_block_hash: string;
+  burn_block_time: number;
+  /** Stacks block timestamp, sent by nodes since Nakamoto */
+  block_time?: number | null;
+  transactions: ObserverTransaction[];
+  events: ObserverEvent[];
+}
+
+// Indexed rows
+
+export interface IndexedRemittance extends Remittance {
+  remittanceId: bigint;
+  txid: string;
+  blockHeight: number;
+}
+
+export interface IndexedSplitRecipient extends SplitRecipient {
+  /** Share paid by the release, null until the remittance is released */
+  paidAmount: bigint | null;
+}
+
+export interface IndexedContribution {
+  txid: string;
+  blockHeight: number;
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  contributedAt: bigint;
+}
+
+export interface IndexedWithdrawal {
+  txid: string;
+  blockHeight: number;
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  /** Contribution left after the withdrawal */
+  remaining: bigint;
+  withdrawnAt: bigint;
+}
+
+export interface IndexedRelease {
+  remittanceId: bigint;
+  txid: string;
+  blockHeight: number;
+  recipient: string;
+  netAmount: bigint;
+  platformFee: bigint;
+  releasedAt: bigint;
+}
+
+export interface IndexedCancellation {
+  remittanceId: bigint;
+  txid: string;
+  blockHeight: number;
+  creator: string;
+  /** Refunds paid so far, by the cancel and any process-refunds pages after it */
+  refundedAmount: bigint;
+  refundCount: number;
+}
+
+export interface IndexedPhoneBinding extends PhoneBinding {
+  phoneHash: string;
+  txid: string;
+  blockHeight: number;
+}
+
+export interface IndexedPasskey extends Passkey {
+  remittanceId: bigint;
+  owner: string;
+  txid: string;
+  blockHeight: number;
+  registeredAt: bigint;
+}
+
+export interface IndexedSchedule extends Schedule {
+  scheduleId: bigint;
+  txid: string;
+  blockHeight: number;
+}
+
+/** A schedule trigger and the remittance it spawned */
+export interface IndexedScheduleTrigger {
+  txid: string;
+  blockHeight: number;
+  scheduleId: bigint;
+  period: bigint;
+  remittanceId: bigint;
+  prefunded: boolean;
+  /** Periods skipped before `period` because they were never triggered */
+  missed: bigint;
+  triggeredAt: bigint;
+}
+
+export interface IndexedRefundClaim {
+  txid: string;
+  blockHeight: number;
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  claimedAt: bigint;
+}
+
+/** A contributor refunded by a cancel or a process-refunds page */
+export interface IndexedRefund {
+  txid: string;
+  blockHeight: number;
+  remittanceId: bigint;
+  contributor: string;
+  amount: bigint;
+  refundedAt: bigint;
+}
+
+/** A published rate: the median of an oracle round that met quorum */
+export interface IndexedRateUpdate {
+  txid: string;
+  blockHeight: number;
+  currencyPair: string;
+  roundId: bigint;
+  rate: bigint;
+  /** Updater whose submission completed the round */
+  updater: string;
+  updatedAt: bigint;
+}
+
+export interface RemittanceFilter {
+  creator?: string;
+  /** Recipient of the remittance, or of one of the shares of a split remittance */
+  recipient?: string;
+  /** Hex-encoded phone hash phone remittances were sent to */
+  phoneHash?: string;
+  /** Remittances with at least one contribution from this principal */
+  contributor?: string;
+  status?: RemittanceStatus;
+}
+
+export interface IndexerConfig {
+  /** Database file, or ':memory:' */
+  database: string;
+  /** Fully qualified contract principals, e.g. `SP….stacksend-escrow` */
+  escrowContract: string;
+  oracleContract: string;
+}
+
+export type IndexerErrorReason = 'missing-block' | 'unknown-parent';
+
+export class IndexerError extends Error {
+  override readonly name = 'IndexerError';
+
+  constructor(
+    readonly reason: IndexerErrorReason,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// Bump when a derived table changes; a database indexed with another version is rebuilt from its
+// stored blocks when it is opened
+const SCHEMA_VERSION = 3;
+
+// Amounts are uint128 in the contracts, so they are stored as decimal text rather than as SQLite's
+// 64-bit integers
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blocks (
+    block_height INTEGER PRIMARY KEY,
+    index_block_hash TEXT NOT NULL,
+    parent_index_block_hash TEXT NOT NULL,
+    payload TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS remittances (
+    remittance_id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    target_amount TEXT NOT NULL,
+    total_raised TEXT NOT NULL,
+    deadline INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    released_at INTEGER,
+    currency_pair TEXT NOT NULL,
+    token TEXT,
+    fiat_target TEXT,
+    phone_hash TEXT,
+    claim_hash TEXT,
+    claim_expires_at INTEGER,
+    txid TEXT NOT NULL,
+    block_height INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS remittances_creator ON remittances (creator);
+  CREATE INDEX IF NOT EXISTS remittances_recipient ON remittances (recipient);
+  CREATE INDEX IF NOT EXISTS remittances_phone_hash ON remittances (phone_hash);
+  CREATE TABLE IF NOT EXISTS split_recipients (
+    remittance_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    recipient TEXT NOT NULL,
+    share_bps INTEGER NOT NULL,
+    paid_amount TEXT,
+    PRIMARY KEY (remittance_id, position)
+  );
+  CREATE INDEX IF NOT EXISTS split_recipients_recipient ON split_recipients (recipient);
+  CREATE TABLE IF NOT EXISTS contributions (
+    txid TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    remittance_id INTEGER NOT NULL,
+    contributor TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    contributed_at INTEGER NOT NULL,
+    PRIMARY KEY (txid, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS contributions_remittance ON contributions (remittance_id);
+  CREATE INDEX IF NOT EXISTS contributions_contributor ON contributions (contributor);
+  CREATE TABLE IF NOT EXISTS withdrawals (
+    txid TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    remittance_id INTEGER NOT NULL,
+    contributor TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    remaining TEXT NOT NULL,
+    withdrawn_at INTEGER NOT NULL,
+    PRIMARY KEY (txid, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS withdrawals_remittance ON withdrawals (remittance_id);
+  CREATE TABLE IF NOT EXISTS releases (
+    remittance_id INTEGER PRIMARY KEY,
+    txid TEXT NOT NULL,
+    block_height INTEGER NOT NULL,
+    recipient TEXT NOT NULL,
+    net_amount TEXT NOT NULL,
+    platform_fee TEXT NOT NULL,
+    released_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS cancellations (
+    remittance_id INTEGER PRIMARY KEY,
+    txid TEXT NOT NULL,
+    block_height INTEGER NOT NULL,
+    creator TEXT NOT NULL,
+    refunded_amount TEXT NOT NULL,
+    refund_count INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS refund_claims (
+    txid TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    remittance_id INTEGER NOT NULL,
+    contributor TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    claimed_at INTEGER NOT NULL,
+    PRIMARY KEY (txid, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS refund_claims_remittance ON refund_claims (remittance_id);
+  CREATE TABLE IF NOT EXISTS refunds (
+    txid TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    remittance_id INTEGER NOT NULL,
+    contributor TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    refunded_at INTEGER NOT NULL,
+    PRIMARY KEY (txid, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS refunds_remittance ON refunds (remittance_id);
+  CREATE TABLE IF NOT EXISTS phone_bindings (
+    phone_hash TEXT PRIMARY KEY,
+    txid TEXT NOT NULL,
+    block_height INTEGER NOT NULL,
+    recipient TEXT NOT NULL,
+    verifier TEXT NOT NULL,
+    bound_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS passkeys (
+    remittance_id INTEGER NOT NULL,
+    owner TEXT NOT NULL,
+    txid TEXT NOT NULL,
+    block_height INTEGER NOT NULL,
+    public_key TEXT NOT NULL,
+    rp_id_hash TEXT NOT NULL,
+    nonce INTEGER NOT NULL,
+    registered_at INTEGER NOT NULL,
+    PRIMARY KEY (remittance_id, owner)
+  );
+  CREATE TABLE IF NOT EXISTS schedules (
+    schedule_id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    interval INTEGER NOT NULL,
+    start_at INTEGER NOT NULL,
+    end_at INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    currency_pair TEXT NOT NULL,
+    next_period INTEGER NOT NULL,
+    deposit TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    txid TEXT NOT NULL,
+    block_height INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS schedules_creator ON schedules (creator);
+  CREATE TABLE IF NOT EXISTS schedule_triggers (
+    txid TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    schedule_id INTEGER NOT NULL,
+    period INTEGER NOT NULL,
+    remittance_id INTEGER NOT NULL,
+    prefunded INTEGER NOT NULL,
+    missed INTEGER NOT NULL,
+    triggered_at INTEGER NOT NULL,
+    PRIMARY KEY (txid, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS schedule_triggers_schedule ON schedule_triggers (schedule_id);
+  CREATE TABLE IF NOT EXISTS rate_updates (
+    txid TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    block_height INTEGER NOT NULL,
+    currency_pair TEXT NOT NULL,
+    round_id INTEGER NOT NULL,
+    rate INTEGER NOT NULL,
+    updater TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (txid, event_index)
+  );
+  CREATE INDEX IF NOT EXISTS rate_updates_pair ON rate_updates (currency_pair, block_height);
+`;
+
+const DERIVED_TABLES = [
+  'remittances',
+  'split_recipients',
+  'contributions',
+  'withdrawals',
+  'releases',
+  'cancellations',
+  'refund_claims',
+  'refunds',
+  'phone_bindings',
+  'passkeys',
+  'schedules',
+  'schedule_triggers',
+  'rate_updates',
+];
+
+type Row = Record<string, unknown>;
+
+/** Where an event was printed, for the rows it produces */
+interface EventContext {
+  txid: string;
+  blockHeight: number;
+  /** stacks-block-time as seen by the contracts */
+  time: bigint;
+}
+
+interface OracleEventContext extends EventContext {
+  eventIndex: number;
+}
+
+/** An STX or SIP-010 transfer out of the escrow */
+interface EscrowTransfer {
+  eventIndex: number;
+  recipient: string;
+  amount: bigint;
+}
+
+interface EscrowEventContext extends OracleEventContext {
+  /** Transfers out of the escrow since the previous escrow event of the transaction */
+  transfers: EscrowTransfer[];
+  /** Escrow events printed earlier in the transaction */
+  printed: EscrowEvent[];
+}
+
+export class EventIndexer {
+  private readonly db: Database.Database;
+  private readonly escrowContract: string;
+  private readonly oracleContract: string;
+
+  constructor(config: IndexerConfig) {
+    this.db = new Database(config.database);
+    this.db.defaultSafeIntegers(true);
+    this.escrowContract = config.escrowContract;
+    this.oracleContract = config.oracleContract;
+
+    this.db.exec(SCHEMA);
+    if (Number(this.db.pragma('user_version', { simple: true })) !== SCHEMA_VERSION) {
+      for (const table of DERIVED_TABLES) this.db.exec(`DROP TABLE IF EXISTS ${table}`);
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+      this.replay();
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Height of the last ingested block, or null if nothing was ingested
+   */
+  getTip(): number | null {
+    const row = this.db.prepare('SELECT MAX(block_height) AS height FROM blocks').get() as Row;
+    return row['height'] === null ? null : Number(row['height']);
+  }
+
+  /**
+   * Ingest one `/new_block` payload
+   *
+   * A block already stored with the same hash is ignored, so the node can retry
+   * deliveries. A different block at a stored height is a reorg: later blocks are
+   * dropped and the derived tables are replayed. A block whose parent is not the
+   * stored block below it means that block was orphaned too: it is rolled back and
+   * the block is refused until the new fork's block at that height is delivered, so
+   * a deep reorg walks back one block per refusal until the parent matches.
+   * @throws IndexerError if blocks are missing between the tip and this block, or
+   * if its parent is not stored
+   */
+  ingestBlock(payload: NewBlockPayload): void {
+    const height = payload.block_height;
+    const tip = this.getTip();
+    if (tip !== null && height > tip + 1) {
+      throw new IndexerError('missing-block', `Expected block ${tip + 1}, got ${height}`);
+    }
+    if (tip !== null && height <= tip && this.blockHash(height) === payload.index_block_hash) {
+      return;
+    }
+
+    // Without a stored block below it this is the first block, or it replaces the first one
+    const parent = this.blockHash(height - 1);
+    const extendsParent = parent === null || parent === payload.parent_index_block_hash;
+    const forkHeight = extendsParent ? height : height - 1;
+
+    this.db.transaction(() => {
+      const reorg = tip !== null && forkHeight <= tip;
+      if (reorg) this.db.prepare('DELETE FROM blocks WHERE block_height >= ?').run(forkHeight);
+      if (extendsParent) this.storeBlock(payload);
+      if (reorg) this.replay();
+      else this.applyBlock(payload);
+    })();
+
+    if (!extendsParent) {
+      throw new IndexerError(
+        'unknown-parent',
+        `Block ${height} does not extend block ${height - 1}, rolled back to ${height - 2}`
+      );
+    }
+  }
+
+  /**
+   * Ingest a recorded fixture: a JSON array of payloads or one payload per line
+   */
+  ingestFixture(path: string): void {
+    const content = readFileSync(path, 'utf8').trim();
+    const payloads: NewBlockPayload[] = content.startsWith('[')
+      ? JSON.parse(content)
+      : content
+          .split('\n')
+          .filter(Boolean)
+          .map(line => JSON.parse(line));
+    for (const payload of payloads) this.ingestBlock(payload);
+  }
+
+  /**
+   * Rebuild every derived table from the stored blocks, in height order
+   */
+  replay(): void {
+    this.db.transaction(() => {
+      for (const table of DERIVED_TABLES) this.db.exec(`DELETE FROM ${table}`);
+      const rows = this.db
+        .prepare('SELECT payload FROM blocks ORDER BY block_height')
+        .all() as Row[];
+      for (const row of rows) this.applyBlock(JSON.parse(String(row['payload'])));
+    })();
+  }
+
+  // Queries
+
+  getRemittance(remittanceId: bigint): IndexedRemittance | null {
+    const row = this.db
+      .prepare('SELECT * FROM remittances WHERE remittance_id = ?')
+      .get(remittanceId) as Row | undefined;
+    return row ? toRemittance(row) : null;
+  }
+
+  listRemittances(filter: RemittanceFilter = {}): IndexedRemittance[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.creator !== undefined) {
+      conditions.push('creator = ?');
+      params.push(filter.creator);
+    }
+    if (filter.recipient !== undefined) {
+      conditions.push(
+        '(recipient = ? OR remittance_id IN (SELECT remittance_id FROM split_recipients WHERE recipient = ?))'
+      );
+      params.push(filter.recipient, filter.recipient);
+    }
+    if (filter.phoneHash !== undefined) {
+      conditions.push('phone_hash = ?');
+      params.push(filter.phoneHash);
+    }
+    if (filter.contributor !== undefined) {
+      conditions.push(
+        'remittance_id IN (SELECT remittance_id FROM contributions WHERE contributor = ?)'
+      );
+      params.push(filter.contributor);
+    }
+    if (filter.status !== undefined) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM remittances ${where} ORDER BY remittance_id`)
+      .all(...params) as Row[];
+    return rows.map(toRemittance);
+  }
+
+  /**
+   * @returns The recipients of a split remittance in list order, or null if it is not split
+   */
+  getRemittanceSplits(remittanceId: bigint): IndexedSplitRecipient[] | null {
+    const rows = this.db
+      .prepare('SELECT * FROM split_recipients WHERE remittance_id = ? ORDER BY position')
+      .all(remittanceId) as Row[];
+    if (rows.length === 0) return null;
+    return rows.map(row => ({
+      recipient: String(row['recipient']),
+      shareBps: bigintColumn(row, 'share_bps'),
+      paidAmount: row['paid_amount'] === null ? null : bigintColumn(row, 'paid_amount'),
+    }));
+  }
+
+  /**
+   * List contributions, including those funded from a schedule deposit, oldest first
+   */
+  listContributions(
+    filter: { remittanceId?: bigint; contributor?: string } = {}
+  ): IndexedContribution[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM contributions
+         WHERE (@remittanceId IS NULL OR remittance_id = @remittanceId)
+           AND (@contributor IS NULL OR contributor = @contributor)
+         ORDER BY block_height, rowid`
+      )
+      .all({
+        remittanceId: filter.remittanceId ?? null,
+        contributor: filter.contributor ?? null,
+      }) as Row[];
+    return rows.map(row => ({
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      contributor: String(row['contributor']),
+      amount: bigintColumn(row, 'amount'),
+      contributedAt: bigintColumn(row, 'contributed_at'),
+    }));
+  }
+
+  /**
+   * List contribution withdrawals, oldest first
+   */
+  listWithdrawals(remittanceId?: bigint): IndexedWithdrawal[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM withdrawals WHERE (@remittanceId IS NULL OR remittance_id = @remittanceId)
+         ORDER BY block_height, rowid`
+      )
+      .all({ remittanceId: remittanceId ?? null }) as Row[];
+    return rows.map(row => ({
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      contributor: String(row['contributor']),
+      amount: bigintColumn(row, 'amount'),
+      remaining: bigintColumn(row, 'remaining'),
+      withdrawnAt: bigintColumn(row, 'withdrawn_at'),
+    }));
+  }
+
+  listReleases(): IndexedRelease[] {
+    const rows = this.db.prepare('SELECT * FROM releases ORDER BY block_height').all() as Row[];
+    return rows.map(row => ({
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      recipient: String(row['recipient']),
+      netAmount: bigintColumn(row, 'net_amount'),
+      platformFee: bigintColumn(row, 'platform_fee'),
+      releasedAt: bigintColumn(row, 'released_at'),
+    }));
+  }
+
+  listCancellations(): IndexedCancellation[] {
+    const rows = this.db
+      .prepare('SELECT * FROM cancellations ORDER BY block_height')
+      .all() as Row[];
+    return rows.map(row => ({
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      creator: String(row['creator']),
+      refundedAmount: bigintColumn(row, 'refunded_amount'),
+      refundCount: Number(row['refund_count']),
+    }));
+  }
+
+  /**
+   * List refunds contributors claimed themselves, oldest first
+   */
+  listRefundClaims(remittanceId?: bigint): IndexedRefundClaim[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM refund_claims WHERE (@remittanceId IS NULL OR remittance_id = @remittanceId)
+         ORDER BY block_height, rowid`
+      )
+      .all({ remittanceId: remittanceId ?? null }) as Row[];
+    return rows.map(row => ({
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      contributor: String(row['contributor']),
+      amount: bigintColumn(row, 'amount'),
+      claimedAt: bigintColumn(row, 'claimed_at'),
+    }));
+  }
+
+  /**
+   * List refunds paid to contributors of cancelled remittances, oldest first
+   */
+  listRefunds(remittanceId?: bigint): IndexedRefund[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM refunds WHERE (@remittanceId IS NULL OR remittance_id = @remittanceId)
+         ORDER BY block_height, rowid`
+      )
+      .all({ remittanceId: remittanceId ?? null }) as Row[];
+    return rows.map(row => ({
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      contributor: String(row['contributor']),
+      amount: bigintColumn(row, 'amount'),
+      refundedAt: bigintColumn(row, 'refunded_at'),
+    }));
+  }
+
+  /**
+   * @returns The binding bind-phone made for a phone hash, or null if it is not bound
+   */
+  getPhoneBinding(phoneHash: string): IndexedPhoneBinding | null {
+    const row = this.db
+      .prepare('SELECT * FROM phone_bindings WHERE phone_hash = ?')
+      .get(phoneHash) as Row | undefined;
+    if (!row) return null;
+    return {
+      phoneHash: String(row['phone_hash']),
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      recipient: String(row['recipient']),
+      verifier: String(row['verifier']),
+      boundAt: bigintColumn(row, 'bound_at'),
+    };
+  }
+
+  /**
+   * @returns The passkey a creator or recipient registered, or null if there is none
+   */
+  getPasskey(remittanceId: bigint, owner: string): IndexedPasskey | null {
+    const row = this.db
+      .prepare('SELECT * FROM passkeys WHERE remittance_id = ? AND owner = ?')
+      .get(remittanceId, owner) as Row | undefined;
+    if (!row) return null;
+    return {
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      owner: String(row['owner']),
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      publicKey: String(row['public_key']),
+      rpIdHash: String(row['rp_id_hash']),
+      nonce: bigintColumn(row, 'nonce'),
+      registeredAt: bigintColumn(row, 'registered_at'),
+    };
+  }
+
+  getSchedule(scheduleId: bigint): IndexedSchedule | null {
+    const row = this.db.prepare('SELECT * FROM schedules WHERE schedule_id = ?').get(scheduleId) as
+      Row | undefined;
+    return row ? toSchedule(row) : null;
+  }
+
+  listSchedules(
+    filter: { creator?: string; recipient?: string; status?: ScheduleStatus } = {}
+  ): IndexedSchedule[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM schedules
+         WHERE (@creator IS NULL OR creator = @creator)
+           AND (@recipient IS NULL OR recipient = @recipient)
+           AND (@status IS NULL OR status = @status)
+         ORDER BY schedule_id`
+      )
+      .all({
+        creator: filter.creator ?? null,
+        recipient: filter.recipient ?? null,
+        status: filter.status ?? null,
+      }) as Row[];
+    return rows.map(toSchedule);
+  }
+
+  /**
+   * List schedule triggers, oldest first
+   */
+  listScheduleTriggers(scheduleId?: bigint): IndexedScheduleTrigger[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM schedule_triggers WHERE (@scheduleId IS NULL OR schedule_id = @scheduleId)
+         ORDER BY block_height, rowid`
+      )
+      .all({ scheduleId: scheduleId ?? null }) as Row[];
+    return rows.map(row => ({
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      scheduleId: bigintColumn(row, 'schedule_id'),
+      period: bigintColumn(row, 'period'),
+      remittanceId: bigintColumn(row, 'remittance_id'),
+      prefunded: bigintColumn(row, 'prefunded') === 1n,
+      missed: bigintColumn(row, 'missed'),
+      triggeredAt: bigintColumn(row, 'triggered_at'),
+    }));
+  }
+
+  /**
+   * List published rates, oldest first
+   * @param currencyPair Restrict to one pair, e.g. "USD-KES"
+   */
+  listRateUpdates(currencyPair?: string): IndexedRateUpdate[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM rate_updates WHERE (@currencyPair IS NULL OR currency_pair = @currencyPair)
+         ORDER BY block_height, rowid`
+      )
+      .all({ currencyPair: currencyPair ?? null }) as Row[];
+    return rows.map(row => ({
+      txid: String(row['txid']),
+      blockHeight: Number(row['block_height']),
+      currencyPair: String(row['currency_pair']),
+      roundId: bigintColumn(row, 'round_id'),
+      rate: bigintColumn(row, 'rate'),
+      updater: String(row['updater']),
+      updatedAt: bigintColumn(row, 'updated_at'),
+    }));
+  }
+
+  // Block processing
+
+  private blockHash(height: number): string | null {
+    const row = this.db
+      .prepare('SELECT index_block_hash FROM blocks WHERE block_height = ?')
+      .get(height) as Row | undefined;
+    return row ? String(row['index_block_hash']) : null;
+  }
+
+  private storeBlock(payload: NewBlockPayload): void {
+    this.db
+      .prepare(
+        'INSERT INTO blocks (block_height, index_block_hash, parent_index_block_hash, payload) VALUES (?, ?, ?, ?)'
+      )
+      .run(
+        payload.block_height,
+        payload.index_block_hash,
+        payload.parent_index_block_hash,
+        JSON.stringify(payload)
+      );
+  }
+
+  private applyBlock(payload: NewBlockPayload): void {
+    // stacks-block-time as seen by the contracts
+    const time = BigInt(payload.block_time ?? payload.burn_block_time);
+    const transactions = [...payload.transactions].sort((a, b) => a.tx_index - b.tx_index);
+
+    for (const tx of transactions) {
+      if (tx.status !== 'success') continue;
+      const events = payload.events
+        .filter(event => event.txid === tx.txid && event.committed)
+        .sort((a, b) => a.event_index - b.event_index);
+      this.applyTransaction({ txid: tx.txid, blockHeight: payload.block_height, time }, events);
+    }
+  }
+
+  // Escrow transfers are handed to the escrow event printed right after them
+  private applyTransaction(context: EventContext, events: ObserverEvent[]): void {
+    const printed: EscrowEvent[] = [];
+    let transfers: EscrowTransfer[] = [];
+
+    for (const event of events) {
+      const transfer = event.stx_transfer_event ?? event.ft_transfer_event;
+      if (transfer?.sender === this.escrowContract) {
+        transfers.push({
+          eventIndex: event.event_index,
+          recipient: transfer.recipient,
+          amount: BigInt(transfer.amount),
+        });
+        continue;
+      }
+
+      const print = event.contract_event;
+      if (print?.topic !== 'print') continue;
+      if (print.contract_identifier === this.oracleContract) {
+        const oracleEvent = decodeOracleEvent(print.raw_value);
+        if (!oracleEvent) continue;
+        this.applyOracleEvent(oracleEvent, { ...context, eventIndex: event.event_index });
+      } else if (print.contract_identifier === this.escrowContract) {
+        const escrowEvent = decodeEscrowEvent(print.raw_value);
+        if (!escrowEvent) continue;
+        this.applyEscrowEvent(escrowEvent, {
+          ...context,
+          eventIndex: event.event_index,
+          transfers,
+          printed,
+        });
+        printed.push(escrowEvent);
+        transfers = [];
+      }
+    }
+  }
+
+  private applyEscrowEvent(event: EscrowEvent, context: EscrowEventContext): void {
+    const { txid, blockHeight, eventIndex, time } = context;
+    switch (event.event) {
+      // Phone and claimable remittances name the escrow as recipient until they are released
+      case 'remittance-created':
+        this.db
+          .prepare(
+            `INSERT INTO remittances (remittance_id, creator, recipient, target_amount, total_raised,
+               deadline, description, status, created_at, released_at, currency_pair, token,
+               fiat_target, phone_hash, claim_hash, claim_expires_at, txid, block_height)
+             VALUES (?, ?, ?, ?, '0', ?, ?, 'active', ?, NULL, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            event.remittanceId,
+            event.creator,
+            event.recipient,
+            amountParam(event.targetAmount),
+            event.deadline,
+            event.description,
+            event.createdAt,
+            event.currencyPair,
+            event.token,
+            event.fiatTarget === null ? null : amountParam(event.fiatTarget),
+            event.phoneHash,
+            event.claimHash,
+            event.claimExpiresAt,
+            txid,
+            blockHeight
+          );
+        return;
+
+      case 'remittance-split': {
+        const insert = this.db.prepare(
+          `INSERT INTO split_recipients (remittance_id, position, recipient, share_bps, paid_amount)
+           VALUES (?, ?, ?, ?, NULL)`
+        );
+        event.recipients.forEach((split, position) =>
+          insert.run(event.remittanceId, position, split.recipient, split.shareBps)
+        );
+        return;
+      }
+
+      case 'contribution-received':
+        this.db
+          .prepare(
+            `INSERT INTO contributions (txid, event_index, block_height, remittance_id, contributor,
+               amount, contributed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            txid,
+            eventIndex,
+            blockHeight,
+            event.remittanceId,
+            event.contributor,
+            amountParam(event.amount),
+            event.contributedAt
+          );
+        this.setTotalRaised(event.remittanceId, event.totalRaised);
+        return;
+
+      case 'remittance-funded':
+        this.db
+          .prepare(`UPDATE remittances SET status = 'funded' WHERE remittance_id = ?`)
+          .run(event.remittanceId);
+        return;
+
+      case 'contribution-withdrawn':
+        this.db
+          .prepare(
+            `INSERT INTO withdrawals (txid, event_index, block_height, remittance_id, contributor,
+               amount, remaining, withdrawn_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            txid,
+            eventIndex,
+            blockHeight,
+            event.remittanceId,
+            event.contributor,
+            amountParam(event.amount),
+            amountParam(event.contributorTotal),
+            time
+          );
+        this.setTotalRaised(event.remittanceId, event.totalRaised);
+        return;
+
+      // Printed before funds-released, once for every share including those that round to zero
+      case 'split-paid':
+        this.db
+          .prepare(
+            `UPDATE split_recipients SET paid_amount = ? WHERE remittance_id = ? AND recipient = ?`
+          )
+          .run(amountParam(event.amount), event.remittanceId, event.recipient);
+        return;
+
+      // For a phone or claimable remittance the recipient is the principal that was paid
+      case 'funds-released':
+        this.db
+          .prepare(
+            `INSERT INTO releases (remittance_id, txid, block_height, recipient, net_amount,
+               platform_fee, released_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            event.remittanceId,
+            txid,
+            blockHeight,
+            event.recipient,
+            amountParam(event.netAmount),
+            amountParam(event.platformFee),
+            event.releasedAt
+          );
+        this.db
+          .prepare(
+            `UPDATE remittances SET status = 'completed', released_at = ?, recipient = ?
+             WHERE remittance_id = ?`
+          )
+          .run(event.releasedAt, event.recipient, event.remittanceId);
+        return;
+
+      // The first page of refunds is printed before the cancellation itself
+      case 'remittance-cancelled': {
+        const page = [...context.printed]
+          .reverse()
+          .find(
+            (printed): printed is RefundsProcessedEvent =>
+              isEscrowEvent(printed, 'refunds-processed') &&
+              printed.remittanceId === event.remittanceId
+          );
+        this.db
+          .prepare(
+            `INSERT INTO cancellations (remittance_id, txid, block_height, creator, refunded_amount,
+               refund_count)
+             VALUES (?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            event.remittanceId,
+            txid,
+            blockHeight,
+            event.creator,
+            amountParam(page?.refundedAmount ?? 0n),
+            page?.refundCount ?? 0n
+          );
+        this.db
+          .prepare(`UPDATE remittances SET status = 'cancelled' WHERE remittance_id = ?`)
+          .run(event.remittanceId);
+        return;
+      }
+
+      // Each contributor of the page was paid by one of the escrow transfers printed before it
+      case 'refunds-processed': {
+        const insert = this.db.prepare(
+          `INSERT INTO refunds (txid, event_index, block_height, remittance_id, contributor, amount,
+             refunded_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        );
+        for (const refund of context.transfers) {
+          insert.run(
+            txid,
+            refund.eventIndex,
+            blockHeight,
+            event.remittanceId,
+            refund.recipient,
+            amountParam(refund.amount),
+            time
+          );
+        }
+        // Later pages add to the cancellation; the first is counted when it is inserted
+        const cancellation = this.db
+          .prepare('SELECT refunded_amount FROM cancellations WHERE remittance_id = ?')
+          .get(event.remittanceId) as Row | undefined;
+        if (cancellation) {
+          this.db
+            .prepare(
+              `UPDATE cancellations SET refunded_amount = ?, refund_count = refund_count + ?
+               WHERE remittance_id = ?`
+            )
+            .run(
+              amountParam(bigintColumn(cancellation, 'refunded_amount') + event.refundedAmount),
+              event.refundCount,
+              event.remittanceId
+            );
+        }
+        const remittance = this.getRemittance(event.remittanceId);
+        if (remittance) {
+          this.setTotalRaised(event.remittanceId, remittance.totalRaised - event.refundedAmount);
+        }
+        return;
+      }
+
+      case 'refund-claimed':
+        this.db
+          .prepare(
+            `INSERT INTO refund_claims (txid, event_index, block_height, remittance_id, contributor,
+               amount, claimed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            txid,
+            eventIndex,
+            blockHeight,
+            event.remittanceId,
+            event.contributor,
+            amountParam(event.amount),
+            time
+          );
+        this.db
+          .prepare(
+            `UPDATE remittances SET total_raised = ?, status = 'expired' WHERE remittance_id = ?`
+          )
+          .run(amountParam(event.totalRaised), event.remittanceId);
+        return;
+
+      case 'phone-bound':
+        this.db
+          .prepare(
+            `INSERT INTO phone_bindings (phone_hash, txid, block_height, recipient, verifier, bound_at)
+             VALUES (?, ?, ?, ?, ?, ?)`
+          )
+          .run(event.phoneHash, txid, blockHeight, event.recipient, event.verifier, event.boundAt);
+        return;
+
+      case 'passkey-registered':
+        this.db
+          .prepare(
+            `INSERT INTO passkeys (remittance_id, owner, txid, block_height, public_key,
+               rp_id_hash, nonce, registered_at)
+             VALUES (?, ?, ?, ?, ?, ?, 0, ?)`
+          )
+          .run(
+            event.remittanceId,
+            event.owner,
+            txid,
+            blockHeight,
+            event.publicKey,
+            event.rpIdHash,
+            time
+          );
+        return;
+
+      // The assertion used up the nonce it signed
+      case 'passkey-verified':
+        this.db
+          .prepare(
+            `UPDATE passkeys SET nonce = @nonce + 1 WHERE remittance_id = @remittanceId AND owner = @owner`
+          )
+          .run({ nonce: event.nonce, remittanceId: event.remittanceId, owner: event.owner });
+        return;
+
+      case 'schedule-created':
+        this.db
+          .prepare(
+            `INSERT INTO schedules (schedule_id, creator, recipient, amount, interval, start_at,
+               end_at, description, currency_pair, next_period, deposit, status, created_at, txid,
+               block_height)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, 'active', ?, ?, ?)`
+          )
+          .run(
+            event.scheduleId,
+            event.creator,
+            event.recipient,
+            amountParam(event.amount),
+            event.interval,
+            event.startAt,
+            event.endAt,
+            event.description,
+            event.currencyPair,
+            amountParam(event.deposit),
+            event.createdAt,
+            txid,
+            blockHeight
+          );
+        return;
+
+      // The spawned remittance and its funding from the deposit were printed before this
+      case 'schedule-triggered':
+        this.db
+          .prepare(
+            `INSERT INTO schedule_triggers (txid, event_index, block_height, schedule_id, period,
+               remittance_id, prefunded, missed, triggered_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            txid,
+            eventIndex,
+            blockHeight,
+            event.scheduleId,
+            event.period,
+            event.remittanceId,
+            event.prefunded ? 1 : 0,
+            event.missed,
+            time
+          );
+        this.db
+          .prepare('UPDATE schedules SET next_period = ?, deposit = ? WHERE schedule_id = ?')
+          .run(event.period + 1n, amountParam(event.deposit), event.scheduleId);
+        return;
+
+      case 'schedule-funded':
+      case 'schedule-deposit-withdrawn':
+        this.db
+          .prepare('UPDATE schedules SET deposit = ? WHERE schedule_id = ?')
+          .run(amountParam(event.deposit), event.scheduleId);
+        return;
+
+      case 'schedule-cancelled':
+        this.db
+          .prepare(`UPDATE schedules SET deposit = '0', status = 'cancelled' WHERE schedule_id = ?`)
+          .run(event.scheduleId);
+        return;
+    }
+  }
+
+  private setTotalRaised(remittanceId: bigint, totalRaised: bigint): void {
+    this.db
+      .prepare('UPDATE remittances SET total_raised = ? WHERE remittance_id = ?')
+      .run(amountParam(totalRaised), remittanceId);
+  }
+
+  // Submissions below quorum publish nothing; a published rate is the round median
+  private applyOracleEvent(event: OracleEvent, context: OracleEventContext): void {
+    if (!isOracleEvent(event, 'rate-published')) return;
+
+    this.db
+      .prepare(
+        `INSERT INTO rate_updates (txid, event_index, block_height, currency_pair, round_id, rate,
+           updater, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        context.txid,
+        context.eventIndex,
+        context.blockHeight,
+        event.currencyPair,
+        event.roundId,
+        event.rate,
+        event.updater,
+        event.updatedAt
+      );
+  }
+}
+
+/**
+ * Serve the event-observer endpoints a stacks-node posts to
+ *
+ * Only `/new_block` is indexed; other paths are acknowledged. Failed ingestion
+ * answers 500 so the node retries the delivery.
+ */
+export function createEventObserver(indexer: EventIndexer): Server {
+  return createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      try {
+        if (request.method === 'POST' && request.url === '/new_block') {
+          indexer.ingestBlock(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        }
+        response.writeHead(200).end();
+      } catch (error) {
+        response.writeHead(500).end(error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+}
+
+// Row and argument decoding
+
+function toRemittance(row: Row): IndexedRemittance {
+  return {
+    remittanceId: bigintColumn(row, 'remittance_id'),
+    creator: String(row['creator']),
+    recipient: String(row['recipient']),
+    targetAmount: bigintColumn(row, 'target_amount'),
+    totalRaised: bigintColumn(row, 'total_raised'),
+    deadline: bigintColumn(row, 'deadline'),
+    description: String(row['description']),
+    status: String(row['status']) as RemittanceStatus,
+    createdAt: bigintColumn(row, 'created_at'),
+    releasedAt: row['released_at'] === null ? null : bigintColumn(row, 'released_at'),
+    currencyPair: String(row['currency_pair']),
+    token: row['token'] === null ? null : String(row['token']),
+    fiatTarget: row['fiat_target'] === null ? null : bigintColumn(row, 'fiat_target'),
+    phoneHash: row['phone_hash'] === null ? null : String(row['phone_hash']),
+    claimHash: row['claim_hash'] === null ? null : String(row['claim_hash']),
+    claimExpiresAt: row['claim_expires_at'] === null ? null : bigintColumn(row, 'claim_expires_at'),
+    txid: String(row['txid']),
+    blockHeight: Number(row['block_height']),
+  };
+}
+
+function toSchedule(row: Row): IndexedSchedule {
+  return {
+    scheduleId: bigintColumn(row, 'schedule_id'),
+    creator: String(row['creator']),
+    recipient: String(row['recipient']),
+    amount: bigintColumn(row, 'amount'),
+    interval: bigintColumn(row, 'interval'),
+    startAt: bigintColumn(row, 'start_at'),
+    endAt: bigintColumn(row, 'end_at'),
+    description: String(row['description']),
+    currencyPair: String(row['currency_pair']),
+    nextPeriod: bigintColumn(row, 'next_period'),
+    deposit: bigintColumn(row, 'deposit'),
+    status: String(row['status']) as ScheduleStatus,
+    createdAt: bigintColumn(row, 'created_at'),
+    txid: String(row['txid']),
+    blockHeight: Number(row['block_height']),
+  };
+}
+
+// Integer columns read as bigint, amount columns as decimal text
+function bigintColumn(row: Row, column: string): bigint {
+  const value = row[column];
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  if (typeof value !== 'bigint') throw new TypeError(`Expected integer column ${column}`);
+  return value;
+}
+
+function amountParam(amount: bigint): string {
+  return amount.toString();
+}
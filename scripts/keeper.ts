@@ -0,0 +1,169 @@
+/**
+ * Keeper for recurring remittance schedules
+ *
+ * A keeper polls the escrow's schedules and sends trigger-schedule for every schedule whose
+ * current period has not been spawned yet. trigger-schedule only spawns the current period, so
+ * a period nobody triggers before it ends is skipped for good; the keeper reports those missed
+ * periods, e.g. so the creator can be told a payment did not go out.
+ */
+
+import { fetchNonce, getAddressFromPrivateKey, PostConditionMode } from '@stacks/transactions';
+import type { EscrowClient } from './escrow-client.ts';
+import { currentPeriod, duePeriod, missedPeriods, type SchedulePeriod } from './schedule.ts';
+
+export const DEFAULT_KEEPER_INTERVAL_MS = 60_000;
+
+export interface KeeperConfig {
+  client: EscrowClient;
+  /** Hex-encoded private key paying for the triggers; any account can trigger a schedule */
+  senderKey: string;
+  /** Schedules to keep, defaults to every schedule of the escrow */
+  scheduleIds?: bigint[];
+  /** Transaction fee in micro-STX, estimated by the node when omitted */
+  fee?: bigint;
+  /**
+   * Current unix time in seconds (default: the system clock); block time trails it slightly,
+   * so a trigger sent right as a period starts may still land in the previous period
+   */
+  now?: () => bigint;
+}
+
+export type KeeperOutcome =
+  | { scheduleId: bigint; status: 'triggered'; period: SchedulePeriod; txid: string }
+  /** Periods `from` up to `to` (exclusive) ended without being triggered */
+  | { scheduleId: bigint; status: 'missed'; from: bigint; to: bigint }
+  | { scheduleId: bigint; status: 'failed'; error: unknown };
+
+export class ScheduleKeeper {
+  readonly senderAddress: string;
+  private readonly now: () => bigint;
+  /** Own triggers not yet reflected on chain: the last submitted period, by schedule */
+  private readonly submitted = new Map<bigint, bigint>();
+  /** First period not reported as missed yet, by schedule */
+  private readonly reported = new Map<bigint, bigint>();
+  /** Cancelled schedules and schedules without periods left, which are not read again */
+  private readonly finished = new Set<bigint>();
+  private nextNonce: bigint | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly config: KeeperConfig) {
+    this.now = config.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+    this.senderAddress = getAddressFromPrivateKey(config.senderKey, config.client.network);
+  }
+
+  /**
+   * Read every kept schedule once, trigger the due ones and report newly missed periods
+   *
+   * Missed periods are reported once per keeper. A schedule that fails to read or trigger is
+   * reported without stopping the others.
+   * @throws If the schedule count cannot be read
+   */
+  async tick(): Promise<KeeperOutcome[]> {
+    const now = this.now();
+    const scheduleIds =
+      this.config.scheduleIds ??
+      Array.from({ length: Number(await this.config.client.getScheduleCount()) }, (_, index) =>
+        BigInt(index)
+      );
+    const outcomes: KeeperOutcome[] = [];
+    for (const scheduleId of scheduleIds) {
+      if (this.finished.has(scheduleId)) continue;
+      try {
+        outcomes.push(...(await this.keep(scheduleId, now)));
+      } catch (error) {
+        outcomes.push({ scheduleId, status: 'failed', error });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Tick every `intervalMs` until `stop`; a tick starts only after the previous one finished
+   * @param onTick Receives the outcomes of each tick
+   * @param onError Receives errors reading the schedule count (default console.error)
+   */
+  start(
+    intervalMs = DEFAULT_KEEPER_INTERVAL_MS,
+    onTick?: (outcomes: KeeperOutcome[]) => void,
+    onError: (error: unknown) => void = console.error
+  ): void {
+    if (this.timer) return;
+    const run = async () => {
+      try {
+        onTick?.(await this.tick());
+      } catch (error) {
+        onError(error);
+      }
+      if (this.timer) this.timer = setTimeout(run, intervalMs);
+    };
+    this.timer = setTimeout(run, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async keep(scheduleId: bigint, now: bigint): Promise<KeeperOutcome[]> {
+    const stored = await this.config.client.getSchedule(scheduleId);
+    if (!stored) throw new RangeError(`Schedule ${scheduleId} does not exist`);
+    if (stored.status !== 'active') {
+      this.finished.add(scheduleId);
+      return [];
+    }
+
+    // The newer of the triggered period on chain and this keeper's pending trigger
+    const pending = this.submitted.get(scheduleId);
+    if (pending !== undefined && pending < stored.nextPeriod) this.submitted.delete(scheduleId);
+    const schedule =
+      pending !== undefined && pending >= stored.nextPeriod
+        ? { ...stored, nextPeriod: pending + 1n }
+        : stored;
+
+    const outcomes: KeeperOutcome[] = [];
+    const missed = missedPeriods(schedule, now);
+    const reportedUntil = this.reported.get(scheduleId) ?? 0n;
+    if (missed && missed.to > reportedUntil) {
+      const from = missed.from > reportedUntil ? missed.from : reportedUntil;
+      outcomes.push({ scheduleId, status: 'missed', from, to: missed.to });
+      this.reported.set(scheduleId, missed.to);
+    }
+
+    const due = duePeriod(schedule, now);
+    if (due) {
+      try {
+        outcomes.push(await this.trigger(scheduleId, due));
+      } catch (error) {
+        outcomes.push({ scheduleId, status: 'failed', error });
+      }
+    } else if (now >= schedule.startAt && !currentPeriod(schedule, now)) {
+      this.finished.add(scheduleId);
+    }
+    return outcomes;
+  }
+
+  private async trigger(scheduleId: bigint, period: SchedulePeriod): Promise<KeeperOutcome> {
+    const { client } = this.config;
+    const nonce =
+      this.nextNonce ??
+      (await fetchNonce({ address: this.senderAddress, network: client.network }));
+    let txid: string;
+    try {
+      // trigger-schedule moves no funds, so deny mode without post-conditions fits it
+      txid = await client.submit(client.triggerSchedule(scheduleId), this.config.senderKey, {
+        nonce,
+        postConditionMode: PostConditionMode.Deny,
+        postConditions: [],
+        ...(this.config.fee === undefined ? {} : { fee: this.config.fee }),
+      });
+    } catch (error) {
+      // A rejected nonce is refetched on the next submission
+      this.nextNonce = null;
+      throw error;
+    }
+    // The node's account nonce lags the mempool, so later submissions count from this one
+    this.nextNonce = nonce + 1n;
+    this.submitted.set(scheduleId, period.period);
+    return { scheduleId, status: 'triggered', period, txid };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Exact amount arithmetic for StackSend
+ *
+ * Amounts are bigint base units of the remittance asset (micro-STX or the smallest unit of a
+ * SIP-010 token) throughout; strings are only used at the edges.
+ */
+
+import { StackSendError } from './errors.ts';
+
+export const STX_DECIMALS = 6;
+export const MICRO_STX_PER_STX = 1_000_000n;
+
+// Mirrors the bounds enforced by validate-amount in stacksend-escrow.clar
+export const MIN_AMOUNT = 1n;
+export const MAX_AMOUNT = 1_000_000_000_000n;
+
+/**
+ * Display metadata of a remittance asset
+ */
+export interface TokenInfo {
+  /** SIP-010 contract identifier, null for STX */
+  contract: string | null;
+  name: string;
+  symbol: string;
+  /** Number of fractional digits in one whole unit */
+  decimals: number;
+}
+
+export const STX_TOKEN: TokenInfo = {
+  contract: null,
+  name: 'Stacks',
+  symbol: 'STX',
+  decimals: STX_DECIMALS,
+};
+
+/**
+ * An amount could not be parsed or is outside the contract bounds
+ */
+export class AmountError extends StackSendError {
+  override readonly name = 'AmountError';
+}
+
+export interface FormatOptions {
+  /** Separator between groups of three whole digits, '' disables grouping (default '') */
+  groupSeparator?: string;
+  /** Separator between whole and fractional digits (default '.') */
+  decimalSeparator?: string;
+  /** Fraction digits always shown; further trailing zeros are trimmed (default: all decimals) */
+  minFractionDigits?: number;
+}
+
+/**
+ * Parse a decimal amount string to base units without going through floats
+ * @param input Amount in whole units, e.g. "0.29" or "1000000"
+ * @param token Asset the amount is denominated in
+ * @returns Amount in base units
+ */
+export function parseAmount(input: string, token: TokenInfo): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(input.trim());
+  if (!match?.[1]) {
+    throw new AmountError(`Invalid ${token.symbol} amount: "${input}"`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > token.decimals) {
+    throw new AmountError(
+      `${token.symbol} amounts have at most ${token.decimals} decimal places: "${input}"`
+    );
+  }
+
+  return (
+    BigInt(whole) * 10n ** BigInt(token.decimals) + BigInt(fraction.padEnd(token.decimals, '0'))
+  );
+}
+
+/**
+ * Format base units as a decimal amount string
+ * @param amount Amount in base units
+ * @param token Asset the amount is denominated in
+ * @returns Formatted amount, without the symbol
+ */
+export function formatAmount(
+  amount: bigint,
+  token: TokenInfo,
+  options: FormatOptions = {}
+): string {
+  const {
+    groupSeparator = '',
+    decimalSeparator = '.',
+    minFractionDigits = token.decimals,
+  } = options;
+
+  const unit = 10n ** BigInt(token.decimals);
+  const sign = amount < 0n ? '-' : '';
+  const absolute = amount < 0n ? -amount : amount;
+  const whole = (absolute / unit).toString();
+  let fraction =
+    token.decimals > 0 ? (absolute % unit).toString().padStart(token.decimals, '0') : '';
+
+  while (fraction.length > minFractionDigits && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const grouped = groupSeparator ? whole.replace(/\B(?=(\d{3})+$)/g, groupSeparator) : whole;
+  return fraction ? `${sign}${grouped}${decimalSeparator}${fraction}` : `${sign}${grouped}`;
+}
+
+/**
+ * Parse a decimal STX string to micro-STX without going through floats
+ * @param input Amount in STX, e.g. "0.29" or "1000000"
+ * @returns Amount in micro-STX
+ */
+export function parseSTX(input: string): bigint {
+  return parseAmount(input, STX_TOKEN);
+}
+
+/**
+ * Format micro-STX as a decimal STX string
+ * @param amount Amount in micro-STX
+ * @returns Formatted STX string
+ */
+export function formatSTX(amount: bigint, options: FormatOptions = {}): string {
+  return formatAmount(amount, STX_TOKEN, options);
+}
+
+/**
+ * Check an amount against the contract's validate-amount bounds
+ * @param amount Amount in base units
+ * @returns True if the contract would accept the amount
+ */
+export function isValidAmount(
+  amount: bigint,
+  min: bigint = MIN_AMOUNT,
+  max: bigint = MAX_AMOUNT
+): boolean {
+  return amount >= min && amount <= max;
+}
+
+/**
+ * Enforce the contract's validate-amount bounds
+ * @param amount Amount in base units
+ * @param token Asset used to format the error message (default STX)
+ * @returns The same amount, for chaining after parseAmount
+ */
+export function validateAmount(
+  amount: bigint,
+  min: bigint = MIN_AMOUNT,
+  max: bigint = MAX_AMOUNT,
+  token: TokenInfo = STX_TOKEN
+): bigint {
+  if (!isValidAmount(amount, min, max)) {
+    const brief: FormatOptions = { minFractionDigits: 0 };
+    const format = (value: bigint) => formatAmount(value, token, brief);
+    throw new AmountError(
+      `Amount ${format(amount)} ${token.symbol} is outside ${format(min)}-${format(max)} ${token.symbol}`
+    );
+  }
+  return amount;
+}
@@ -0,0 +1,122 @@
+/**
+ * Currency pairs supported by stacksend-oracle, with display names and symbols
+ *
+ * CURRENCY_PAIRS is generated from the pairs the oracle registers at deployment, so UIs can
+ * validate and label pairs offline; pairs the owner adds or removes later are read from the
+ * chain with `EscrowClient.getCurrencyPair`.
+ */
+
+import { CURRENCY_PAIRS } from './currency-pairs.ts';
+
+export { CURRENCY_PAIRS };
+
+export interface CurrencyInfo {
+  /** ISO 4217 code, or STX */
+  code: string;
+  name: string;
+  symbol: string;
+}
+
+export interface CurrencyPair {
+  /** BASE-QUOTE, e.g. "USD-KES" */
+  pair: string;
+  base: CurrencyInfo;
+  quote: CurrencyInfo;
+}
+
+/**
+ * Display metadata for the codes a pair may use; a registered pair needs both codes here
+ */
+export const CURRENCIES: Readonly<Record<string, CurrencyInfo>> = {
+  STX: { code: 'STX', name: 'Stacks', symbol: 'STX' },
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$' },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€' },
+  GBP: { code: 'GBP', name: 'Pound Sterling', symbol: '£' },
+  CAD: { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$' },
+  AED: { code: 'AED', name: 'UAE Dirham', symbol: 'AED' },
+  KES: { code: 'KES', name: 'Kenyan Shilling', symbol: 'KSh' },
+  NGN: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦' },
+  GHS: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵' },
+  UGX: { code: 'UGX', name: 'Ugandan Shilling', symbol: 'USh' },
+  TZS: { code: 'TZS', name: 'Tanzanian Shilling', symbol: 'TSh' },
+  ZAR: { code: 'ZAR', name: 'South African Rand', symbol: 'R' },
+  XOF: { code: 'XOF', name: 'West African CFA Franc', symbol: 'CFA' },
+  INR: { code: 'INR', name: 'Indian Rupee', symbol: '₹' },
+  PHP: { code: 'PHP', name: 'Philippine Peso', symbol: '₱' },
+  MXN: { code: 'MXN', name: 'Mexican Peso', symbol: 'MX$' },
+};
+
+const PAIR_FORMAT = /^([A-Z]{3})-([A-Z]{3})$/;
+
+/**
+ * Check a pair the way add-currency-pair does: BASE-QUOTE with two different upper-case codes
+ */
+export function isPairFormat(pair: string): boolean {
+  const match = PAIR_FORMAT.exec(pair);
+  return match !== null && match[1] !== match[2];
+}
+
+/**
+ * Look up a pair registered at deployment
+ * @returns The pair with display metadata, or null if it is not in CURRENCY_PAIRS
+ */
+export function getCurrencyPair(pair: string): CurrencyPair | null {
+  return CURRENCY_PAIRS.find(entry => entry.pair === pair) ?? null;
+}
+
+export function isSupportedPair(pair: string): boolean {
+  return getCurrencyPair(pair) !== null;
+}
+
+/**
+ * Label a pair for display, e.g. "US Dollar → Kenyan Shilling"
+ */
+export function formatPair(pair: CurrencyPair): string {
+  return `${pair.base.name} → ${pair.quote.name}`;
+}
+
+// Generation of currency-pairs.ts
+
+/**
+ * Read the initial-currency-pairs list from the oracle contract source
+ */
+export function readInitialPairs(oracleSource: string): string[] {
+  const list = /\(define-constant initial-currency-pairs \(list([^)]*)\)\)/.exec(oracleSource);
+  if (!list?.[1]) throw new Error('initial-currency-pairs not found in the oracle contract');
+  return [...list[1].matchAll(/"([^"]*)"/g)].map(match => match[1] ?? '');
+}
+
+/**
+ * Render currency-pairs.ts for the given pairs
+ * @throws RangeError if a pair is malformed or uses a code missing from CURRENCIES
+ */
+export function renderCurrencyPairsModule(pairs: string[]): string {
+  const entries = pairs.map(pair => {
+    if (!isPairFormat(pair)) throw new RangeError(`Malformed currency pair: "${pair}"`);
+    const [base = '', quote = ''] = pair.split('-');
+    return [
+      '  {',
+      `    pair: '${pair}',`,
+      `    base: ${renderCurrency(base)},`,
+      `    quote: ${renderCurrency(quote)},`,
+      '  },',
+    ].join('\n');
+  });
+  return [
+    '// Generated by scripts/generate-currency-pairs.ts from contracts/stacksend-oracle.clar.',
+    '// Do not edit; change initial-currency-pairs and regenerate.',
+    '',
+    "import type { CurrencyPair } from './pair-registry.ts';",
+    '',
+    'export const CURRENCY_PAIRS: readonly CurrencyPair[] = [',
+    ...entries,
+    '];',
+    '',
+  ].join('\n');
+}
+
+function renderCurrency(code: string): string {
+  const info = CURRENCIES[code];
+  if (!info) throw new RangeError(`No display metadata for currency ${code}`);
+  return `{ code: '${info.code}', name: '${info.name}', symbol: '${info.symbol}' }`;
+}
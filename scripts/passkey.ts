@@ -0,0 +1,298 @@
+/**
+ * Passkey (WebAuthn) assertions for releases and cancellations
+ *
+ * A creator or recipient who registered a passkey with `register-passkey` authorizes each
+ * release or cancellation with a WebAuthn assertion. The challenge binds the chain, the escrow,
+ * the remittance, the action and the passkey's nonce, and the contract bumps the nonce on every
+ * use, so an assertion authorizes one call only. The passkey is registered together with the
+ * hash of its relying party ID, and assertions whose authenticator data names another relying
+ * party are rejected. These helpers build the challenge and turn the response of
+ * `navigator.credentials.get` into the `assertion` tuple the contract expects.
+ */
+
+import { createHash } from 'node:crypto';
+import { StackSendError } from './errors.ts';
+import { c32checkDecode } from './principal.ts';
+
+// Mirrors passkey-domain in stacksend-escrow.clar
+export const PASSKEY_DOMAIN = 'stacksend-passkey';
+
+export type PasskeyAction = 'release' | 'cancel';
+
+// Mirrors the (buff 256) and (buff 1024) fields of the assertion tuple
+export const MAX_AUTHENTICATOR_DATA_BYTES = 256;
+export const MAX_CLIENT_DATA_JSON_BYTES = 1024;
+
+// Mirrors webauthn-required-flags
+export const FLAG_USER_PRESENT = 0x01;
+export const FLAG_USER_VERIFIED = 0x04;
+
+// Mirrors webauthn-get-prefix; the contract only accepts client data serialized this way
+const CLIENT_DATA_PREFIX = '{"type":"webauthn.get","challenge":"';
+const AUTHENTICATOR_DATA_MIN_BYTES = 37;
+const P256_ORDER = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+// DER SubjectPublicKeyInfo header of an uncompressed P-256 key, as returned by getPublicKey()
+const P256_SPKI_PREFIX = '3059301306072a8648ce3d020106082a8648ce3d030107034200';
+
+export interface PasskeyChallengeParams {
+  /** Fully qualified escrow principal, e.g. `SP….stacksend-escrow` */
+  escrowContract: string;
+  /** Chain ID of the network: 1 on mainnet, 0x80000000 on testnet */
+  chainId: number;
+  remittanceId: bigint;
+  action: PasskeyAction;
+  /** Current nonce of the passkey, see `get-passkey` */
+  nonce: bigint;
+}
+
+export interface AuthenticatorData {
+  /** Hex-encoded sha256 of the relying party ID */
+  rpIdHash: string;
+  flags: number;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+}
+
+/**
+ * WebAuthn assertion response fields, as returned by `navigator.credentials.get`
+ */
+export interface WebAuthnAssertionResponse {
+  authenticatorData: Uint8Array;
+  clientDataJSON: Uint8Array;
+  /** DER-encoded ECDSA signature */
+  signature: Uint8Array;
+}
+
+/**
+ * The `assertion` argument of the `-with-passkey` functions, hex-encoded
+ */
+export interface PasskeyAssertion {
+  authenticatorData: string;
+  clientDataJson: string;
+  /** Compact 64-byte r ‖ s signature with low s */
+  signature: string;
+}
+
+/**
+ * A passkey assertion or key cannot be used with the escrow
+ */
+export class PasskeyError extends StackSendError {
+  override readonly name = 'PasskeyError';
+}
+
+/**
+ * Mirror get-passkey-challenge
+ * @returns Hex-encoded challenge to pass to `navigator.credentials.get`
+ */
+export function passkeyChallenge(params: PasskeyChallengeParams): string {
+  // Consensus serialization of the challenge tuple; tuple fields are sorted by name
+  const tuple = serializeTuple([
+    ['action', serializeAscii(params.action)],
+    ['chain-id', serializeUInt(BigInt(params.chainId))],
+    ['domain', serializeAscii(PASSKEY_DOMAIN)],
+    ['escrow', serializeContractPrincipal(params.escrowContract)],
+    ['nonce', serializeUInt(params.nonce)],
+    ['remittance-id', serializeUInt(params.remittanceId)],
+  ]);
+  return createHash('sha256').update(tuple).digest('hex');
+}
+
+/**
+ * Hash a relying party ID the way authenticator data carries it, for register-passkey
+ * @param rpId The `rp.id` the passkey was created with, e.g. "stacksend.app"
+ * @returns Hex-encoded sha256 of the ID
+ */
+export function hashRpId(rpId: string): string {
+  return createHash('sha256').update(rpId, 'utf8').digest('hex');
+}
+
+/**
+ * Parse the fixed-size head of WebAuthn authenticator data
+ * @throws PasskeyError if the data is too short
+ */
+export function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < AUTHENTICATOR_DATA_MIN_BYTES) {
+    throw new PasskeyError(
+      `Authenticator data must be at least ${AUTHENTICATOR_DATA_MIN_BYTES} bytes`
+    );
+  }
+  const flags = data[32] ?? 0;
+  return {
+    rpIdHash: bytesHex(data.subarray(0, 32)),
+    flags,
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: new DataView(data.buffer, data.byteOffset + 33, 4).getUint32(0),
+  };
+}
+
+/**
+ * Convert a DER-encoded ECDSA signature to the compact form secp256r1-verify takes
+ * @returns Hex-encoded r ‖ s, 32 bytes each, with s normalized to the lower half of the order
+ * @throws PasskeyError if the signature is not a DER sequence of two integers
+ */
+export function derToCompactSignature(der: Uint8Array): string {
+  let offset = 0;
+  const read = (): number => {
+    const byte = der[offset++];
+    if (byte === undefined) throw new PasskeyError('Truncated DER signature');
+    return byte;
+  };
+  const readInteger = (): bigint => {
+    if (read() !== 0x02) throw new PasskeyError('Expected a DER integer');
+    const length = read();
+    if (length === 0 || length > 33 || offset + length > der.length) {
+      throw new PasskeyError('Invalid DER integer length');
+    }
+    const value = BigInt(`0x${bytesHex(der.subarray(offset, offset + length))}`);
+    offset += length;
+    return value;
+  };
+
+  if (read() !== 0x30) throw new PasskeyError('Expected a DER sequence');
+  if (read() !== der.length - 2) throw new PasskeyError('Invalid DER sequence length');
+  const r = readInteger();
+  let s = readInteger();
+  if (offset !== der.length) throw new PasskeyError('Trailing bytes after DER signature');
+  if (r === 0n || r >= P256_ORDER || s === 0n || s >= P256_ORDER) {
+    throw new PasskeyError('Signature values out of range');
+  }
+
+  if (s > P256_ORDER / 2n) s = P256_ORDER - s;
+  return r.toString(16).padStart(64, '0') + s.toString(16).padStart(64, '0');
+}
+
+/**
+ * Compress a passkey's P-256 public key for register-passkey
+ * @param key DER SubjectPublicKeyInfo from `response.getPublicKey()`, or a raw uncompressed point
+ * @returns Hex-encoded 33-byte compressed key
+ * @throws PasskeyError if the key is not an uncompressed P-256 key
+ */
+export function compressPasskeyPublicKey(key: Uint8Array): string {
+  const hex = bytesHex(key);
+  const point = hex.startsWith(P256_SPKI_PREFIX) ? hex.slice(P256_SPKI_PREFIX.length) : hex;
+  if (point.length !== 130 || !point.startsWith('04')) {
+    throw new PasskeyError('Expected an uncompressed P-256 public key');
+  }
+  const y = BigInt(`0x${point.slice(66)}`);
+  return (y % 2n === 0n ? '02' : '03') + point.slice(2, 66);
+}
+
+/**
+ * Check an assertion against the expected challenge and encode it for the contract
+ *
+ * The challenge changes with every use of the passkey, so an assertion made for an earlier
+ * nonce, e.g. one already sent, is rejected here instead of failing on-chain.
+ * @param expectedChallenge Hex-encoded challenge from `passkeyChallenge` for the current nonce
+ * @param rpIdHash Hex-encoded relying party ID hash the passkey was registered with
+ * @throws PasskeyError if the contract would reject the assertion
+ */
+export function encodePasskeyAssertion(
+  response: WebAuthnAssertionResponse,
+  expectedChallenge: string,
+  rpIdHash: string
+): PasskeyAssertion {
+  const { authenticatorData, clientDataJSON } = response;
+  if (authenticatorData.length > MAX_AUTHENTICATOR_DATA_BYTES) {
+    throw new PasskeyError(`Authenticator data exceeds ${MAX_AUTHENTICATOR_DATA_BYTES} bytes`);
+  }
+  if (clientDataJSON.length > MAX_CLIENT_DATA_JSON_BYTES) {
+    throw new PasskeyError(`Client data exceeds ${MAX_CLIENT_DATA_JSON_BYTES} bytes`);
+  }
+  const authenticator = parseAuthenticatorData(authenticatorData);
+  if (authenticator.rpIdHash !== rpIdHash.toLowerCase()) {
+    throw new PasskeyError('Assertion was made for another relying party');
+  }
+  const { userPresent, userVerified } = authenticator;
+  if (!userPresent || !userVerified) {
+    throw new PasskeyError('Assertion must be made with user presence and verification');
+  }
+
+  const clientData = new TextDecoder().decode(clientDataJSON);
+  const challenge = base64url(hexBytes(expectedChallenge));
+  if (!clientData.startsWith(`${CLIENT_DATA_PREFIX}${challenge}"`)) {
+    const parsed = parseClientData(clientData);
+    if (parsed?.type !== 'webauthn.get') throw new PasskeyError('Not a WebAuthn get assertion');
+    if (parsed.challenge !== challenge) {
+      throw new PasskeyError(
+        'Assertion was made for another challenge, e.g. an already used nonce'
+      );
+    }
+    throw new PasskeyError('Client data is not in the serialization the contract verifies');
+  }
+
+  return {
+    authenticatorData: bytesHex(authenticatorData),
+    clientDataJson: bytesHex(clientDataJSON),
+    signature: derToCompactSignature(response.signature),
+  };
+}
+
+function parseClientData(clientData: string): { type?: unknown; challenge?: unknown } | null {
+  try {
+    const parsed: unknown = JSON.parse(clientData);
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function base64url(bytes: Uint8Array): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+  let encoded = '';
+  for (let index = 0; index < bytes.length; index += 3) {
+    const group =
+      ((bytes[index] ?? 0) << 16) | ((bytes[index + 1] ?? 0) << 8) | (bytes[index + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - index) * 8) / 6));
+    for (let char = 0; char < chars; char++) {
+      encoded += alphabet[(group >> (18 - char * 6)) & 63];
+    }
+  }
+  return encoded;
+}
+
+function serializeTuple(fields: [string, Uint8Array][]): Uint8Array {
+  const parts = [concatBytes([0x0c], uint32(fields.length))];
+  for (const [name, value] of fields) {
+    parts.push(concatBytes([name.length], asciiBytes(name)), value);
+  }
+  return concatBytes(...parts);
+}
+
+function serializeUInt(value: bigint): Uint8Array {
+  return concatBytes([0x01], hexBytes(value.toString(16).padStart(32, '0')));
+}
+
+function serializeAscii(value: string): Uint8Array {
+  return concatBytes([0x0d], uint32(value.length), asciiBytes(value));
+}
+
+function serializeContractPrincipal(contract: string): Uint8Array {
+  const [address, name] = contract.split('.');
+  if (!address || !name) throw new PasskeyError(`Not a contract principal: ${contract}`);
+  const { version, data } = c32checkDecode(address.slice(1));
+  return concatBytes([0x06, version], data, [name.length], asciiBytes(name));
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function asciiBytes(value: string): Uint8Array {
+  return Uint8Array.from(value, char => char.charCodeAt(0));
+}
+
+function concatBytes(...parts: ArrayLike<number>[]): Uint8Array {
+  return Uint8Array.from(parts.flatMap(part => Array.from(part)));
+}
+
+function hexBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], pair => parseInt(pair, 16));
+}
+
+function bytesHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
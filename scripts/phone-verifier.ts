@@ -0,0 +1,69 @@
+/**
+ * Attestations a phone verifier signs so recipients can bind their principal to a phone hash
+ *
+ * The verifier confirms by SMS that a user controls a phone number, then signs the binding
+ * message for the number's hash and the user's principal. The user sends the signature with
+ * `bind-phone`, which accepts it while the verifier's public key is active on the escrow.
+ */
+
+import {
+  Cl,
+  compressPublicKey,
+  privateKeyToPublic,
+  serializeCV,
+  signMessageHashRsv,
+} from '@stacks/transactions';
+import { createHash } from 'node:crypto';
+
+// Mirrors phone-binding-domain in stacksend-escrow.clar
+export const PHONE_BINDING_DOMAIN = 'stacksend-phone-binding';
+
+export interface PhoneBindingRequest {
+  /** Hex-encoded phone hash, see `hashPhoneNumber` */
+  phoneHash: string;
+  /** Principal that will send bind-phone */
+  recipient: string;
+  /** Block time (unix seconds) after which bind-phone rejects the attestation */
+  expiresAt: bigint;
+}
+
+export interface PhoneAttestation extends PhoneBindingRequest {
+  /** Hex-encoded recoverable signature (RSV), the `signature` argument of bind-phone */
+  signature: string;
+}
+
+/**
+ * Mirror get-phone-binding-hash
+ * @returns Hex-encoded sha256 of the consensus-serialized attestation tuple
+ */
+export function phoneBindingHash(request: PhoneBindingRequest): string {
+  const message = Cl.tuple({
+    domain: Cl.stringAscii(PHONE_BINDING_DOMAIN),
+    'phone-hash': Cl.bufferFromHex(request.phoneHash),
+    recipient: Cl.principal(request.recipient),
+    'expires-at': Cl.uint(request.expiresAt),
+  });
+  return createHash('sha256').update(serializeCV(message), 'hex').digest('hex');
+}
+
+/**
+ * Sign a binding once the recipient proved control of the phone number
+ * @param verifierKey Hex-encoded private key whose public key the owner added with set-phone-verifier
+ */
+export function signPhoneAttestation(
+  verifierKey: string,
+  request: PhoneBindingRequest
+): PhoneAttestation {
+  const signature = signMessageHashRsv({
+    messageHash: phoneBindingHash(request),
+    privateKey: verifierKey,
+  });
+  return { ...request, signature };
+}
+
+/**
+ * Compressed public key to register with set-phone-verifier
+ */
+export function phoneVerifierPublicKey(verifierKey: string): string {
+  return compressPublicKey(privateKeyToPublic(verifierKey));
+}
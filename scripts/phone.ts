@@ -0,0 +1,264 @@
+/**
+ * Phone numbers for phone remittances
+ *
+ * Senders address a phone remittance to a salted hash of the recipient's E.164 number, so every
+ * app must normalize a number to the same E.164 string before hashing it. Recipients prove the
+ * number is theirs to a phone verifier by SMS, so only mobile ranges are accepted.
+ */
+
+import { createHash } from 'node:crypto';
+import { StackSendError } from './errors.ts';
+
+// Mirrors the (string-ascii 16) phone argument and (buff 32) salt of get-phone-hash
+export const MAX_PHONE_LENGTH = 16;
+export const PHONE_SALT_BYTES = 32;
+
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 code */
+  code: string;
+  name: string;
+  /** Country calling code without the leading +, e.g. "254" */
+  callingCode: string;
+  /** Prefix dialled before national numbers within the country, null if there is none */
+  trunkPrefix: string | null;
+  /** National significant numbers of mobile lines */
+  mobilePattern: RegExp;
+}
+
+export interface PhoneNumber {
+  /** E.164 form, e.g. "+254712345678" */
+  e164: string;
+  country: PhoneCountry;
+  /** Number after the calling code, without trunk prefix */
+  nationalNumber: string;
+}
+
+/**
+ * Countries phone remittances can be sent to, covering the currencies of CURRENCIES
+ *
+ * The US and Canada share calling code 1; international numbers starting +1 resolve to the US.
+ */
+export const PHONE_COUNTRIES: Readonly<Record<string, PhoneCountry>> = {
+  US: {
+    code: 'US',
+    name: 'United States',
+    callingCode: '1',
+    trunkPrefix: '1',
+    mobilePattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+  },
+  CA: {
+    code: 'CA',
+    name: 'Canada',
+    callingCode: '1',
+    trunkPrefix: '1',
+    mobilePattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+  },
+  GB: {
+    code: 'GB',
+    name: 'United Kingdom',
+    callingCode: '44',
+    trunkPrefix: '0',
+    mobilePattern: /^7\d{9}$/,
+  },
+  FR: {
+    code: 'FR',
+    name: 'France',
+    callingCode: '33',
+    trunkPrefix: '0',
+    mobilePattern: /^[67]\d{8}$/,
+  },
+  DE: {
+    code: 'DE',
+    name: 'Germany',
+    callingCode: '49',
+    trunkPrefix: '0',
+    mobilePattern: /^1[5-7]\d{8,9}$/,
+  },
+  AE: {
+    code: 'AE',
+    name: 'United Arab Emirates',
+    callingCode: '971',
+    trunkPrefix: '0',
+    mobilePattern: /^5[024568]\d{7}$/,
+  },
+  KE: {
+    code: 'KE',
+    name: 'Kenya',
+    callingCode: '254',
+    trunkPrefix: '0',
+    mobilePattern: /^(?:7\d|1[01])\d{7}$/,
+  },
+  NG: {
+    code: 'NG',
+    name: 'Nigeria',
+    callingCode: '234',
+    trunkPrefix: '0',
+    mobilePattern: /^[789][01]\d{8}$/,
+  },
+  GH: {
+    code: 'GH',
+    name: 'Ghana',
+    callingCode: '233',
+    trunkPrefix: '0',
+    mobilePattern: /^[25]\d{8}$/,
+  },
+  UG: {
+    code: 'UG',
+    name: 'Uganda',
+    callingCode: '256',
+    trunkPrefix: '0',
+    mobilePattern: /^7\d{8}$/,
+  },
+  TZ: {
+    code: 'TZ',
+    name: 'Tanzania',
+    callingCode: '255',
+    trunkPrefix: '0',
+    mobilePattern: /^[67]\d{8}$/,
+  },
+  ZA: {
+    code: 'ZA',
+    name: 'South Africa',
+    callingCode: '27',
+    trunkPrefix: '0',
+    mobilePattern: /^[6-8]\d{8}$/,
+  },
+  SN: {
+    code: 'SN',
+    name: 'Senegal',
+    callingCode: '221',
+    trunkPrefix: null,
+    mobilePattern: /^7[05-8]\d{7}$/,
+  },
+  // Ivorian numbers keep their leading 0 after the calling code
+  CI: {
+    code: 'CI',
+    name: "Côte d'Ivoire",
+    callingCode: '225',
+    trunkPrefix: null,
+    mobilePattern: /^0[157]\d{8}$/,
+  },
+  IN: {
+    code: 'IN',
+    name: 'India',
+    callingCode: '91',
+    trunkPrefix: '0',
+    mobilePattern: /^[6-9]\d{9}$/,
+  },
+  PH: {
+    code: 'PH',
+    name: 'Philippines',
+    callingCode: '63',
+    trunkPrefix: '0',
+    mobilePattern: /^9\d{9}$/,
+  },
+  MX: {
+    code: 'MX',
+    name: 'Mexico',
+    callingCode: '52',
+    trunkPrefix: null,
+    mobilePattern: /^[1-9]\d{9}$/,
+  },
+};
+
+/**
+ * A phone number could not be parsed or is not a supported mobile number
+ */
+export class PhoneNumberError extends StackSendError {
+  override readonly name = 'PhoneNumberError';
+}
+
+/**
+ * Parse a phone number as typed by a user
+ * @param input International ("+254 712 345 678", "00254…") or national ("0712 345 678") form
+ * @param defaultCountry ISO code the national form is dialled in, e.g. "KE"
+ * @throws PhoneNumberError if the number is malformed, from an unsupported country or not mobile
+ */
+export function parsePhoneNumber(input: string, defaultCountry?: string): PhoneNumber {
+  const compact = input.trim().replace(/[\s().\-/]/g, '');
+  const match = /^(\+|00)?(\d+)$/.exec(compact);
+  if (!match?.[2]) throw new PhoneNumberError(`Malformed phone number: "${input}"`);
+  const digits = match[2];
+
+  if (match[1]) {
+    const country = Object.values(PHONE_COUNTRIES).find(
+      candidate =>
+        digits.startsWith(candidate.callingCode) &&
+        mobileNumber(candidate, digits.slice(candidate.callingCode.length)) !== null
+    );
+    if (!country) throw new PhoneNumberError(`Not a supported mobile number: "${input}"`);
+    return phoneNumber(country, digits.slice(country.callingCode.length));
+  }
+
+  if (defaultCountry === undefined) {
+    throw new PhoneNumberError(`National number needs a country: "${input}"`);
+  }
+  const country = PHONE_COUNTRIES[defaultCountry];
+  if (!country) throw new PhoneNumberError(`Unsupported country ${defaultCountry}`);
+  return phoneNumber(country, digits, input);
+}
+
+/**
+ * Normalize a phone number to the E.164 form phone hashes are computed from
+ * @throws PhoneNumberError under the same conditions as parsePhoneNumber
+ */
+export function normalizePhoneNumber(input: string, defaultCountry?: string): string {
+  return parsePhoneNumber(input, defaultCountry).e164;
+}
+
+export function isValidPhoneNumber(input: string, defaultCountry?: string): boolean {
+  try {
+    parsePhoneNumber(input, defaultCountry);
+    return true;
+  } catch (error) {
+    if (error instanceof PhoneNumberError) return false;
+    throw error;
+  }
+}
+
+/**
+ * Mirror get-phone-hash: sha256 of the salt followed by the phone number's consensus serialization
+ * @param phone Normalized E.164 number, see normalizePhoneNumber
+ * @param salt Hex-encoded 32-byte salt of the phone verifier
+ * @returns Hex-encoded phone hash
+ * @throws PhoneNumberError if `phone` is not a supported number in normalized form
+ * @throws RangeError if the salt is not 32 bytes
+ */
+export function hashPhoneNumber(phone: string, salt: string): string {
+  if (normalizePhoneNumber(phone) !== phone) {
+    throw new PhoneNumberError(`Phone number must be in normalized E.164 form: "${phone}"`);
+  }
+  if (!new RegExp(`^[0-9a-fA-F]{${PHONE_SALT_BYTES * 2}}$`).test(salt)) {
+    throw new RangeError(`Phone salt must be ${PHONE_SALT_BYTES} bytes of hex`);
+  }
+
+  // Consensus serialization of a string-ascii: type 0x0d, 4-byte big-endian length, the bytes
+  const serialized = new Uint8Array(5 + phone.length);
+  serialized[0] = 0x0d;
+  new DataView(serialized.buffer).setUint32(1, phone.length);
+  for (let index = 0; index < phone.length; index++) {
+    serialized[5 + index] = phone.charCodeAt(index);
+  }
+  return createHash('sha256').update(salt, 'hex').update(serialized).digest('hex');
+}
+
+// A national number may still carry the trunk prefix, e.g. "+44 07911 123456"
+function mobileNumber(country: PhoneCountry, national: string): string | null {
+  if (country.mobilePattern.test(national)) return national;
+  const { trunkPrefix } = country;
+  if (trunkPrefix !== null && national.startsWith(trunkPrefix)) {
+    const stripped = national.slice(trunkPrefix.length);
+    if (country.mobilePattern.test(stripped)) return stripped;
+  }
+  return null;
+}
+
+function phoneNumber(country: PhoneCountry, national: string, input = national): PhoneNumber {
+  const nationalNumber = mobileNumber(country, national);
+  if (nationalNumber === null) {
+    throw new PhoneNumberError(`Not a ${country.name} mobile number: "${input}"`);
+  }
+  const e164 = `+${country.callingCode}${nationalNumber}`;
+  if (e164.length > MAX_PHONE_LENGTH) throw new PhoneNumberError(`Phone number too long: ${e164}`);
+  return { e164, country, nationalNumber };
+}
@@ -0,0 +1,260 @@
+/**
+ * Deny-mode post-conditions for stacksend-escrow calls
+ *
+ * Post-conditions constrain what each principal sends, not who receives it, so a
+ * call that pays several principals is pinned by the exact total leaving the
+ * escrow. The individual payments are returned next to the post-conditions so
+ * wallets can show them before signing.
+ */
+
+import { Pc, PostConditionMode, type ClarityValue, type PostCondition } from '@stacks/transactions';
+import { decodePrincipal, decodeUInt } from './clarity.ts';
+import type { EscrowContractCall } from './escrow-client.ts';
+import { REFUND_PAGE_SIZE } from './escrow-model.ts';
+import { quoteFee, splitPayouts, type QuoteSource } from './quote.ts';
+import type { Contribution, Schedule } from './types.ts';
+
+/**
+ * Read-only escrow access needed to derive post-conditions, implemented by EscrowClient
+ */
+export interface PostConditionSource extends QuoteSource {
+  getContribution(remittanceId: bigint, contributor: string): Promise<Contribution | null>;
+  getContributors(remittanceId: bigint, offset?: bigint, limit?: bigint): Promise<string[]>;
+  getRefundProgress(remittanceId: bigint): Promise<{ nextIndex: bigint; pendingCount: bigint }>;
+  getSchedule(scheduleId: bigint): Promise<Schedule | null>;
+  getTokenAssetName(token: string): Promise<string>;
+}
+
+/** One transfer the call is expected to make */
+export interface ExpectedTransfer {
+  sender: string;
+  recipient: string;
+  amount: bigint;
+}
+
+/**
+ * Options to spread into `EscrowClient.submit` or a wallet's contract call request
+ */
+export interface PostConditionPlan {
+  postConditionMode: PostConditionMode.Deny;
+  postConditions: PostCondition[];
+  /** Transfers the call makes if the chain state does not change before it is mined */
+  transfers: ExpectedTransfer[];
+}
+
+// Asset moved by a call: STX, or a SIP-010 contract and its fungible token name
+type Asset = { token: null } | { token: string; assetName: string };
+
+export class PostConditionBuilder {
+  /**
+   * @param escrowContract Fully qualified escrow principal, e.g. `SP….stacksend-escrow`
+   */
+  constructor(
+    private readonly source: PostConditionSource,
+    private readonly escrowContract: string
+  ) {}
+
+  /**
+   * Build deny-mode post-conditions for a call from the current contract state
+   *
+   * Amounts read from the chain (refunds, release totals) are exact for the
+   * current state; if it changes before the call is mined, the transaction
+   * aborts instead of moving different amounts.
+   * @param call Call built by EscrowClient
+   * @param sender Principal that will sign the call
+   */
+  async forCall(call: EscrowContractCall, sender: string): Promise<PostConditionPlan> {
+    const args = call.functionArgs;
+    switch (call.functionName) {
+      case 'create-remittance':
+      case 'create-token-remittance':
+      case 'create-fiat-remittance':
+      case 'create-phone-remittance':
+      case 'create-claimable-remittance':
+      case 'create-split-remittance':
+      case 'bind-phone':
+      case 'register-passkey':
+      case 'refresh-funding':
+      case 'trigger-schedule':
+      case 'pause-contract':
+      case 'unpause-contract':
+      case 'update-platform-fee':
+      case 'set-token-allowed':
+      case 'set-phone-verifier':
+        // trigger-schedule funds a period from the deposit the escrow already holds
+        return this.plan(await this.asset(null), []);
+
+      case 'contribute':
+        return this.sent(sender, this.escrowContract, uintArg(args, 1), null);
+      case 'contribute-token':
+        return this.sent(sender, this.escrowContract, uintArg(args, 2), principalArg(args, 1));
+
+      case 'withdraw-contribution':
+        return this.sent(this.escrowContract, sender, uintArg(args, 1), null);
+      case 'withdraw-token-contribution':
+        return this.sent(this.escrowContract, sender, uintArg(args, 2), principalArg(args, 1));
+
+      case 'create-schedule':
+        return this.sent(sender, this.escrowContract, uintArg(args, 7), null);
+      case 'fund-schedule':
+        return this.sent(sender, this.escrowContract, uintArg(args, 1), null);
+      case 'withdraw-schedule-deposit':
+        return this.sent(this.escrowContract, sender, uintArg(args, 1), null);
+      case 'cancel-schedule': {
+        const schedule = await this.source.getSchedule(uintArg(args, 0));
+        return this.sent(this.escrowContract, sender, schedule?.deposit ?? 0n, null);
+      }
+
+      case 'release-funds':
+      case 'release-funds-with-passkey':
+        return this.release(uintArg(args, 0), sender, null);
+      case 'release-token-funds':
+      case 'release-token-funds-with-passkey':
+        return this.release(uintArg(args, 0), sender, principalArg(args, 1));
+      case 'claim-remittance':
+        return this.release(uintArg(args, 0), principalArg(args, 2), null);
+
+      case 'cancel-remittance':
+      case 'cancel-remittance-with-passkey':
+        return this.refundPage(uintArg(args, 0), 0n, null);
+      case 'cancel-token-remittance':
+      case 'cancel-token-remittance-with-passkey':
+        return this.refundPage(uintArg(args, 0), 0n, principalArg(args, 1));
+
+      case 'process-refunds':
+      case 'process-token-refunds': {
+        const remittanceId = uintArg(args, 0);
+        const { nextIndex } = await this.source.getRefundProgress(remittanceId);
+        const token = call.functionName === 'process-token-refunds' ? principalArg(args, 1) : null;
+        return this.refundPage(remittanceId, nextIndex, token);
+      }
+
+      case 'claim-refund':
+      case 'claim-token-refund': {
+        const remittanceId = uintArg(args, 0);
+        const contribution = await this.source.getContribution(remittanceId, sender);
+        const token = call.functionName === 'claim-token-refund' ? principalArg(args, 1) : null;
+        return this.sent(this.escrowContract, sender, contribution?.amount ?? 0n, token);
+      }
+
+      case 'emergency-withdraw':
+        return this.sent(this.escrowContract, principalArg(args, 1), uintArg(args, 0), null);
+      case 'emergency-withdraw-token':
+        return this.sent(
+          this.escrowContract,
+          principalArg(args, 2),
+          uintArg(args, 1),
+          principalArg(args, 0)
+        );
+    }
+  }
+
+  // release-funds sends the net amount to the recipient, or its shares to the recipients of a
+  // split remittance, then the fee to the owner
+  // A phone remittance pays the principal bound to its hash, which has to be the sender,
+  // and a claimable remittance the principal its claim signature names; both are passed as `recipient`
+  private async release(
+    remittanceId: bigint,
+    recipient: string,
+    token: string | null
+  ): Promise<PostConditionPlan> {
+    const [remittance, splits, feeBps, asset] = await Promise.all([
+      this.source.getRemittance(remittanceId),
+      this.source.getRemittanceSplits(remittanceId),
+      this.source.getPlatformFee(),
+      this.asset(token),
+    ]);
+    if (!remittance) return this.plan(asset, []);
+
+    const { netAmount, platformFee } = quoteFee(remittance.totalRaised, feeBps);
+    const owner = this.escrowContract.split('.')[0] ?? this.escrowContract;
+    const payouts = splits
+      ? splitPayouts(netAmount, splits)
+      : [
+          {
+            recipient:
+              remittance.phoneHash === null && remittance.claimHash === null
+                ? remittance.recipient
+                : recipient,
+            amount: netAmount,
+          },
+        ];
+    return this.plan(asset, [
+      ...payouts.map(payout => ({
+        sender: this.escrowContract,
+        recipient: payout.recipient,
+        amount: payout.amount,
+      })),
+      { sender: this.escrowContract, recipient: owner, amount: platformFee },
+    ]);
+  }
+
+  // Mirrors refund-page: contributors already refunded or claimed are skipped
+  private async refundPage(
+    remittanceId: bigint,
+    start: bigint,
+    token: string | null
+  ): Promise<PostConditionPlan> {
+    const [contributors, asset] = await Promise.all([
+      this.source.getContributors(remittanceId, start, REFUND_PAGE_SIZE),
+      this.asset(token),
+    ]);
+    const contributions = await Promise.all(
+      contributors.map(contributor => this.source.getContribution(remittanceId, contributor))
+    );
+    return this.plan(
+      asset,
+      contributors.map((contributor, index) => ({
+        sender: this.escrowContract,
+        recipient: contributor,
+        amount: contributions[index]?.amount ?? 0n,
+      }))
+    );
+  }
+
+  private async sent(
+    sender: string,
+    recipient: string,
+    amount: bigint,
+    token: string | null
+  ): Promise<PostConditionPlan> {
+    return this.plan(await this.asset(token), [{ sender, recipient, amount }]);
+  }
+
+  private async asset(token: string | null): Promise<Asset> {
+    return token === null
+      ? { token }
+      : { token, assetName: await this.source.getTokenAssetName(token) };
+  }
+
+  // One exact post-condition per sending principal, so deny mode rejects any other transfer
+  private plan(asset: Asset, planned: ExpectedTransfer[]): PostConditionPlan {
+    const transfers = planned.filter(transfer => transfer.amount > 0n);
+    const totals = new Map<string, bigint>();
+    for (const transfer of transfers) {
+      totals.set(transfer.sender, (totals.get(transfer.sender) ?? 0n) + transfer.amount);
+    }
+
+    const postConditions = [...totals].map(([sender, total]): PostCondition => {
+      const condition = Pc.principal(sender).willSendEq(total);
+      return asset.token === null
+        ? condition.ustx()
+        : condition.ft(asset.token as `${string}.${string}`, asset.assetName);
+    });
+    return { postConditionMode: PostConditionMode.Deny, postConditions, transfers };
+  }
+}
+
+function arg(args: ClarityValue[], index: number): ClarityValue {
+  const value = args[index];
+  if (value === undefined) throw new TypeError(`Missing argument ${index}`);
+  return value;
+}
+
+function uintArg(args: ClarityValue[], index: number): bigint {
+  return decodeUInt(arg(args, index));
+}
+
+function principalArg(args: ClarityValue[], index: number): string {
+  return decodePrincipal(arg(args, index));
+}
@@ -0,0 +1,230 @@
+/**
+ * c32check encoding and validation of Stacks principals
+ *
+ * Follows the c32check reference implementation: Crockford base-32 with a
+ * 4-byte double-SHA256 checksum over the version byte and hash160.
+ */
+
+import { createHash } from 'node:crypto';
+
+const C32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const HASH160_BYTES = 20;
+const CHECKSUM_BYTES = 4;
+
+// Contract names: a letter followed by letters, digits, '-' or '_', 40 characters at most
+const CONTRACT_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+export const MAX_CONTRACT_NAME_LENGTH = 40;
+
+export type NetworkName = 'mainnet' | 'testnet' | 'devnet' | 'mocknet';
+
+export const ADDRESS_VERSIONS = {
+  mainnet: { singleSig: 22, multiSig: 20 },
+  testnet: { singleSig: 26, multiSig: 21 },
+} as const;
+
+export type PrincipalErrorReason =
+  | 'empty'
+  | 'invalid-prefix'
+  | 'invalid-character'
+  | 'invalid-length'
+  | 'invalid-checksum'
+  | 'non-canonical'
+  | 'wrong-network'
+  | 'invalid-contract-name'
+  | 'same-as-sender';
+
+export interface ParsedPrincipal {
+  /** Standard principal part, without the contract name */
+  address: string;
+  version: number;
+  /** Hex-encoded hash160 of the public key or script */
+  hash160: string;
+  contractName: string | null;
+}
+
+export type PrincipalValidation =
+  | { valid: true; principal: ParsedPrincipal }
+  | { valid: false; reason: PrincipalErrorReason; message: string };
+
+/**
+ * Decoding failure carrying the reason reported by parsePrincipal
+ */
+export class C32Error extends Error {
+  override readonly name = 'C32Error';
+
+  constructor(
+    readonly reason: PrincipalErrorReason,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Encode bytes as c32, keeping one '0' per leading zero byte
+ */
+export function c32encode(bytes: Uint8Array): string {
+  const leadingZeros = bytes.findIndex(byte => byte !== 0);
+  if (leadingZeros === -1) return '0'.repeat(bytes.length);
+
+  let value = BigInt(`0x${toHex(bytes.subarray(leadingZeros))}`);
+  let digits = '';
+  while (value > 0n) {
+    digits = C32_ALPHABET[Number(value % 32n)] + digits;
+    value /= 32n;
+  }
+  return '0'.repeat(leadingZeros) + digits;
+}
+
+/**
+ * Decode a c32 string, keeping one zero byte per leading '0'
+ */
+export function c32decode(input: string): Uint8Array {
+  let value = 0n;
+  for (const char of input) {
+    const digit = C32_ALPHABET.indexOf(char);
+    if (digit === -1) throw new C32Error('invalid-character', `Invalid c32 character "${char}"`);
+    value = value * 32n + BigInt(digit);
+  }
+
+  const leadingZeros = /^0*/.exec(input)?.[0].length ?? 0;
+  let hex = value === 0n ? '' : value.toString(16);
+  if (hex.length % 2) hex = `0${hex}`;
+  return fromHex('00'.repeat(leadingZeros) + hex);
+}
+
+/**
+ * Encode a version byte and payload with a c32check checksum
+ */
+export function c32checkEncode(version: number, data: Uint8Array): string {
+  const checksum = c32checksum(version, data);
+  const payload = new Uint8Array(data.length + CHECKSUM_BYTES);
+  payload.set(data);
+  payload.set(checksum, data.length);
+  return C32_ALPHABET[version] + c32encode(payload);
+}
+
+/**
+ * Decode and verify a c32check string
+ */
+export function c32checkDecode(input: string): { version: number; data: Uint8Array } {
+  if (input.length === 0) throw new C32Error('invalid-length', 'c32check string is empty');
+  const version = C32_ALPHABET.indexOf(input[0] ?? '');
+  if (version === -1) throw new C32Error('invalid-character', 'Invalid c32check version');
+
+  const payload = c32decode(input.slice(1));
+  if (payload.length < CHECKSUM_BYTES) {
+    throw new C32Error('invalid-length', 'c32check payload is too short');
+  }
+  const data = payload.subarray(0, payload.length - CHECKSUM_BYTES);
+  const checksum = payload.subarray(payload.length - CHECKSUM_BYTES);
+  if (toHex(c32checksum(version, data)) !== toHex(checksum)) {
+    throw new C32Error('invalid-checksum', 'c32check checksum mismatch');
+  }
+  return { version, data };
+}
+
+/**
+ * Build a standard principal from a version byte and hash160
+ */
+export function c32address(version: number, hash160: string): string {
+  return `S${c32checkEncode(version, fromHex(hash160))}`;
+}
+
+/**
+ * Parse a standard (`SP…`) or contract (`SP….name`) principal
+ * @param value Principal as entered by a user
+ * @param network Network whose version bytes are accepted
+ * @returns Structured result with the reason if the principal is invalid
+ */
+export function parsePrincipal(value: string, network: NetworkName): PrincipalValidation {
+  if (value.length === 0) return invalid('empty', 'Principal is empty');
+
+  const [address = '', contractName, ...rest] = value.split('.');
+  if (rest.length > 0) return invalid('invalid-contract-name', 'Principal has more than one "."');
+  if (contractName !== undefined) {
+    if (contractName.length === 0 || contractName.length > MAX_CONTRACT_NAME_LENGTH) {
+      return invalid(
+        'invalid-contract-name',
+        `Contract name must be 1 to ${MAX_CONTRACT_NAME_LENGTH} characters`
+      );
+    }
+    if (!CONTRACT_NAME_PATTERN.test(contractName)) {
+      return invalid(
+        'invalid-contract-name',
+        'Contract name must start with a letter and contain only letters, digits, "-" or "_"'
+      );
+    }
+  }
+
+  if (!address.startsWith('S')) return invalid('invalid-prefix', 'Address must start with "S"');
+
+  let decoded: { version: number; data: Uint8Array };
+  try {
+    decoded = c32checkDecode(address.slice(1));
+  } catch (error) {
+    if (error instanceof C32Error) return invalid(error.reason, error.message);
+    throw error;
+  }
+
+  if (decoded.data.length !== HASH160_BYTES) {
+    return invalid('invalid-length', `Address must encode a ${HASH160_BYTES}-byte hash`);
+  }
+  const hash160 = toHex(decoded.data);
+  if (c32address(decoded.version, hash160) !== address) {
+    return invalid('non-canonical', 'Address is not in canonical c32check form');
+  }
+
+  const versions: readonly number[] = Object.values(ADDRESS_VERSIONS[versionNetwork(network)]);
+  if (!versions.includes(decoded.version)) {
+    return invalid('wrong-network', `Address is not a ${network} address`);
+  }
+
+  return {
+    valid: true,
+    principal: { address, version: decoded.version, hash160, contractName: contractName ?? null },
+  };
+}
+
+/**
+ * Validate a create-remittance recipient before submitting the transaction
+ * @param recipient Recipient principal entered by the user
+ * @param sender Address that will sign create-remittance
+ * @returns Same as parsePrincipal, plus 'same-as-sender' where the contract returns err-invalid-recipient
+ */
+export function validateRecipient(
+  recipient: string,
+  sender: string,
+  network: NetworkName
+): PrincipalValidation {
+  const result = parsePrincipal(recipient, network);
+  if (result.valid && recipient === sender) {
+    return invalid('same-as-sender', 'Recipient cannot be the sender');
+  }
+  return result;
+}
+
+function versionNetwork(network: NetworkName): keyof typeof ADDRESS_VERSIONS {
+  return network === 'mainnet' ? 'mainnet' : 'testnet';
+}
+
+function invalid(reason: PrincipalErrorReason, message: string): PrincipalValidation {
+  return { valid: false, reason, message };
+}
+
+function c32checksum(version: number, data: Uint8Array): Uint8Array {
+  const preimage = new Uint8Array(data.length + 1);
+  preimage[0] = version;
+  preimage.set(data, 1);
+  const first = createHash('sha256').update(preimage).digest();
+  return new Uint8Array(createHash('sha256').update(first).digest()).subarray(0, CHECKSUM_BYTES);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex)) throw new TypeError(`Invalid hex string "${hex}"`);
+  return Uint8Array.from(hex.match(/../g) ?? [], pair => parseInt(pair, 16));
+}
@@ -0,0 +1,602 @@
+/**
+ * Random call sequences, invariants and shrinking for the StackSend property tests
+ *
+ * Scenarios are lists of blocks of abstract actions. Actions refer to accounts and
+ * remittances by index and are resolved against the reference model at the start
+ * of each block, so removing actions while shrinking keeps the rest meaningful.
+ * Deadlines are offsets from the block time the scenario starts at, so a scenario
+ * replayed later, on the same chain or another one, keeps its timing.
+ */
+
+import { MAX_RATE_AGE, type EscrowCall, type EscrowModel } from './escrow-model.ts';
+import { isSupportedPair } from './pair-registry.ts';
+import { MAX_PLATFORM_FEE_BPS, MAX_RATE, MIN_RATE } from './quote.ts';
+import type { Remittance } from './types.ts';
+
+// Mirrors max-quorum in stacksend-oracle.clar
+export const MAX_QUORUM = 15n;
+
+export interface PropertyAccounts {
+  owner: string;
+  users: string[];
+}
+
+export type EscrowAction =
+  | {
+      kind: 'create';
+      creator: number;
+      recipient: number;
+      targetAmount: bigint;
+      /** Seconds after the scenario's start time */
+      deadlineOffset: bigint;
+    }
+  | { kind: 'contribute'; contributor: number; remittance: number; amount: bigint }
+  | { kind: 'withdraw'; remittance: number; caller: number | 'contributor'; amount: bigint }
+  | { kind: 'release'; remittance: number; caller: number | 'recipient' }
+  | { kind: 'cancel'; remittance: number; caller: number | 'creator' }
+  | { kind: 'claim'; remittance: number; caller: number | 'contributor' }
+  | { kind: 'pause' | 'unpause'; caller: number | 'owner' }
+  | { kind: 'fee'; feeBps: bigint; caller: number | 'owner' };
+
+export type OracleAction =
+  | { kind: 'update'; caller: number | 'owner'; pair: string; rate: bigint }
+  | { kind: 'authorize' | 'deauthorize'; caller: number | 'owner'; updater: number }
+  | { kind: 'pause' | 'unpause'; caller: number | 'owner' }
+  | { kind: 'quorum'; caller: number | 'owner'; quorum: bigint };
+
+/** Blocks of actions; an empty block just advances the chain */
+export type Scenario<A> = A[][];
+
+export interface ScenarioOptions {
+  blocks: number;
+  maxActionsPerBlock: number;
+  users: number;
+}
+
+/**
+ * Escrow state as seen through the read-only functions
+ */
+export interface EscrowStateView {
+  /** STX held by the escrow; token remittances are not part of the balance check */
+  contractBalance: bigint;
+  platformFeeBps: bigint;
+  remittances: Map<bigint, Remittance>;
+  /** Contribution amounts per remittance and contributor */
+  contributions: Map<bigint, Map<string, bigint>>;
+}
+
+export interface ScenarioFailure {
+  block: number;
+  violations: string[];
+}
+
+// Seeded random numbers
+
+/**
+ * Deterministic mulberry32 generator so a failing seed can be replayed
+ */
+export function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (max: number) => Math.floor(next() * max),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)] as T,
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+// Generators
+
+const AMOUNTS = [0n, 1n, 199n, 10_000n, 250_000n, 1_000_000n, 5_000_000n];
+const FEES = [0n, 1n, 50n, 250n, MAX_PLATFORM_FEE_BPS, MAX_PLATFORM_FEE_BPS + 1n];
+export const ORACLE_PAIRS = ['USD-KES', 'USD-NGN', 'EUR-GHS', ''];
+const RATES = [0n, MIN_RATE - 1n, MIN_RATE, 15_050_000_000n, MAX_RATE, MAX_RATE + 1n];
+const QUORUMS = [0n, 1n, 1n, 2n, 3n, MAX_QUORUM + 1n];
+
+/**
+ * Generate a random escrow scenario
+ * @param deadlineOffsets Deadlines to draw from, in seconds after the scenario starts; include
+ *   passed and out-of-range values
+ */
+export function generateEscrowScenario(
+  seed: number,
+  options: ScenarioOptions,
+  deadlineOffsets: readonly bigint[]
+): Scenario<EscrowAction> {
+  const random = createRandom(seed);
+  return generateBlocks(random, options, () => {
+    const user = () => random.int(options.users);
+    const remittance = () => random.int(8);
+    switch (random.int(14)) {
+      case 0:
+      case 1: {
+        // Mostly pay someone else so creates are not dominated by err-invalid-recipient
+        const creator = user();
+        const recipient = random.chance(0.9)
+          ? (creator + 1 + random.int(options.users - 1)) % options.users
+          : creator;
+        return {
+          kind: 'create',
+          creator,
+          recipient,
+          targetAmount: random.pick(AMOUNTS),
+          deadlineOffset: random.pick(deadlineOffsets),
+        };
+      }
+      case 2:
+      case 3:
+      case 4:
+      case 5:
+        return {
+          kind: 'contribute',
+          contributor: user(),
+          remittance: remittance(),
+          amount: random.pick(AMOUNTS),
+        };
+      case 6:
+      case 7:
+        return {
+          kind: 'release',
+          remittance: remittance(),
+          caller: privileged(random, user, 'recipient'),
+        };
+      case 8:
+        return {
+          kind: 'cancel',
+          remittance: remittance(),
+          caller: privileged(random, user, 'creator'),
+        };
+      case 9:
+        return {
+          kind: 'claim',
+          remittance: remittance(),
+          caller: privileged(random, user, 'contributor'),
+        };
+      case 10:
+        return {
+          kind: 'withdraw',
+          remittance: remittance(),
+          caller: privileged(random, user, 'contributor'),
+          amount: random.pick(AMOUNTS),
+        };
+      case 11:
+        // Pause rarely so most of the run exercises an unpaused contract
+        return {
+          kind: random.chance(0.3) ? 'pause' : 'unpause',
+          caller: privileged(random, user, 'owner'),
+        };
+      default:
+        return {
+          kind: 'fee',
+          feeBps: random.pick(FEES),
+          caller: privileged(random, user, 'owner'),
+        };
+    }
+  });
+}
+
+/**
+ * Generate a random oracle scenario
+ */
+export function generateOracleScenario(
+  seed: number,
+  options: ScenarioOptions
+): Scenario<OracleAction> {
+  const random = createRandom(seed);
+  return generateBlocks(random, options, () => {
+    const user = () => random.int(options.users);
+    switch (random.int(7)) {
+      case 0:
+      case 1:
+      case 2:
+        return {
+          kind: 'update',
+          caller: privileged(random, user, 'owner'),
+          pair: random.pick(ORACLE_PAIRS),
+          rate: random.pick(RATES),
+        };
+      case 3:
+      case 4:
+        return {
+          kind: random.pick(['authorize', 'deauthorize'] as const),
+          caller: privileged(random, user, 'owner'),
+          updater: user(),
+        };
+      case 5:
+        return {
+          kind: 'quorum',
+          caller: privileged(random, user, 'owner'),
+          quorum: random.pick(QUORUMS),
+        };
+      default:
+        return {
+          kind: random.pick(['pause', 'unpause'] as const),
+          caller: privileged(random, user, 'owner'),
+        };
+    }
+  });
+}
+
+function generateBlocks<A>(random: Random, options: ScenarioOptions, action: () => A): A[][] {
+  return Array.from({ length: options.blocks }, () =>
+    Array.from({ length: random.int(options.maxActionsPerBlock + 1) }, action)
+  );
+}
+
+// Mostly use the principal allowed to make the call, sometimes a random user
+function privileged<R extends string>(random: Random, user: () => number, role: R): number | R {
+  return random.chance(0.8) ? role : user();
+}
+
+// Resolution against the model
+
+/**
+ * Turn escrow actions into concrete calls using the model state at the start of a block
+ * @param startTime stacks-block-time of the chain tip before the scenario's first block
+ * @returns One call per action, in order
+ */
+export function resolveEscrowBlock(
+  actions: EscrowAction[],
+  model: EscrowModel,
+  accounts: PropertyAccounts,
+  startTime: bigint
+): EscrowCall[] {
+  const count = model.getRemittanceCount();
+  const user = (index: number) => accounts.users[index % accounts.users.length] ?? accounts.owner;
+  const remittanceId = (index: number) => (count === 0n ? 0n : BigInt(index) % count);
+
+  return actions.map((action): EscrowCall => {
+    switch (action.kind) {
+      case 'create':
+        return {
+          fn: 'create-remittance',
+          sender: user(action.creator),
+          params: {
+            recipient: user(action.recipient),
+            targetAmount: action.targetAmount,
+            deadline: startTime + action.deadlineOffset,
+            description: 'Property test remittance',
+            currencyPair: 'USD-KES',
+          },
+        };
+      case 'contribute':
+        return {
+          fn: 'contribute',
+          sender: user(action.contributor),
+          remittanceId: remittanceId(action.remittance),
+          amount: action.amount,
+        };
+      case 'withdraw': {
+        const id = remittanceId(action.remittance);
+        const sender =
+          action.caller === 'contributor'
+            ? (model.getContributors(id)[0] ?? accounts.owner)
+            : user(action.caller);
+        return { fn: 'withdraw-contribution', sender, remittanceId: id, amount: action.amount };
+      }
+      case 'release': {
+        const id = remittanceId(action.remittance);
+        const sender =
+          action.caller === 'recipient'
+            ? (model.getRemittance(id)?.recipient ?? accounts.owner)
+            : user(action.caller);
+        return { fn: 'release-funds', sender, remittanceId: id };
+      }
+      case 'cancel': {
+        const id = remittanceId(action.remittance);
+        const sender =
+          action.caller === 'creator'
+            ? (model.getRemittance(id)?.creator ?? accounts.owner)
+            : user(action.caller);
+        return { fn: 'cancel-remittance', sender, remittanceId: id };
+      }
+      case 'claim': {
+        const id = remittanceId(action.remittance);
+        const sender =
+          action.caller === 'contributor'
+            ? (model.getContributors(id)[0] ?? accounts.owner)
+            : user(action.caller);
+        return { fn: 'claim-refund', sender, remittanceId: id };
+      }
+      case 'pause':
+      case 'unpause':
+        return {
+          fn: action.kind === 'pause' ? 'pause-contract' : 'unpause-contract',
+          sender: action.caller === 'owner' ? accounts.owner : user(action.caller),
+        };
+      case 'fee':
+        return {
+          fn: 'update-platform-fee',
+          sender: action.caller === 'owner' ? accounts.owner : user(action.caller),
+          newFeeBps: action.feeBps,
+        };
+    }
+  });
+}
+
+// Invariants
+
+/**
+ * Check the escrow invariants
+ * @param current State after a block
+ * @param previous State before the block, to check transitions
+ * @returns Human-readable violations, empty if all invariants hold
+ */
+export function checkEscrowInvariants(
+  current: EscrowStateView,
+  previous?: EscrowStateView
+): string[] {
+  const violations: string[] = [];
+  let escrowed = 0n;
+
+  current.remittances.forEach((remittance, id) => {
+    let contributed = 0n;
+    current.contributions.get(id)?.forEach(amount => (contributed += amount));
+
+    if (remittance.totalRaised !== contributed) {
+      violations.push(
+        `remittance ${id}: total-raised ${remittance.totalRaised} != sum of contributions ${contributed}`
+      );
+    }
+    // A fiat target moves with the oracle rate, so target-amount only bounds STX targets
+    const stxTarget = remittance.fiatTarget === null;
+    if (
+      stxTarget &&
+      remittance.status === 'active' &&
+      remittance.totalRaised >= remittance.targetAmount
+    ) {
+      violations.push(`remittance ${id}: active although target is reached`);
+    }
+    if (
+      stxTarget &&
+      remittance.status === 'funded' &&
+      remittance.totalRaised < remittance.targetAmount
+    ) {
+      violations.push(`remittance ${id}: funded although target is not reached`);
+    }
+    if (
+      stxTarget &&
+      remittance.status === 'expired' &&
+      remittance.totalRaised >= remittance.targetAmount
+    ) {
+      violations.push(`remittance ${id}: expired although target is reached`);
+    }
+    // Cancelled remittances keep contributions until their refund page is processed
+    if (remittance.status !== 'completed' && remittance.token === null) escrowed += contributed;
+
+    const before = previous?.remittances.get(id);
+    if (before && isTerminal(before) && before.status !== remittance.status) {
+      violations.push(
+        `remittance ${id}: left terminal status ${before.status} for ${remittance.status}`
+      );
+    }
+  });
+
+  if (current.contractBalance !== escrowed) {
+    violations.push(
+      `contract balance ${current.contractBalance} != unpaid STX contributions ${escrowed}`
+    );
+  }
+  if (current.platformFeeBps > MAX_PLATFORM_FEE_BPS) {
+    violations.push(`platform fee ${current.platformFeeBps} exceeds ${MAX_PLATFORM_FEE_BPS} bps`);
+  }
+  return violations;
+}
+
+function isTerminal(remittance: Remittance): boolean {
+  return remittance.status === 'completed' || remittance.status === 'cancelled';
+}
+
+// Oracle reference
+
+export type OracleCall =
+  | { fn: 'update-exchange-rate'; sender: string; pair: string; rate: bigint }
+  | { fn: 'add-authorized-updater' | 'remove-authorized-updater'; sender: string; updater: string }
+  | { fn: 'pause-oracle' | 'unpause-oracle'; sender: string }
+  | { fn: 'set-quorum'; sender: string; quorum: bigint };
+
+interface OracleRound {
+  roundId: bigint;
+  startedAt: bigint;
+  /** Submitted rate per updater */
+  submissions: Map<string, bigint>;
+}
+
+/**
+ * Minimal reference of stacksend-oracle returning Clarity result reprs
+ */
+export class OracleModel {
+  private active = true;
+  private quorum = 1n;
+  private readonly authorized = new Set<string>();
+  private readonly rounds = new Map<string, OracleRound>();
+  /** Published medians */
+  readonly rates = new Map<string, { rate: bigint; updater: string }>();
+
+  constructor(readonly owner: string) {}
+
+  isAuthorized(principal: string): boolean {
+    return principal === this.owner || this.authorized.has(principal);
+  }
+
+  /**
+   * @param time Value of stacks-block-time in the block that includes the call
+   */
+  apply(call: OracleCall, time: bigint): string {
+    switch (call.fn) {
+      case 'update-exchange-rate': {
+        if (!this.active || !this.isAuthorized(call.sender)) return '(err u204)';
+        if (!isSupportedPair(call.pair)) return '(err u205)';
+        if (call.rate < MIN_RATE || call.rate > MAX_RATE) return '(err u203)';
+        const round = this.openRound(call.pair, time);
+        if (round.submissions.has(call.sender)) return '(err u206)';
+        round.submissions.set(call.sender, call.rate);
+        if (BigInt(round.submissions.size) < this.quorum) return '(ok false)';
+
+        this.rates.set(call.pair, {
+          rate: medianRate([...round.submissions.values()]),
+          updater: call.sender,
+        });
+        this.rounds.set(call.pair, {
+          roundId: round.roundId + 1n,
+          startedAt: time,
+          submissions: new Map(),
+        });
+        return '(ok true)';
+      }
+      case 'set-quorum':
+        if (call.sender !== this.owner) return '(err u200)';
+        if (call.quorum < 1n || call.quorum > MAX_QUORUM) return '(err u207)';
+        this.quorum = call.quorum;
+        return '(ok true)';
+      case 'add-authorized-updater':
+      case 'remove-authorized-updater':
+        if (call.sender !== this.owner) return '(err u200)';
+        if (call.fn === 'add-authorized-updater') this.authorized.add(call.updater);
+        else this.authorized.delete(call.updater);
+        return '(ok true)';
+      case 'pause-oracle':
+      case 'unpause-oracle':
+        if (call.sender !== this.owner) return '(err u200)';
+        this.active = call.fn === 'unpause-oracle';
+        return '(ok true)';
+    }
+  }
+
+  // Mirrors open-round-id: a round that misses quorum for max-rate-age is abandoned
+  private openRound(pair: string, time: bigint): OracleRound {
+    const current = this.rounds.get(pair);
+    const expired =
+      current !== undefined &&
+      current.submissions.size > 0 &&
+      time - current.startedAt > MAX_RATE_AGE;
+    const round: OracleRound =
+      current === undefined || expired
+        ? { roundId: (current?.roundId ?? -1n) + 1n, startedAt: time, submissions: new Map() }
+        : current.submissions.size === 0
+          ? { ...current, startedAt: time }
+          : current;
+    this.rounds.set(pair, round);
+    return round;
+  }
+}
+
+// Mirrors median: an even count averages the two middle rates, rounding down
+function medianRate(rates: bigint[]): bigint {
+  const sorted = [...rates].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  const upper = sorted[middle] ?? 0n;
+  return sorted.length % 2 === 1 ? upper : ((sorted[middle - 1] ?? 0n) + upper) / 2n;
+}
+
+/**
+ * Turn oracle actions into concrete calls
+ */
+export function resolveOracleBlock(
+  actions: OracleAction[],
+  accounts: PropertyAccounts
+): OracleCall[] {
+  const principal = (caller: number | 'owner') =>
+    caller === 'owner'
+      ? accounts.owner
+      : (accounts.users[caller % accounts.users.length] ?? accounts.owner);
+
+  return actions.map((action): OracleCall => {
+    const sender = principal(action.caller);
+    switch (action.kind) {
+      case 'update':
+        return { fn: 'update-exchange-rate', sender, pair: action.pair, rate: action.rate };
+      case 'authorize':
+      case 'deauthorize':
+        return {
+          fn: action.kind === 'authorize' ? 'add-authorized-updater' : 'remove-authorized-updater',
+          sender,
+          updater: principal(action.updater),
+        };
+      case 'pause':
+      case 'unpause':
+        return { fn: action.kind === 'pause' ? 'pause-oracle' : 'unpause-oracle', sender };
+      case 'quorum':
+        return { fn: 'set-quorum', sender, quorum: action.quorum };
+    }
+  });
+}
+
+/**
+ * Check that every stored rate is within bounds and was written by an authorized updater
+ * @param stored Rates read from the chain
+ */
+export function checkOracleInvariants(
+  stored: Map<string, { rate: bigint; updater: string }>,
+  model: OracleModel
+): string[] {
+  const violations: string[] = [];
+  stored.forEach(({ rate, updater }, pair) => {
+    if (rate < MIN_RATE || rate > MAX_RATE) violations.push(`${pair}: rate ${rate} out of bounds`);
+    const expected = model.rates.get(pair);
+    if (!expected || expected.rate !== rate || expected.updater !== updater) {
+      violations.push(`${pair}: stored rate ${rate} from ${updater} was never accepted`);
+    }
+  });
+  model.rates.forEach((_, pair) => {
+    if (!stored.has(pair)) violations.push(`${pair}: accepted rate is missing on chain`);
+  });
+  return violations;
+}
+
+// Shrinking
+
+/**
+ * Shrink a failing scenario by removing blocks, then single actions, while it still fails
+ * @param scenario Failing scenario
+ * @param fails Replays a candidate and reports whether it still fails
+ * @returns A scenario where no single block or action can be removed
+ */
+export function shrinkScenario<A>(
+  scenario: Scenario<A>,
+  fails: (candidate: Scenario<A>) => boolean
+): Scenario<A> {
+  let current = scenario;
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (let block = current.length - 1; block >= 0; block--) {
+      const candidate = current.filter((_, index) => index !== block);
+      if (fails(candidate)) {
+        current = candidate;
+        progress = true;
+      }
+    }
+    for (let block = 0; block < current.length; block++) {
+      for (let action = (current[block]?.length ?? 0) - 1; action >= 0; action--) {
+        const candidate = current.map((actions, index) =>
+          index === block ? actions.filter((_, i) => i !== action) : actions
+        );
+        if (fails(candidate)) {
+          current = candidate;
+          progress = true;
+        }
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * Render a scenario as one line per block
+ */
+export function formatScenario<A>(scenario: Scenario<A>): string {
+  return scenario
+    .map(
+      (actions, block) =>
+        `block ${block}: ${actions.map(action => JSON.stringify(action, (_, v) => (typeof v === 'bigint' ? `${v}` : v))).join(', ') || '(empty)'}`
+    )
+    .join('\n');
+}
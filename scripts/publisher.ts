@@ -0,0 +1,451 @@
+/**
+ * Price-feed publisher for the stacksend-oracle contract
+ *
+ * A publisher polls a rate source, normalizes each quote to the oracle's 8-decimal fixed point
+ * and submits update-exchange-rate only when a rate moves past the deviation threshold or the
+ * last published rate reaches the heartbeat age, so pairs stay fresh without a transaction on
+ * every poll. Sources are pluggable; the file, HTTP, CSV replay and simulated sources below
+ * cover local runs against devnet.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import {
+  broadcastTransaction,
+  ClarityType,
+  Cl,
+  fetchCallReadOnlyFunction,
+  fetchNonce,
+  getAddressFromPrivateKey,
+  makeContractCall,
+  PostConditionMode,
+  type ClarityValue,
+} from '@stacks/transactions';
+import type { StacksNetwork, StacksNetworkName } from '@stacks/network';
+import { decodePrincipal, decodeTuple, decodeUInt, field } from './clarity.ts';
+import { ORACLE_CONTRACT_NAME } from './escrow-client.ts';
+import { StackSendError } from './errors.ts';
+import { MAX_RATE_AGE } from './escrow-model.ts';
+import { BASIS_POINTS, formatRate, MAX_RATE, MIN_RATE, RATE_DECIMALS } from './quote.ts';
+import type { RatePoint } from './rate-history.ts';
+
+export const DEFAULT_DEVIATION_BPS = 50n;
+export const DEFAULT_HEARTBEAT = 3_600n;
+export const DEFAULT_POLL_INTERVAL_MS = 30_000;
+
+/**
+ * A quote could not be normalized or is outside the oracle's rate bounds
+ */
+export class RateError extends StackSendError {
+  override readonly name = 'RateError';
+}
+
+/**
+ * One quote from a rate source
+ */
+export interface RateQuote {
+  /** Currency pair, e.g. "USD-KES" */
+  currencyPair: string;
+  /** Units of the quote currency per unit of the base currency, e.g. "150.25" */
+  rate: string | number;
+}
+
+export interface RateSource {
+  /** Label used in error messages */
+  readonly name: string;
+  /** Latest quotes; pairs the source has nothing for are left out */
+  fetchRates(): Promise<RateQuote[]>;
+}
+
+/**
+ * Convert a decimal rate to the oracle's 8-decimal fixed point
+ *
+ * Digits beyond the eighth decimal are rounded half up.
+ * @param input Decimal string or number, e.g. "150.25"
+ * @throws RateError if the input is not a plain decimal or is outside min-rate and max-rate
+ */
+export function normalizeRate(input: string | number): bigint {
+  const text = typeof input === 'number' ? input.toFixed(RATE_DECIMALS) : input.trim();
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match?.[1]) throw new RateError(`Invalid rate: "${input}"`);
+
+  const [, whole, fraction = ''] = match;
+  const digits = fraction.padEnd(RATE_DECIMALS + 1, '0');
+  let rate = BigInt(whole + digits.slice(0, RATE_DECIMALS));
+  if (Number(digits[RATE_DECIMALS]) >= 5) rate += 1n;
+
+  if (rate < MIN_RATE || rate > MAX_RATE) {
+    throw new RateError(`Rate ${input} is outside the oracle bounds`);
+  }
+  return rate;
+}
+
+export type PublishReason = 'initial' | 'deviation' | 'heartbeat';
+
+export interface PublishThresholds {
+  /** Move from the last published rate, in basis points, that triggers a submission */
+  deviationBps: bigint;
+  /** Age in seconds of the last published rate that triggers a submission */
+  heartbeat: bigint;
+}
+
+/**
+ * Decide whether a rate should be submitted
+ * @param last Last published or submitted rate for the pair, null if there is none
+ * @param rate Normalized rate from the source
+ * @param now Current unix time in seconds
+ * @returns Why the rate should be submitted, or null to skip it
+ */
+export function publishReason(
+  last: RatePoint | null,
+  rate: bigint,
+  now: bigint,
+  thresholds: PublishThresholds
+): PublishReason | null {
+  if (!last) return 'initial';
+  if (now - last.updatedAt >= thresholds.heartbeat) return 'heartbeat';
+  const move = rate > last.rate ? rate - last.rate : last.rate - rate;
+  return move * BASIS_POINTS >= last.rate * thresholds.deviationBps ? 'deviation' : null;
+}
+
+// Rate sources
+
+/**
+ * Quotes from a JSON object of pair to rate, e.g. `{ "USD-KES": "150.25" }`
+ */
+export function parseRateMap(json: unknown, sourceName: string): RateQuote[] {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new RateError(`${sourceName}: expected an object of currency pair to rate`);
+  }
+  return Object.entries(json).map(([currencyPair, rate]) => {
+    if (typeof rate !== 'string' && typeof rate !== 'number') {
+      throw new RateError(`${sourceName}: rate for ${currencyPair} is not a string or number`);
+    }
+    return { currencyPair, rate };
+  });
+}
+
+/**
+ * Reads a JSON rate map from a local file on every fetch, so edits take effect on the next poll
+ */
+export class JsonFileSource implements RateSource {
+  readonly name: string;
+
+  constructor(private readonly path: string) {
+    this.name = `file:${path}`;
+  }
+
+  async fetchRates(): Promise<RateQuote[]> {
+    return parseRateMap(JSON.parse(await readFile(this.path, 'utf8')), this.name);
+  }
+}
+
+/**
+ * Fetches a JSON rate map over HTTP, e.g. from `serveRates`
+ */
+export class HttpSource implements RateSource {
+  readonly name: string;
+
+  constructor(private readonly url: string) {
+    this.name = url;
+  }
+
+  async fetchRates(): Promise<RateQuote[]> {
+    const response = await fetch(this.url);
+    if (!response.ok) throw new Error(`${this.name} responded ${response.status}`);
+    return parseRateMap(await response.json(), this.name);
+  }
+}
+
+export interface CsvReplayOptions {
+  /** Start over after the last row instead of repeating the last quotes (default false) */
+  loop?: boolean;
+}
+
+/**
+ * Replays recorded quotes from a CSV file with a `time,currency_pair,rate` header
+ *
+ * Rows sharing a time are one poll; each fetch returns the next poll in file order.
+ */
+export class CsvReplaySource implements RateSource {
+  readonly name: string;
+  private polls: Promise<RateQuote[][]> | null = null;
+  private next = 0;
+
+  constructor(
+    private readonly path: string,
+    private readonly options: CsvReplayOptions = {}
+  ) {
+    this.name = `csv:${path}`;
+  }
+
+  async fetchRates(): Promise<RateQuote[]> {
+    this.polls ??= this.load();
+    const polls = await this.polls;
+    if (this.next >= polls.length) this.next = this.options.loop ? 0 : polls.length - 1;
+    return polls[this.next++] ?? [];
+  }
+
+  private async load(): Promise<RateQuote[][]> {
+    const [header, ...rows] = (await readFile(this.path, 'utf8')).split(/\r?\n/);
+    if (header?.trim() !== 'time,currency_pair,rate') {
+      throw new RateError(`${this.name}: expected a time,currency_pair,rate header`);
+    }
+    const polls = new Map<string, RateQuote[]>();
+    rows.forEach((row, index) => {
+      if (!row.trim()) return;
+      const [time, currencyPair, rate] = row.split(',').map(cell => cell.trim());
+      if (!time || !currencyPair || !rate) {
+        throw new RateError(`${this.name}: malformed row ${index + 2}`);
+      }
+      polls.set(time, [...(polls.get(time) ?? []), { currencyPair, rate }]);
+    });
+    return [...polls.values()];
+  }
+}
+
+export interface SimulatedSourceOptions {
+  /** Largest move per fetch in basis points (default 30) */
+  volatilityBps?: number;
+  /** Uniform random numbers in [0, 1) (default Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Random walk from starting rates, for devnet runs without a real feed
+ */
+export class SimulatedSource implements RateSource {
+  readonly name = 'simulated';
+  private readonly rates: Map<string, bigint>;
+
+  /**
+   * @param startRates Pair to starting rate, e.g. `{ "USD-KES": "150.25" }`
+   */
+  constructor(
+    startRates: Record<string, string>,
+    private readonly options: SimulatedSourceOptions = {}
+  ) {
+    this.rates = new Map(
+      Object.entries(startRates).map(([pair, rate]) => [pair, normalizeRate(rate)])
+    );
+  }
+
+  async fetchRates(): Promise<RateQuote[]> {
+    const { volatilityBps = 30, random = Math.random } = this.options;
+    return [...this.rates].map(([currencyPair, rate]) => {
+      const moveBps = BigInt(Math.round((random() * 2 - 1) * volatilityBps));
+      const moved = (rate * (BASIS_POINTS + moveBps)) / BASIS_POINTS;
+      const next = moved < MIN_RATE ? MIN_RATE : moved > MAX_RATE ? MAX_RATE : moved;
+      this.rates.set(currencyPair, next);
+      return { currencyPair, rate: formatRate(next) };
+    });
+  }
+}
+
+/**
+ * HTTP server answering `GET /rates` with the source's quotes as a JSON rate map
+ *
+ * Pair it with `HttpSource` to exercise the HTTP path locally; call `listen` to start it.
+ */
+export function serveRates(source: RateSource): Server {
+  return createServer((request, response) => {
+    if (request.method !== 'GET' || request.url !== '/rates') {
+      response.writeHead(404).end();
+      return;
+    }
+    source.fetchRates().then(
+      quotes => {
+        const body = Object.fromEntries(quotes.map(quote => [quote.currencyPair, quote.rate]));
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(JSON.stringify(body));
+      },
+      (error: unknown) => {
+        response.writeHead(502, { 'content-type': 'text/plain' });
+        response.end(String(error));
+      }
+    );
+  });
+}
+
+// Publisher
+
+export interface PublisherConfig {
+  /** Address the oracle is deployed by */
+  contractAddress: string;
+  contractName?: string;
+  network: StacksNetworkName | StacksNetwork;
+  /** Hex-encoded private key of an authorized updater */
+  senderKey: string;
+  source: RateSource;
+  /** Pairs to publish, defaults to every pair the source quotes */
+  currencyPairs?: string[];
+  /** Default DEFAULT_DEVIATION_BPS */
+  deviationBps?: bigint;
+  /**
+   * Default DEFAULT_HEARTBEAT; must be below MAX_RATE_AGE by enough to cover the poll interval
+   * and the time to mine the submission
+   */
+  heartbeat?: bigint;
+  /** Transaction fee in micro-STX, estimated by the node when omitted */
+  fee?: bigint;
+  /** Current unix time in seconds (default: the system clock) */
+  now?: () => bigint;
+}
+
+export type PublishOutcome =
+  | { currencyPair: string; status: 'published'; rate: bigint; reason: PublishReason; txid: string }
+  /** Within thresholds, or already submitted in the open round */
+  | { currencyPair: string; status: 'skipped'; rate: bigint }
+  | { currencyPair: string; status: 'failed'; error: unknown };
+
+export class RatePublisher {
+  readonly senderAddress: string;
+  private readonly contractName: string;
+  private readonly thresholds: PublishThresholds;
+  private readonly now: () => bigint;
+  /** Own submissions not yet reflected on chain, by pair */
+  private readonly submitted = new Map<string, RatePoint>();
+  private nextNonce: bigint | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly config: PublisherConfig) {
+    const { deviationBps = DEFAULT_DEVIATION_BPS, heartbeat = DEFAULT_HEARTBEAT } = config;
+    if (deviationBps <= 0n) throw new RangeError('deviationBps must be positive');
+    if (heartbeat <= 0n || heartbeat >= MAX_RATE_AGE) {
+      throw new RangeError(`heartbeat must be between 0 and ${MAX_RATE_AGE} seconds`);
+    }
+    this.thresholds = { deviationBps, heartbeat };
+    this.contractName = config.contractName ?? ORACLE_CONTRACT_NAME;
+    this.now = config.now ?? (() => BigInt(Math.floor(Date.now() / 1000)));
+    this.senderAddress = getAddressFromPrivateKey(config.senderKey, config.network);
+  }
+
+  /**
+   * Poll the source once and submit every rate that crossed a threshold
+   *
+   * A quote that fails to normalize or submit is reported without stopping the other pairs.
+   * @throws If the source itself cannot be read
+   */
+  async tick(): Promise<PublishOutcome[]> {
+    const quotes = await this.config.source.fetchRates();
+    const wanted = this.config.currencyPairs;
+    const outcomes: PublishOutcome[] = [];
+    for (const quote of quotes) {
+      if (wanted && !wanted.includes(quote.currencyPair)) continue;
+      try {
+        outcomes.push(await this.publish(quote.currencyPair, normalizeRate(quote.rate)));
+      } catch (error) {
+        outcomes.push({ currencyPair: quote.currencyPair, status: 'failed', error });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Tick every `intervalMs` until `stop`; a tick starts only after the previous one finished
+   * @param onTick Receives the outcomes of each tick
+   * @param onError Receives errors reading the source (default console.error)
+   */
+  start(
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    onTick?: (outcomes: PublishOutcome[]) => void,
+    onError: (error: unknown) => void = console.error
+  ): void {
+    if (this.timer) return;
+    const run = async () => {
+      try {
+        onTick?.(await this.tick());
+      } catch (error) {
+        onError(error);
+      }
+      if (this.timer) this.timer = setTimeout(run, intervalMs);
+    };
+    this.timer = setTimeout(run, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async publish(currencyPair: string, rate: bigint): Promise<PublishOutcome> {
+    const now = this.now();
+    const reason = publishReason(await this.lastRate(currencyPair), rate, now, this.thresholds);
+    if (!reason || (await this.inOpenRound(currencyPair, now))) {
+      return { currencyPair, status: 'skipped', rate };
+    }
+
+    const nonce =
+      this.nextNonce ??
+      (await fetchNonce({ address: this.senderAddress, network: this.config.network }));
+    const transaction = await makeContractCall({
+      contractAddress: this.config.contractAddress,
+      contractName: this.contractName,
+      functionName: 'update-exchange-rate',
+      functionArgs: [Cl.stringAscii(currencyPair), Cl.uint(rate)],
+      postConditionMode: PostConditionMode.Deny,
+      senderKey: this.config.senderKey,
+      network: this.config.network,
+      nonce,
+      ...(this.config.fee === undefined ? {} : { fee: this.config.fee }),
+    });
+    const result = await broadcastTransaction({ transaction, network: this.config.network });
+    if ('error' in result) {
+      // A rejected nonce is refetched on the next submission
+      this.nextNonce = null;
+      throw new Error(`Broadcast of ${currencyPair} rate rejected: ${result.reason}`);
+    }
+    // The node's account nonce lags the mempool, so later submissions count from this one
+    this.nextNonce = nonce + 1n;
+    this.submitted.set(currencyPair, { rate, updatedAt: now });
+    return { currencyPair, status: 'published', rate, reason, txid: result.txid };
+  }
+
+  // The newer of the published rate and this publisher's pending submission
+  private async lastRate(currencyPair: string): Promise<RatePoint | null> {
+    const result = await this.readOnly('get-exchange-rate', [Cl.stringAscii(currencyPair)]);
+    const published =
+      result.type === ClarityType.ResponseOk
+        ? {
+            rate: decodeUInt(field(decodeTuple(result.value), 'rate')),
+            updatedAt: decodeUInt(field(decodeTuple(result.value), 'updated-at')),
+          }
+        : null;
+    const pending = this.submitted.get(currencyPair);
+    if (!pending || (published && published.updatedAt >= pending.updatedAt)) {
+      this.submitted.delete(currencyPair);
+      return published;
+    }
+    return pending;
+  }
+
+  // Mirrors open-round-id: a round older than max-rate-age is abandoned on the next submission
+  private async inOpenRound(currencyPair: string, now: bigint): Promise<boolean> {
+    const roundId = decodeUInt(
+      await this.readOnly('get-current-round-id', [Cl.stringAscii(currencyPair)])
+    );
+    const result = await this.readOnly('get-round', [
+      Cl.stringAscii(currencyPair),
+      Cl.uint(roundId),
+    ]);
+    if (result.type !== ClarityType.ResponseOk) return false;
+    const round = decodeTuple(result.value);
+    if (now - decodeUInt(field(round, 'started-at')) > MAX_RATE_AGE) return false;
+    const submitters = field(round, 'submitters');
+    if (submitters.type !== ClarityType.List) {
+      throw new TypeError(`Expected list, got ${submitters.type}`);
+    }
+    return submitters.value.some(submitter => decodePrincipal(submitter) === this.senderAddress);
+  }
+
+  private readOnly(functionName: string, functionArgs: ClarityValue[]) {
+    return fetchCallReadOnlyFunction({
+      contractAddress: this.config.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      senderAddress: this.senderAddress,
+      network: this.config.network,
+    });
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Release quotes that reproduce the fee and split math of release-funds, and the fiat
+ * conversions used for fiat-denominated targets
+ */
+
+import type { Remittance, RemittanceStatus, SplitRecipient } from './types.ts';
+import { ESCROW_ERRORS, errorFromCode } from './errors.ts';
+import { MICRO_STX_PER_STX } from './money.ts';
+
+// Mirrors basis-points, max-platform-fee-bps and the initial platform-fee-bps
+export const BASIS_POINTS = 10_000n;
+export const MAX_PLATFORM_FEE_BPS = 500n;
+export const DEFAULT_PLATFORM_FEE_BPS = 50n;
+
+// Mirrors max-fiat-target; rates and fiat amounts use the oracle's 8 decimals
+export const MAX_FIAT_TARGET = 100_000_000_000_000_000n;
+export const RATE_DECIMALS = 8;
+
+// Mirrors min-rate and max-rate in stacksend-oracle.clar
+export const MIN_RATE = 100n;
+export const MAX_RATE = 10_000_000_000_000_000n;
+
+export interface FeeQuote {
+  /** Gross amount in micro-STX */
+  amount: bigint;
+  feeBps: bigint;
+  /** Amount sent to the contract owner */
+  platformFee: bigint;
+  /** Amount sent to the recipient */
+  netAmount: bigint;
+}
+
+export interface SplitPayout extends SplitRecipient {
+  /** Amount sent to the recipient */
+  amount: bigint;
+}
+
+export interface PayoutQuote extends FeeQuote {
+  /** What each recipient is sent, adding up to `netAmount` */
+  payouts: SplitPayout[];
+}
+
+export interface ReleaseQuote extends PayoutQuote {
+  remittanceId: bigint;
+  status: RemittanceStatus;
+  /** True if release-funds would currently succeed for the recipient */
+  releasable: boolean;
+}
+
+/**
+ * Calculate the platform fee with the contract's truncating integer division
+ * @param amount Amount in micro-STX
+ * @param feeBps Fee in basis points
+ * @returns Fee amount in micro-STX
+ */
+export function calculatePlatformFee(
+  amount: bigint,
+  feeBps: bigint = DEFAULT_PLATFORM_FEE_BPS
+): bigint {
+  return (amount * feeBps) / BASIS_POINTS;
+}
+
+/**
+ * Split an amount into platform fee and net amount
+ */
+export function quoteFee(amount: bigint, feeBps: bigint): FeeQuote {
+  const platformFee = calculatePlatformFee(amount, feeBps);
+  return { amount, feeBps, platformFee, netAmount: amount - platformFee };
+}
+
+/**
+ * Split a net amount between the recipients of a split remittance with the contract's rounding
+ *
+ * Each share is rounded down and the first recipient also receives what the rounding leaves
+ * over, so the payouts add up to the net amount. A share that rounds to zero is not transferred.
+ * @param netAmount Amount left after the platform fee
+ */
+export function splitPayouts(netAmount: bigint, splits: SplitRecipient[]): SplitPayout[] {
+  const payouts = splits.map(split => ({
+    ...split,
+    amount: (netAmount * split.shareBps) / BASIS_POINTS,
+  }));
+  const [first] = payouts;
+  if (first) first.amount += netAmount - payouts.reduce((sum, payout) => sum + payout.amount, 0n);
+  return payouts;
+}
+
+/**
+ * Split an amount into platform fee and the payout of each recipient
+ * @param splits Recipients of a split remittance, or the single recipient with all 10000 bps
+ */
+export function quotePayouts(
+  amount: bigint,
+  feeBps: bigint,
+  splits: SplitRecipient[]
+): PayoutQuote {
+  const quote = quoteFee(amount, feeBps);
+  return { ...quote, payouts: splitPayouts(quote.netAmount, splits) };
+}
+
+/**
+ * Render an 8-decimal rate or fiat amount as a decimal string without trailing zeros
+ */
+export function formatRate(rate: bigint): string {
+  const scale = 10n ** BigInt(RATE_DECIMALS);
+  const fraction = (rate % scale).toString().padStart(RATE_DECIMALS, '0').replace(/0+$/, '');
+  return fraction ? `${rate / scale}.${fraction}` : `${rate / scale}`;
+}
+
+/**
+ * Value micro-STX in fiat with the contract's rounding (down)
+ * @param amount Amount in micro-STX
+ * @param rate Fiat units per STX with 8 decimals
+ * @returns Fiat value with 8 decimals
+ */
+export function fiatValue(amount: bigint, rate: bigint): bigint {
+  return (amount * rate) / MICRO_STX_PER_STX;
+}
+
+/**
+ * Convert a fiat amount to micro-STX with the contract's rounding (up)
+ * @param fiatAmount Fiat amount with 8 decimals
+ * @param rate Fiat units per STX with 8 decimals
+ * @returns Smallest amount in micro-STX worth at least `fiatAmount`
+ */
+export function fiatToMicroStx(fiatAmount: bigint, rate: bigint): bigint {
+  return (fiatAmount * MICRO_STX_PER_STX + rate - 1n) / rate;
+}
+
+/**
+ * Read-only escrow access needed for quoting, implemented by EscrowClient
+ */
+export interface QuoteSource {
+  getRemittance(remittanceId: bigint): Promise<Remittance | null>;
+  getRemittanceSplits(remittanceId: bigint): Promise<SplitRecipient[] | null>;
+  getPlatformFee(): Promise<bigint>;
+}
+
+export class QuoteEngine {
+  constructor(private readonly client: QuoteSource) {}
+
+  /**
+   * Quote what release-funds would transfer for a remittance right now
+   * @param remittanceId The ID of the remittance
+   * @returns Fee, net amount and payouts computed from total-raised and the live fee; phone
+   *   and claimable remittances name the escrow as recipient until they are released
+   */
+  async quoteRelease(remittanceId: bigint): Promise<ReleaseQuote> {
+    const [remittance, splits, feeBps] = await Promise.all([
+      this.client.getRemittance(remittanceId),
+      this.client.getRemittanceSplits(remittanceId),
+      this.client.getPlatformFee(),
+    ]);
+    if (!remittance) throw errorFromCode(ESCROW_ERRORS['err-not-found'].code, 'escrow');
+
+    return {
+      ...quotePayouts(
+        remittance.totalRaised,
+        feeBps,
+        splits ?? [{ recipient: remittance.recipient, shareBps: BASIS_POINTS }]
+      ),
+      remittanceId,
+      status: remittance.status,
+      releasable: remittance.status === 'funded',
+    };
+  }
+
+  /**
+   * Project the fee for a hypothetical target amount using the live fee
+   * @param targetAmount Amount in micro-STX
+   */
+  async projectRelease(targetAmount: bigint): Promise<FeeQuote> {
+    return quoteFee(targetAmount, await this.client.getPlatformFee());
+  }
+
+  /**
+   * Project each recipient's payout for a split remittance before creating it
+   * @param targetAmount Amount in micro-STX
+   */
+  async projectSplitRelease(targetAmount: bigint, splits: SplitRecipient[]): Promise<PayoutQuote> {
+    return quotePayouts(targetAmount, await this.client.getPlatformFee(), splits);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Exchange-rate history as chart-ready series, with the TWAP math of stacksend-oracle
+ */
+
+import { RATE_DECIMALS } from './quote.ts';
+
+// Mirrors history-size in stacksend-oracle.clar
+export const RATE_HISTORY_SIZE = 24;
+
+/**
+ * One published rate, as returned by get-rate-history or `EventIndexer.listRateUpdates`
+ */
+export interface RatePoint {
+  /** Rate with 8 decimals */
+  rate: bigint;
+  /** Block time (unix seconds) of the publication */
+  updatedAt: bigint;
+}
+
+export interface TwapResult {
+  /** Time-weighted average rate with 8 decimals */
+  twap: bigint;
+  /** Seconds of the window covered by the points */
+  covered: bigint;
+  /** Number of rates that were current for part of the window */
+  observations: number;
+}
+
+export interface RateSeriesPoint {
+  /** Unix time in milliseconds */
+  time: number;
+  /** Rate in units of the quote currency */
+  value: number;
+}
+
+export interface RateSeries {
+  currencyPair: string;
+  /** Published rates, oldest first */
+  rates: RateSeriesPoint[];
+  /** TWAP over `twapWindow` at each publication, when requested */
+  twap: RateSeriesPoint[] | null;
+}
+
+export interface RateSeriesOptions {
+  /** Window in seconds for the TWAP line; omit for no TWAP line */
+  twapWindow?: bigint;
+}
+
+/**
+ * Time-weighted average of published rates over a window ending at `now`, like get-twap
+ *
+ * Each rate counts for as long as it was the latest. Unlike the contract, every point passed in
+ * is used, so a full indexer history gives windows longer than the on-chain history.
+ * @param points Published rates in any order
+ * @param now End of the window (unix seconds)
+ * @param window Window length in seconds
+ * @returns The TWAP, or null if no rate was published by `now`
+ */
+export function computeTwap(points: RatePoint[], now: bigint, window: bigint): TwapResult | null {
+  const newestFirst = points
+    .filter(point => point.updatedAt <= now)
+    .sort((a, b) => (a.updatedAt > b.updatedAt ? -1 : a.updatedAt < b.updatedAt ? 1 : 0));
+  const latest = newestFirst[0];
+  if (!latest) return null;
+
+  const windowStart = now > window ? now - window : 0n;
+  let segmentEnd = now;
+  let weightedSum = 0n;
+  let covered = 0n;
+  let observations = 0;
+  for (const point of newestFirst) {
+    if (segmentEnd <= windowStart) break;
+    const segmentStart = point.updatedAt > windowStart ? point.updatedAt : windowStart;
+    const duration = segmentEnd - segmentStart;
+    weightedSum += point.rate * duration;
+    covered += duration;
+    if (duration > 0n) observations++;
+    segmentEnd = segmentStart;
+  }
+
+  // A rate published at `now` has had no time to count; report it as is
+  return covered > 0n
+    ? { twap: weightedSum / covered, covered, observations }
+    : { twap: latest.rate, covered, observations: 1 };
+}
+
+/**
+ * Convert published rates into series for a line chart
+ * @param currencyPair Pair the rates belong to, e.g. "USD-KES"
+ * @param points Published rates in any order
+ */
+export function toRateSeries(
+  currencyPair: string,
+  points: RatePoint[],
+  options: RateSeriesOptions = {}
+): RateSeries {
+  const oldestFirst = [...points].sort((a, b) =>
+    a.updatedAt < b.updatedAt ? -1 : a.updatedAt > b.updatedAt ? 1 : 0
+  );
+  const { twapWindow } = options;
+  return {
+    currencyPair,
+    rates: oldestFirst.map(point => seriesPoint(point.updatedAt, point.rate)),
+    twap:
+      twapWindow === undefined
+        ? null
+        : oldestFirst.map(point => {
+            const result = computeTwap(oldestFirst, point.updatedAt, twapWindow);
+            return seriesPoint(point.updatedAt, result?.twap ?? point.rate);
+          }),
+  };
+}
+
+/**
+ * Render a series as CSV with one row per publication
+ * @returns Rows of `time,rate` or `time,rate,twap`, with ISO 8601 times
+ */
+export function rateSeriesToCsv(series: RateSeries): string {
+  const header = series.twap ? 'time,rate,twap' : 'time,rate';
+  const rows = series.rates.map((point, index) => {
+    const twap = series.twap?.[index];
+    const cells = [new Date(point.time).toISOString(), String(point.value)];
+    if (twap) cells.push(String(twap.value));
+    return cells.join(',');
+  });
+  return [header, ...rows].join('\n');
+}
+
+function seriesPoint(time: bigint, rate: bigint): RateSeriesPoint {
+  return { time: Number(time) * 1000, value: Number(rate) / 10 ** RATE_DECIMALS };
+}
@@ -0,0 +1,76 @@
+/**
+ * Period arithmetic of recurring schedules, mirroring trigger-schedule
+ *
+ * Period n of a schedule starts at `startAt + n * interval` and its remittance is due when the
+ * period ends. Periods starting at or after `endAt` are never spawned, and trigger-schedule only
+ * spawns the current period, so a period that ends before anyone triggers it is missed.
+ */
+
+import type { Schedule } from './types.ts';
+
+type ScheduleTiming = Pick<Schedule, 'interval' | 'startAt' | 'endAt'>;
+
+export interface SchedulePeriod {
+  period: bigint;
+  /** Block time (unix seconds) the period starts */
+  startsAt: bigint;
+  /** Block time (unix seconds) the period ends, the deadline of its remittance */
+  endsAt: bigint;
+}
+
+/**
+ * Number of periods a schedule spans
+ */
+export function periodCount(schedule: ScheduleTiming): bigint {
+  const { interval, startAt, endAt } = schedule;
+  return (endAt - startAt + interval - 1n) / interval;
+}
+
+/**
+ * Period of a schedule that contains `time`
+ * @returns The period, or null before the first period starts or once no period starts
+ */
+export function currentPeriod(schedule: ScheduleTiming, time: bigint): SchedulePeriod | null {
+  const { interval, startAt } = schedule;
+  if (time < startAt) return null;
+  const period = (time - startAt) / interval;
+  return period < periodCount(schedule) ? schedulePeriod(schedule, period) : null;
+}
+
+/**
+ * Period trigger-schedule would spawn at `time`
+ * @returns The current period, or null if the schedule is cancelled, not started, ended,
+ *   or its current period was already triggered
+ */
+export function duePeriod(
+  schedule: ScheduleTiming & Pick<Schedule, 'nextPeriod' | 'status'>,
+  time: bigint
+): SchedulePeriod | null {
+  if (schedule.status !== 'active') return null;
+  const current = currentPeriod(schedule, time);
+  return current && current.period >= schedule.nextPeriod ? current : null;
+}
+
+/**
+ * Periods from `nextPeriod` that ended at `time` without being triggered
+ * @returns The missed periods as a half-open range, or null if none were missed
+ */
+export function missedPeriods(
+  schedule: ScheduleTiming & Pick<Schedule, 'nextPeriod'>,
+  time: bigint
+): { from: bigint; to: bigint } | null {
+  const { interval, startAt, nextPeriod } = schedule;
+  if (time < startAt) return null;
+  const ended = (time - startAt) / interval;
+  const count = periodCount(schedule);
+  const to = ended < count ? ended : count;
+  return to > nextPeriod ? { from: nextPeriod, to } : null;
+}
+
+/**
+ * Start and end of a period, whether or not the schedule spans it
+ */
+export function schedulePeriod(schedule: ScheduleTiming, period: bigint): SchedulePeriod {
+  const startsAt = schedule.startAt + period * schedule.interval;
+  return { period, startsAt, endsAt: startsAt + schedule.interval };
+}
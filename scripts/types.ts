@@ -0,0 +1,241 @@
+/**
+ * Shared StackSend types, free of runtime dependencies so that Clarinet tests can import them
+ */
+
+export type EscrowPublicFunction =
+  | 'create-remittance'
+  | 'create-token-remittance'
+  | 'create-fiat-remittance'
+  | 'create-phone-remittance'
+  | 'create-claimable-remittance'
+  | 'create-split-remittance'
+  | 'contribute'
+  | 'contribute-token'
+  | 'withdraw-contribution'
+  | 'withdraw-token-contribution'
+  | 'release-funds'
+  | 'release-token-funds'
+  | 'release-funds-with-passkey'
+  | 'release-token-funds-with-passkey'
+  | 'claim-remittance'
+  | 'cancel-remittance'
+  | 'cancel-token-remittance'
+  | 'cancel-remittance-with-passkey'
+  | 'cancel-token-remittance-with-passkey'
+  | 'process-refunds'
+  | 'process-token-refunds'
+  | 'claim-refund'
+  | 'claim-token-refund'
+  | 'refresh-funding'
+  | 'bind-phone'
+  | 'register-passkey'
+  | 'create-schedule'
+  | 'trigger-schedule'
+  | 'fund-schedule'
+  | 'withdraw-schedule-deposit'
+  | 'cancel-schedule'
+  | 'pause-contract'
+  | 'unpause-contract'
+  | 'update-platform-fee'
+  | 'set-token-allowed'
+  | 'set-phone-verifier'
+  | 'emergency-withdraw'
+  | 'emergency-withdraw-token';
+
+/**
+ * Lifecycle status stored in the `status` field of a remittance
+ *
+ * `expired` means the deadline passed unfunded and at least one contributor claimed a refund
+ */
+export type RemittanceStatus = 'active' | 'funded' | 'expired' | 'completed' | 'cancelled';
+
+/**
+ * Mirrors the value tuple of the `remittances` map
+ */
+export interface Remittance {
+  creator: string;
+  recipient: string;
+  targetAmount: bigint;
+  totalRaised: bigint;
+  deadline: bigint;
+  description: string;
+  status: RemittanceStatus;
+  createdAt: bigint;
+  releasedAt: bigint | null;
+  currencyPair: string;
+  /** SIP-010 contract identifier the amounts are denominated in, null for STX */
+  token: string | null;
+  /** Target in fiat with 8 decimals, null when `targetAmount` is the target */
+  fiatTarget: bigint | null;
+  /**
+   * Hex-encoded phone hash of a phone remittance, null when `recipient` was named at creation;
+   * until release, `recipient` of a phone remittance is the escrow contract
+   */
+  phoneHash: string | null;
+  /**
+   * Hex-encoded sha256 of the claim secret's public key for a claimable remittance, null otherwise;
+   * until claimed, `recipient` of a claimable remittance is the escrow contract
+   */
+  claimHash: string | null;
+  /** Block time (unix seconds) the claim of a claimable remittance expires, null otherwise */
+  claimExpiresAt: bigint | null;
+}
+
+/**
+ * Mirrors the value tuple of the `contributions` map
+ */
+export interface Contribution {
+  amount: bigint;
+  contributedAt: bigint;
+}
+
+/**
+ * Arguments of `create-remittance`, or of `create-token-remittance` when `token` is set
+ */
+export interface CreateRemittanceParams {
+  /** Allowed SIP-010 contract identifier, omit for an STX remittance */
+  token?: string | null;
+  recipient: string;
+  /** Target amount in base units of the remittance asset */
+  targetAmount: bigint;
+  /** Block time (unix seconds) after which contributions are rejected */
+  deadline: bigint;
+  description: string;
+  currencyPair: string;
+}
+
+/**
+ * Arguments of `create-fiat-remittance`
+ */
+export interface CreateFiatRemittanceParams {
+  recipient: string;
+  /** Target in the quote currency of `currencyPair`, with the oracle's 8 decimals */
+  fiatTarget: bigint;
+  /** Block time (unix seconds) after which contributions are rejected */
+  deadline: bigint;
+  description: string;
+  /** Oracle pair pricing STX, e.g. `STX-KES` */
+  currencyPair: string;
+}
+
+/**
+ * Arguments of `create-phone-remittance`
+ */
+export interface CreatePhoneRemittanceParams {
+  /** Hex-encoded salted hash of the recipient's E.164 number, see `hashPhoneNumber` */
+  phoneHash: string;
+  /** Target amount in micro-STX */
+  targetAmount: bigint;
+  /** Block time (unix seconds) after which contributions are rejected */
+  deadline: bigint;
+  description: string;
+  currencyPair: string;
+}
+
+/**
+ * Arguments of `create-claimable-remittance`
+ */
+export interface CreateClaimableRemittanceParams {
+  /** Hex-encoded sha256 of the claim secret's public key, see `claimHash` */
+  claimHash: string;
+  /** Target amount in micro-STX */
+  targetAmount: bigint;
+  /** Block time (unix seconds) after which contributions are rejected */
+  deadline: bigint;
+  /** Block time (unix seconds) after which the claim is rejected and contributors can refund */
+  claimExpiresAt: bigint;
+  description: string;
+  currencyPair: string;
+}
+
+/**
+ * One recipient of a split remittance, an entry of the `remittance-splits` map
+ */
+export interface SplitRecipient {
+  recipient: string;
+  /** Share of the net amount in basis points; the shares of a split sum to 10000 */
+  shareBps: bigint;
+}
+
+/**
+ * Arguments of `create-split-remittance`
+ */
+export interface CreateSplitRemittanceParams {
+  /**
+   * 2 to 10 distinct recipients; the first one releases the funds and receives the rounding dust
+   */
+  splits: SplitRecipient[];
+  /** Target amount in micro-STX */
+  targetAmount: bigint;
+  /** Block time (unix seconds) after which contributions are rejected */
+  deadline: bigint;
+  description: string;
+  currencyPair: string;
+}
+
+/**
+ * Mirrors the value tuple of the `phone-bindings` map
+ */
+export interface PhoneBinding {
+  recipient: string;
+  /** Hex-encoded compressed public key of the verifier that attested the binding */
+  verifier: string;
+  boundAt: bigint;
+}
+
+/**
+ * Mirrors the value tuple of the `passkeys` map
+ */
+export interface Passkey {
+  /** Hex-encoded compressed secp256r1 public key */
+  publicKey: string;
+  /** Hex-encoded sha256 of the relying party ID assertions must be made for, see `hashRpId` */
+  rpIdHash: string;
+  /** Nonce the next assertion must sign, see `passkeyChallenge` */
+  nonce: bigint;
+}
+
+export type ScheduleStatus = 'active' | 'cancelled';
+
+/**
+ * Mirrors the value tuple of the `schedules` map
+ */
+export interface Schedule {
+  creator: string;
+  recipient: string;
+  /** Target amount of each period's remittance in micro-STX */
+  amount: bigint;
+  /** Period length in seconds */
+  interval: bigint;
+  /** Block time (unix seconds) period 0 starts */
+  startAt: bigint;
+  /** Block time (unix seconds) from which no period starts */
+  endAt: bigint;
+  description: string;
+  currencyPair: string;
+  /** First period that has not been triggered; earlier untriggered periods were missed */
+  nextPeriod: bigint;
+  /** micro-STX held to fund periods; a period is funded from it while it covers `amount` */
+  deposit: bigint;
+  status: ScheduleStatus;
+  createdAt: bigint;
+}
+
+/**
+ * Arguments of `create-schedule`
+ */
+export interface CreateScheduleParams {
+  recipient: string;
+  /** Target amount of each period's remittance in micro-STX */
+  amount: bigint;
+  /** Period length in seconds; each remittance is due when its period ends */
+  interval: bigint;
+  /** Block time (unix seconds) period 0 starts */
+  startAt: bigint;
+  /** Block time (unix seconds) from which no period starts */
+  endAt: bigint;
+  description: string;
+  currencyPair: string;
+  /** micro-STX moved into the escrow to fund periods (default 0) */
+  deposit?: bigint;
+}
@@ -2,42 +2,18 @@
  * Utility functions for StackSend project
  */
 
-/**
- * Format STX amount with proper decimals
- * @param amount Amount in micro-STX
- * @returns Formatted STX string
- */
-export function formatSTX(amount: number): string {
-  return (amount / 1_000_000).toFixed(6);
-}
-
-/**
- * Parse STX amount to micro-STX
- * @param stx Amount in STX
- * @returns Amount in micro-STX
- */
-export function parseSTX(stx: number): number {
-  return Math.floor(stx * 1_000_000);
-}
+import { parsePrincipal, type NetworkName } from './principal.ts';
 
-/**
- * Calculate platform fee (0.5%)
- * @param amount Amount in micro-STX
- * @returns Fee amount in micro-STX
- */
-export function calculatePlatformFee(amount: number): number {
-  const FEE_BPS = 50; // 0.5% = 50 basis points
-  const BASIS_POINTS = 10000;
-  return Math.floor((amount * FEE_BPS) / BASIS_POINTS);
-}
+export { formatAmount, formatSTX, parseAmount, parseSTX } from './money.ts';
+export { calculatePlatformFee } from './quote.ts';
 
 /**
- * Validate Stacks address format
- * @param address Stacks address to validate
+ * Validate a Stacks principal, including its c32check checksum
+ * @param address Standard or contract principal to validate
+ * @param network Network to validate against, either if omitted
  * @returns True if valid
  */
-export function isValidStacksAddress(address: string): boolean {
-  const mainnetPattern = /^SP[0-9A-Z]{38,41}$/;
-  const testnetPattern = /^ST[0-9A-Z]{38,41}$/;
-  return mainnetPattern.test(address) || testnetPattern.test(address);
+export function isValidStacksAddress(address: string, network?: NetworkName): boolean {
+  const networks: NetworkName[] = network ? [network] : ['mainnet', 'testnet'];
+  return networks.some(candidate => parsePrincipal(address, candidate).valid);
 }
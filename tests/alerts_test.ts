@@ -0,0 +1,150 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  AlertEngine,
+  type Alert,
+  type AlertChannel,
+  type AlertSubscription,
+} from '../scripts/alerts.ts';
+
+const PAIR = 'USD-KES';
+const HOUR = 3_600n;
+
+// 130 KES per USD
+const THRESHOLD = 13_000_000_000n;
+const ABOVE = 13_100_000_000n;
+const BELOW = 12_900_000_000n;
+
+// Channel that records what it was sent, and fails while `failing` is set
+class RecordingChannel implements AlertChannel {
+  readonly name = 'recording';
+  readonly sent: Alert[] = [];
+  failing = false;
+
+  send(alert: Alert): Promise<void> {
+    if (this.failing) return Promise.reject(new Error('unreachable'));
+    this.sent.push(alert);
+    return Promise.resolve();
+  }
+}
+
+function subscription(
+  channels: AlertChannel[],
+  options: Partial<AlertSubscription> = {}
+): AlertSubscription {
+  return {
+    id: 'kes-above-130',
+    subscriber: 'parent@example.com',
+    currencyPair: PAIR,
+    condition: { kind: 'above', threshold: THRESHOLD },
+    channels,
+    ...options,
+  };
+}
+
+function observe(engine: AlertEngine, rate: bigint, updatedAt: bigint): Promise<Alert[]> {
+  return engine.observe({ currencyPair: PAIR, rate, updatedAt });
+}
+
+async function count(engine: AlertEngine, rate: bigint, updatedAt: bigint): Promise<number> {
+  return (await observe(engine, rate, updatedAt)).length;
+}
+
+// ============================================================================
+// DE-DUPLICATION TESTS
+// ============================================================================
+
+Deno.test('AlertEngine: Alerts once while a condition holds, then re-arms', async () => {
+  const channel = new RecordingChannel();
+  const engine = new AlertEngine();
+  engine.subscribe(subscription([channel]));
+
+  const [alert] = await observe(engine, ABOVE, 100n);
+  assertEquals(alert?.message, 'USD-KES is 131, above 130');
+  assertEquals(alert?.triggeredAt, 100n);
+  assertEquals(await count(engine, ABOVE + 1n, 200n), 0);
+  assertEquals(await count(engine, BELOW, 300n), 0);
+  assertEquals(await count(engine, ABOVE, 400n), 1);
+  assertEquals(channel.sent.length, 2);
+});
+
+Deno.test('AlertEngine: Ignores a rate not newer than the last one seen', async () => {
+  const engine = new AlertEngine();
+  engine.subscribe(subscription([new RecordingChannel()]));
+
+  assertEquals(await count(engine, BELOW, 100n), 0);
+  // A redelivered or older update does not move the pair back above the threshold
+  assertEquals(await count(engine, ABOVE, 100n), 0);
+  assertEquals(await count(engine, ABOVE, 50n), 0);
+  assertEquals(await count(engine, ABOVE, 101n), 1);
+});
+
+// ============================================================================
+// COOLDOWN AND QUIET HOURS TESTS
+// ============================================================================
+
+Deno.test('AlertEngine: Holds an alert back until the cooldown ends', async () => {
+  const channel = new RecordingChannel();
+  const engine = new AlertEngine();
+  engine.subscribe(subscription([channel], { cooldown: 600n }));
+
+  assertEquals(await count(engine, ABOVE, 1_000n), 1);
+  assertEquals(await count(engine, BELOW, 1_100n), 0);
+  assertEquals(await count(engine, ABOVE, 1_200n), 0);
+  // Still above once the cooldown is over, so the held alert goes out
+  assertEquals(await count(engine, ABOVE + 1n, 1_599n), 0);
+  assertEquals(await count(engine, ABOVE + 2n, 1_600n), 1);
+  assertEquals(channel.sent.length, 2);
+});
+
+Deno.test('AlertEngine: Holds an alert back during quiet hours spanning midnight', async () => {
+  const channel = new RecordingChannel();
+  const engine = new AlertEngine();
+  engine.subscribe(subscription([channel], { quietHours: { start: 22, end: 6 } }));
+
+  const day = 24n * HOUR;
+  assertEquals(await count(engine, ABOVE, day + 23n * HOUR), 0);
+  assertEquals(await count(engine, ABOVE + 1n, 2n * day + 5n * HOUR + 3_599n), 0);
+  assertEquals(await count(engine, ABOVE + 2n, 2n * day + 6n * HOUR), 1);
+  assertEquals(await count(engine, BELOW, 2n * day + 21n * HOUR), 0);
+  assertEquals(await count(engine, ABOVE, 2n * day + 22n * HOUR), 0);
+  assertEquals(channel.sent.length, 1);
+});
+
+// ============================================================================
+// DELIVERY TESTS
+// ============================================================================
+
+Deno.test('AlertEngine: Retries an alert no channel accepted', async () => {
+  const channel = new RecordingChannel();
+  const failures: string[] = [];
+  const engine = new AlertEngine({
+    onDeliveryError: (_error, _alert, failed) => failures.push(failed.name),
+  });
+  engine.subscribe(subscription([channel], { cooldown: 600n }));
+
+  channel.failing = true;
+  assertEquals(await count(engine, ABOVE, 100n), 0);
+  assertEquals(failures, ['recording']);
+
+  // A failed delivery neither marks the subscription fired nor starts the cooldown
+  channel.failing = false;
+  assertEquals(await count(engine, ABOVE + 1n, 200n), 1);
+  assertEquals(await count(engine, ABOVE + 2n, 300n), 0);
+  assertEquals(channel.sent.length, 1);
+});
+
+Deno.test('AlertEngine: Counts an alert as sent when one channel accepts it', async () => {
+  const working = new RecordingChannel();
+  const broken = new RecordingChannel();
+  broken.failing = true;
+  const failures: string[] = [];
+  const engine = new AlertEngine({
+    onDeliveryError: (_error, alert) => failures.push(alert.subscriptionId),
+  });
+  engine.subscribe(subscription([broken, working]));
+
+  assertEquals(await count(engine, ABOVE, 100n), 1);
+  assertEquals(await count(engine, ABOVE, 200n), 0);
+  assertEquals(failures, ['kes-above-130']);
+  assertEquals(working.sent.length, 1);
+});
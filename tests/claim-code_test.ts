@@ -0,0 +1,126 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { compressPublicKey, publicKeyFromSignatureRsv } from '@stacks/transactions';
+import {
+  ClaimCodeError,
+  claimHash,
+  claimMessageHash,
+  claimPublicKey,
+  decodeClaimCode,
+  encodeClaimCode,
+  generateClaimSecret,
+  isClaimable,
+  signClaim,
+  verifyClaimCode,
+} from '../scripts/claim-code.ts';
+
+const SECRET = '09'.repeat(32);
+const ESCROW = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.stacksend-escrow';
+const RECIPIENT = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+// ============================================================================
+// ENCODING TESTS
+// ============================================================================
+
+Deno.test('encodeClaimCode: Round-trips through decodeClaimCode', () => {
+  const code = encodeClaimCode({ remittanceId: 42n, secret: SECRET });
+
+  assertEquals(code.startsWith('SSC-42-'), true);
+  assertEquals(code.length, 'SSC-42-'.length + 55);
+  assertEquals(decodeClaimCode(code), { remittanceId: 42n, secret: SECRET });
+
+  const secret = generateClaimSecret();
+  assertEquals(decodeClaimCode(encodeClaimCode({ remittanceId: 0n, secret })).secret, secret);
+});
+
+Deno.test('decodeClaimCode: Accepts codes as users type them', () => {
+  const code = encodeClaimCode({ remittanceId: 7n, secret: SECRET });
+  const expected = { remittanceId: 7n, secret: SECRET };
+
+  assertEquals(decodeClaimCode(` ${code.toLowerCase()} `), expected);
+  assertEquals(decodeClaimCode(code.replace(/(.{8})/g, '$1 ')), expected);
+  // Crockford look-alikes
+  assertEquals(decodeClaimCode(code.replace(/0/g, 'O').replace(/1/g, 'l')).secret, SECRET);
+});
+
+Deno.test('decodeClaimCode: Rejects malformed codes and typos', () => {
+  const code = encodeClaimCode({ remittanceId: 7n, secret: SECRET });
+  const last = code.slice(-1);
+  const typo = code.slice(0, -1) + (last === 'Z' ? 'Y' : 'Z');
+
+  assertEquals(thrown(() => decodeClaimCode(typo)) instanceof ClaimCodeError, true);
+  // The checksum covers the remittance ID
+  assertEquals(
+    thrown(() => decodeClaimCode(code.replace('SSC-7-', 'SSC-8-'))) instanceof ClaimCodeError,
+    true
+  );
+  assertEquals(thrown(() => decodeClaimCode(code.slice(0, -1))) instanceof ClaimCodeError, true);
+  assertEquals(
+    thrown(() => decodeClaimCode(code.slice(0, -1) + 'U')) instanceof ClaimCodeError,
+    true
+  );
+  assertEquals(thrown(() => decodeClaimCode(SECRET)) instanceof ClaimCodeError, true);
+  assertEquals(
+    thrown(() => encodeClaimCode({ remittanceId: 1n, secret: '09' })) instanceof RangeError,
+    true
+  );
+});
+
+// ============================================================================
+// VERIFICATION TESTS
+// ============================================================================
+
+Deno.test('verifyClaimCode: Matches the claim hash of the remittance', () => {
+  // Matches get-claim-hash, see the claimable remittance tests in stacksend-escrow_test.ts
+  assertEquals(
+    claimHash(SECRET),
+    '75452e058dd8181336abfd016c4b67b8544fd96b451d800f92a10cba6c7737a5'
+  );
+
+  const claim = decodeClaimCode(encodeClaimCode({ remittanceId: 3n, secret: SECRET }));
+  assertEquals(verifyClaimCode(claim, { claimHash: claimHash(SECRET) }), true);
+  assertEquals(verifyClaimCode(claim, { claimHash: claimHash('01'.repeat(32)) }), false);
+  assertEquals(verifyClaimCode(claim, { claimHash: null }), false);
+});
+
+Deno.test('signClaim: Signs the recipient with the key of the claim hash', () => {
+  const claim = { remittanceId: 3n, secret: SECRET };
+  const params = { escrowContract: ESCROW, chainId: 0x80000000, recipient: RECIPIENT };
+  const signature = signClaim(claim, params);
+  const messageHash = claimMessageHash({ ...params, remittanceId: 3n });
+
+  assertEquals(signature.length, 130);
+  assertEquals(
+    compressPublicKey(publicKeyFromSignatureRsv(messageHash, signature)),
+    claimPublicKey(SECRET)
+  );
+  // Another recipient, remittance or network is a different message
+  assertEquals(
+    messageHash === claimMessageHash({ ...params, remittanceId: 3n, recipient: ESCROW }),
+    false
+  );
+  assertEquals(messageHash === claimMessageHash({ ...params, remittanceId: 4n }), false);
+  assertEquals(
+    messageHash === claimMessageHash({ ...params, remittanceId: 3n, chainId: 1 }),
+    false
+  );
+  assertEquals(
+    thrown(() => signClaim({ remittanceId: 3n, secret: '09' }, params)) instanceof RangeError,
+    true
+  );
+});
+
+Deno.test('isClaimable: Requires a funded remittance within its claim period', () => {
+  assertEquals(isClaimable({ status: 'funded', claimExpiresAt: 100n }, 99n), true);
+  assertEquals(isClaimable({ status: 'funded', claimExpiresAt: 100n }, 100n), false);
+  assertEquals(isClaimable({ status: 'active', claimExpiresAt: 100n }, 99n), false);
+  assertEquals(isClaimable({ status: 'funded', claimExpiresAt: null }, 99n), false);
+});
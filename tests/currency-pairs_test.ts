@@ -0,0 +1,65 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  CURRENCY_PAIRS,
+  formatPair,
+  getCurrencyPair,
+  isPairFormat,
+  isSupportedPair,
+  readInitialPairs,
+  renderCurrencyPairsModule,
+} from '../scripts/pair-registry.ts';
+
+function readSource(path: string): string {
+  return Deno.readTextFileSync(new URL(path, import.meta.url));
+}
+
+// ============================================================================
+// GENERATED LIST TESTS
+// ============================================================================
+
+Deno.test('currency pairs: Generated list matches stacksend-oracle.clar', () => {
+  // On failure: deno run --allow-read --allow-write scripts/generate-currency-pairs.ts
+  const pairs = readInitialPairs(readSource('../contracts/stacksend-oracle.clar'));
+
+  assertEquals(
+    CURRENCY_PAIRS.map(entry => entry.pair),
+    pairs
+  );
+  assertEquals(readSource('../scripts/currency-pairs.ts'), renderCurrencyPairsModule(pairs));
+});
+
+Deno.test('renderCurrencyPairsModule: Rejects malformed pairs and unknown codes', () => {
+  const renderError = (pairs: string[]) => {
+    try {
+      renderCurrencyPairsModule(pairs);
+      return null;
+    } catch (error) {
+      return error;
+    }
+  };
+
+  assertEquals(renderError(['usd-kes']) instanceof RangeError, true);
+  assertEquals(renderError(['USD-QQQ']) instanceof RangeError, true);
+});
+
+// ============================================================================
+// LOOKUP TESTS
+// ============================================================================
+
+Deno.test('isPairFormat: Mirrors the oracle format check', () => {
+  assertEquals(isPairFormat('USD-KES'), true);
+  assertEquals(isPairFormat('usd-kes'), false);
+  assertEquals(isPairFormat('KES-KES'), false);
+  assertEquals(isPairFormat('USDKES'), false);
+  assertEquals(isPairFormat('US1-KES'), false);
+});
+
+Deno.test('getCurrencyPair: Returns display metadata for registered pairs', () => {
+  const pair = getCurrencyPair('USD-KES');
+
+  assertEquals(pair?.base.symbol, '$');
+  assertEquals(pair?.quote.name, 'Kenyan Shilling');
+  assertEquals(formatPair(pair!), 'US Dollar → Kenyan Shilling');
+  assertEquals(isSupportedPair('USD-KES'), true);
+  assertEquals(isSupportedPair('JPY-KES'), false);
+});
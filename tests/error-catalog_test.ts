@@ -0,0 +1,86 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  ESCROW_ERRORS,
+  ORACLE_ERRORS,
+  EscrowError,
+  OracleError,
+  TransactionAbortError,
+  UnknownContractError,
+  decodeError,
+  decodeTransactionResult,
+} from '../scripts/errors.ts';
+
+// Helper to collect every `(define-constant err-* (err uN))` from a contract source
+function readErrorConstants(path: string): Record<string, number> {
+  const source = Deno.readTextFileSync(new URL(path, import.meta.url));
+  const constants: Record<string, number> = {};
+  for (const match of source.matchAll(/\(define-constant (err-[a-z0-9-]+) \(err u(\d+)\)\)/g)) {
+    constants[match[1]] = Number(match[2]);
+  }
+  return constants;
+}
+
+function catalogCodes(catalog: Record<string, { code: number }>): Record<string, number> {
+  return Object.fromEntries(Object.entries(catalog).map(([name, def]) => [name, def.code]));
+}
+
+// ============================================================================
+// CATALOG SYNC TESTS
+// ============================================================================
+
+Deno.test('error catalog: Escrow catalog matches stacksend-escrow.clar', () => {
+  assertEquals(
+    catalogCodes(ESCROW_ERRORS),
+    readErrorConstants('../contracts/stacksend-escrow.clar')
+  );
+});
+
+Deno.test('error catalog: Oracle catalog matches stacksend-oracle.clar', () => {
+  assertEquals(
+    catalogCodes(ORACLE_ERRORS),
+    readErrorConstants('../contracts/stacksend-oracle.clar')
+  );
+});
+
+// ============================================================================
+// DECODING TESTS
+// ============================================================================
+
+Deno.test('decodeError: Decodes escrow error codes', () => {
+  const error = decodeError('(err u107)');
+
+  assertEquals(error instanceof EscrowError, true);
+  assertEquals((error as EscrowError).code, 107);
+  assertEquals((error as EscrowError).errorName, 'err-deadline-passed');
+});
+
+Deno.test('decodeError: Decodes oracle error codes', () => {
+  const error = decodeError('(err u202)');
+
+  assertEquals(error instanceof OracleError, true);
+  assertEquals((error as OracleError).errorName, 'err-stale-price');
+});
+
+Deno.test('decodeError: Returns null for ok responses', () => {
+  assertEquals(decodeError('(ok true)'), null);
+});
+
+Deno.test('decodeError: Reports unknown codes', () => {
+  assertEquals(decodeError('(err u999)') instanceof UnknownContractError, true);
+  assertEquals(decodeError('(err u200)', 'escrow') instanceof UnknownContractError, true);
+});
+
+Deno.test('decodeTransactionResult: Distinguishes post-condition and runtime aborts', () => {
+  const postCondition = decodeTransactionResult({
+    tx_status: 'abort_by_post_condition',
+    tx_result: { repr: '(ok true)' },
+  });
+  const runtime = decodeTransactionResult({
+    tx_status: 'abort_by_response',
+    tx_result: { repr: '(err none)' },
+  });
+
+  assertEquals((postCondition as TransactionAbortError).reason, 'post-condition');
+  assertEquals((runtime as TransactionAbortError).reason, 'runtime');
+  assertEquals(decodeTransactionResult({ tx_status: 'success' }), null);
+});
@@ -0,0 +1,351 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { Cl, cvToHex, type ClarityValue } from '@stacks/transactions';
+import {
+  EventIndexer,
+  IndexerError,
+  type NewBlockPayload,
+  type ObserverEvent,
+} from '../scripts/indexer.ts';
+
+// Recorded from a devnet session: blocks 2-7 on the canonical fork, and a competing
+// block 7 plus block 8 that reorg it away
+const MAIN = new URL('./fixtures/indexer/main.jsonl', import.meta.url);
+const FORK = new URL('./fixtures/indexer/fork.jsonl', import.meta.url);
+
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const WALLET_1 = 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5';
+const WALLET_2 = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const WALLET_3 = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+function payloads(fixture: URL): NewBlockPayload[] {
+  return Deno.readTextFileSync(fixture)
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line));
+}
+
+function createIndexer(): EventIndexer {
+  return new EventIndexer({
+    database: ':memory:',
+    escrowContract: `${DEPLOYER}.stacksend-escrow`,
+    oracleContract: `${DEPLOYER}.stacksend-oracle`,
+  });
+}
+
+function ingest(indexer: EventIndexer, fixture: URL): void {
+  for (const payload of payloads(fixture)) indexer.ingestBlock(payload);
+}
+
+// A print event of a transaction in a synthetic block, from the escrow unless `contract` is given
+function printEvent(
+  txid: string,
+  eventIndex: number,
+  name: string,
+  fields: Record<string, ClarityValue>,
+  contract = 'stacksend-escrow'
+): ObserverEvent {
+  return {
+    txid,
+    event_index: eventIndex,
+    committed: true,
+    type: 'contract_event',
+    contract_event: {
+      contract_identifier: `${DEPLOYER}.${contract}`,
+      topic: 'print',
+      raw_value: cvToHex(Cl.tuple({ event: Cl.stringAscii(name), version: Cl.uint(1), ...fields })),
+    },
+  };
+}
+
+function statuses(indexer: EventIndexer): [bigint, string, bigint][] {
+  return indexer
+    .listRemittances()
+    .map(remittance => [remittance.remittanceId, remittance.status, remittance.totalRaised]);
+}
+
+// ============================================================================
+// INGESTION TESTS
+// ============================================================================
+
+Deno.test('EventIndexer: Builds rows from a recorded session', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+
+  assertEquals(indexer.getTip(), 7);
+  assertEquals(statuses(indexer), [
+    [0n, 'completed', 1_000_000n],
+    [1n, 'completed', 2_000_000n],
+    [2n, 'cancelled', 0n],
+    [3n, 'funded', 1_000_000n],
+  ]);
+  assertEquals(indexer.getRemittance(2n)?.description, 'Rent');
+
+  // The second contribution to #0 was made through the escrow-relay contract
+  assertEquals(
+    indexer.listContributions({ remittanceId: 0n }).map(c => [c.contributor, c.amount]),
+    [
+      [WALLET_3, 400_000n],
+      [WALLET_3, 600_000n],
+    ]
+  );
+  assertEquals(
+    indexer.listContributions({ remittanceId: 3n }).map(c => [c.contributor, c.amount]),
+    [[WALLET_1, 1_000_000n]]
+  );
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Records payouts from the transfers the escrow made', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+
+  // The release that aborted in block 7 leaves no row
+  assertEquals(
+    indexer.listReleases().map(r => [r.remittanceId, r.netAmount, r.platformFee]),
+    [
+      [0n, 995_000n, 5000n],
+      [1n, 1_990_000n, 10_000n],
+    ]
+  );
+  assertEquals(
+    indexer.getRemittanceSplits(1n)?.map(split => [split.recipient, split.paidAmount]),
+    [
+      [WALLET_2, 1_194_000n],
+      [WALLET_3, 796_000n],
+    ]
+  );
+
+  assertEquals(
+    indexer.listWithdrawals(2n).map(w => [w.contributor, w.amount, w.remaining]),
+    [[WALLET_2, 40_000n, 60_000n]]
+  );
+  const [cancellation] = indexer.listCancellations();
+  assertEquals(cancellation?.remittanceId, 2n);
+  assertEquals(cancellation?.refundedAmount, 260_000n);
+  assertEquals(cancellation?.refundCount, 2);
+  assertEquals(
+    indexer.listRefunds(2n).map(refund => [refund.contributor, refund.amount]),
+    [
+      [WALLET_2, 60_000n],
+      [WALLET_3, 200_000n],
+    ]
+  );
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Records schedule triggers and oracle updates', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+
+  const [trigger] = indexer.listScheduleTriggers(0n);
+  assertEquals(trigger?.remittanceId, 3n);
+  assertEquals(trigger?.prefunded, true);
+  assertEquals(indexer.getSchedule(0n)?.nextPeriod, 1n);
+  assertEquals(indexer.getSchedule(0n)?.deposit, 1_000_000n);
+
+  assertEquals(
+    indexer.listRateUpdates('STX-KES').map(update => [update.rate, update.updater]),
+    [[25_000_000_000n, DEPLOYER]]
+  );
+  indexer.close();
+});
+
+// ============================================================================
+// REORG TESTS
+// ============================================================================
+
+Deno.test('EventIndexer: Ignores a block delivered twice', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+  const before = indexer.listContributions();
+
+  const blocks = payloads(MAIN);
+  indexer.ingestBlock(blocks[2]!);
+  indexer.ingestBlock(blocks[blocks.length - 1]!);
+
+  assertEquals(indexer.getTip(), 7);
+  assertEquals(indexer.listContributions(), before);
+  assertEquals(indexer.listReleases().length, 2);
+  assertEquals(indexer.listRefunds().length, 2);
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Replays derived rows when a fork replaces the tip', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+  ingest(indexer, FORK);
+
+  // On the new fork #2 was funded and released instead of cancelled
+  assertEquals(indexer.getTip(), 8);
+  assertEquals(statuses(indexer), [
+    [0n, 'completed', 1_000_000n],
+    [1n, 'completed', 2_000_000n],
+    [2n, 'completed', 5_000_000n],
+    [3n, 'funded', 1_000_000n],
+  ]);
+  assertEquals(indexer.listWithdrawals(), []);
+  assertEquals(indexer.listCancellations(), []);
+  assertEquals(indexer.listRefunds(), []);
+  assertEquals(
+    indexer.listReleases().map(r => [r.remittanceId, r.netAmount]),
+    [
+      [0n, 995_000n],
+      [1n, 1_990_000n],
+      [2n, 4_975_000n],
+    ]
+  );
+  assertEquals(
+    indexer.listContributions({ remittanceId: 2n }).map(c => [c.contributor, c.amount]),
+    [
+      [WALLET_2, 100_000n],
+      [WALLET_3, 200_000n],
+      [WALLET_3, 4_700_000n],
+    ]
+  );
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Rolls back a block the new fork does not build on', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+  const blocks = payloads(MAIN);
+  const [replacement, next] = payloads(FORK);
+
+  // A block 7 on a fork that also replaced block 6
+  let error: unknown = null;
+  try {
+    indexer.ingestBlock({ ...replacement!, parent_index_block_hash: `0x${'ff'.repeat(32)}` });
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals((error as IndexerError).reason, 'unknown-parent');
+  assertEquals(indexer.getTip(), 5);
+  assertEquals(indexer.getRemittance(3n), null);
+
+  // Delivering the fork from block 6 on applies it
+  indexer.ingestBlock(blocks.find(block => block.block_height === 6)!);
+  indexer.ingestBlock(replacement!);
+  indexer.ingestBlock(next!);
+  assertEquals(indexer.getTip(), 8);
+  assertEquals(statuses(indexer)[2], [2n, 'completed', 5_000_000n]);
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Rejects a block that skips a height', () => {
+  const indexer = createIndexer();
+  const [first, , third] = payloads(MAIN);
+  indexer.ingestBlock(first!);
+
+  let error: unknown = null;
+  try {
+    indexer.ingestBlock(third!);
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals(error instanceof IndexerError, true);
+  assertEquals((error as IndexerError).reason, 'missing-block');
+  assertEquals(indexer.getTip(), 2);
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Keeps token amounts beyond the 64-bit integer range', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+  const tip = payloads(MAIN).at(-1)!;
+
+  // Ten units of an 18-decimal token, above 2^63
+  const target = 10_000_000_000_000_000_000n;
+  const contributed = 9_300_000_000_000_000_000n;
+  const txid = `0x${'ab'.repeat(32)}`;
+  const time = tip.block_time! + 10;
+  indexer.ingestBlock({
+    ...tip,
+    block_height: 8,
+    block_hash: `0x${'08'.repeat(32)}`,
+    index_block_hash: `0x${'18'.repeat(32)}`,
+    parent_index_block_hash: tip.index_block_hash,
+    burn_block_time: time,
+    block_time: time,
+    transactions: [{ txid, tx_index: 0, status: 'success', raw_result: '0x03', raw_tx: '0x00' }],
+    events: [
+      printEvent(txid, 0, 'remittance-created', {
+        'remittance-id': Cl.uint(4),
+        creator: Cl.principal(WALLET_1),
+        recipient: Cl.principal(WALLET_2),
+        'target-amount': Cl.uint(target),
+        deadline: Cl.uint(time + 3_600),
+        description: Cl.stringAscii('Tuition'),
+        'currency-pair': Cl.stringAscii('USD-KES'),
+        token: Cl.some(Cl.principal(`${DEPLOYER}.mock-token`)),
+        'fiat-target': Cl.none(),
+        'phone-hash': Cl.none(),
+        'claim-hash': Cl.none(),
+        'claim-expires-at': Cl.none(),
+        'created-at': Cl.uint(time),
+      }),
+      printEvent(txid, 1, 'contribution-received', {
+        'remittance-id': Cl.uint(4),
+        contributor: Cl.principal(WALLET_3),
+        amount: Cl.uint(contributed),
+        'contributor-total': Cl.uint(contributed),
+        'total-raised': Cl.uint(contributed),
+        'contributed-at': Cl.uint(time),
+      }),
+    ],
+  });
+
+  assertEquals(indexer.getTip(), 8);
+  assertEquals(indexer.getRemittance(4n)?.targetAmount, target);
+  assertEquals(indexer.getRemittance(4n)?.totalRaised, contributed);
+  assertEquals(
+    indexer.listContributions({ remittanceId: 4n }).map(c => c.amount),
+    [contributed]
+  );
+  indexer.close();
+});
+
+Deno.test('EventIndexer: Rejects an oracle event of an unsupported version', () => {
+  const indexer = createIndexer();
+  ingest(indexer, MAIN);
+  const tip = payloads(MAIN).at(-1)!;
+
+  const txid = `0x${'cd'.repeat(32)}`;
+  const time = tip.block_time! + 10;
+  const rate = printEvent(
+    txid,
+    0,
+    'rate-published',
+    {
+      'currency-pair': Cl.stringAscii('STX-KES'),
+      'round-id': Cl.uint(1),
+      rate: Cl.uint(26_000_000_000n),
+      updater: Cl.principal(DEPLOYER),
+      'submission-count': Cl.uint(1),
+      'outlier-count': Cl.uint(0),
+      'updated-at': Cl.uint(time),
+      version: Cl.uint(2),
+    },
+    'stacksend-oracle'
+  );
+
+  let error: unknown = null;
+  try {
+    indexer.ingestBlock({
+      ...tip,
+      block_height: 8,
+      block_hash: `0x${'08'.repeat(32)}`,
+      index_block_hash: `0x${'18'.repeat(32)}`,
+      parent_index_block_hash: tip.index_block_hash,
+      burn_block_time: time,
+      block_time: time,
+      transactions: [{ txid, tx_index: 0, status: 'success', raw_result: '0x03', raw_tx: '0x00' }],
+      events: [rate],
+    });
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals((error as TypeError).message, 'Unsupported rate-published event version 2');
+  assertEquals(indexer.getTip(), 7);
+  assertEquals(indexer.listRateUpdates('STX-KES').length, 1);
+  indexer.close();
+});
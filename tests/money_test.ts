@@ -0,0 +1,103 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  AmountError,
+  MAX_AMOUNT,
+  MIN_AMOUNT,
+  formatAmount,
+  formatSTX,
+  isValidAmount,
+  parseAmount,
+  parseSTX,
+  validateAmount,
+  type TokenInfo,
+} from '../scripts/money.ts';
+
+const SBTC: TokenInfo = { contract: 'SP000.sbtc-token', name: 'sBTC', symbol: 'sBTC', decimals: 8 };
+const WHOLE: TokenInfo = { contract: 'SP000.points', name: 'Points', symbol: 'PTS', decimals: 0 };
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+// ============================================================================
+// PARSING TESTS
+// ============================================================================
+
+Deno.test('parseAmount: Converts decimal strings to base units exactly', () => {
+  assertEquals(parseSTX('0.29'), 290000n);
+  assertEquals(parseSTX(' 1000000 '), 1000000000000n);
+  assertEquals(parseSTX('0.000001'), 1n);
+  assertEquals(parseSTX('1.5'), 1500000n);
+  assertEquals(parseAmount('0.00000001', SBTC), 1n);
+  assertEquals(parseAmount('42', WHOLE), 42n);
+});
+
+Deno.test('parseAmount: Rejects more decimals than the asset has', () => {
+  assertEquals(thrown(() => parseSTX('0.0000001')) instanceof AmountError, true);
+  assertEquals(thrown(() => parseAmount('1.5', WHOLE)) instanceof AmountError, true);
+  assertEquals(parseAmount('0.12345678', SBTC), 12345678n);
+});
+
+Deno.test('parseAmount: Rejects signs, exponents and malformed numbers', () => {
+  for (const input of ['', '-1', '+1', '1e6', '1.', '.5', '1,000', 'abc', '0x10']) {
+    assertEquals(thrown(() => parseSTX(input)) instanceof AmountError, true);
+  }
+});
+
+// ============================================================================
+// FORMATTING TESTS
+// ============================================================================
+
+Deno.test('formatAmount: Shows every decimal unless minFractionDigits trims zeros', () => {
+  assertEquals(formatSTX(290000n), '0.290000');
+  assertEquals(formatSTX(290000n, { minFractionDigits: 0 }), '0.29');
+  assertEquals(formatSTX(1000000n, { minFractionDigits: 0 }), '1');
+  assertEquals(formatSTX(1500000n, { minFractionDigits: 2 }), '1.50');
+  assertEquals(formatSTX(1n, { minFractionDigits: 0 }), '0.000001');
+  assertEquals(formatAmount(12345678n, SBTC), '0.12345678');
+  assertEquals(formatAmount(42n, WHOLE), '42');
+});
+
+Deno.test('formatAmount: Groups whole digits and keeps the sign', () => {
+  const brief = { minFractionDigits: 0 };
+  assertEquals(formatSTX(MAX_AMOUNT, { ...brief, groupSeparator: ',' }), '1,000,000');
+  assertEquals(
+    formatSTX(1234567890123n, { groupSeparator: '.', decimalSeparator: ',' }),
+    '1.234.567,890123'
+  );
+  assertEquals(formatSTX(-2500000n, brief), '-2.5');
+});
+
+Deno.test('formatAmount: Round-trips through parseAmount', () => {
+  for (const amount of [MIN_AMOUNT, 290000n, 1000000n, 999999999999n, MAX_AMOUNT]) {
+    assertEquals(parseSTX(formatSTX(amount)), amount);
+  }
+});
+
+// ============================================================================
+// BOUNDS TESTS
+// ============================================================================
+
+Deno.test('validateAmount: Accepts exactly the validate-amount bounds', () => {
+  assertEquals(isValidAmount(0n), false);
+  assertEquals(isValidAmount(MIN_AMOUNT), true);
+  assertEquals(isValidAmount(MAX_AMOUNT), true);
+  assertEquals(isValidAmount(MAX_AMOUNT + 1n), false);
+  assertEquals(validateAmount(MAX_AMOUNT), MAX_AMOUNT);
+
+  const error = thrown(() => validateAmount(MAX_AMOUNT + 1n));
+  assertEquals(error instanceof AmountError, true);
+  assertEquals(
+    (error as AmountError).message,
+    'Amount 1000000.000001 STX is outside 0.000001-1000000 STX'
+  );
+  assertEquals(
+    (thrown(() => validateAmount(5n, 10n, 100n, SBTC)) as AmountError).message,
+    'Amount 0.00000005 sBTC is outside 0.0000001-0.000001 sBTC'
+  );
+});
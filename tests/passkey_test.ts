@@ -0,0 +1,160 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  PasskeyError,
+  compressPasskeyPublicKey,
+  derToCompactSignature,
+  encodePasskeyAssertion,
+  hashRpId,
+  parseAuthenticatorData,
+  passkeyChallenge,
+  type PasskeyChallengeParams,
+} from '../scripts/passkey.ts';
+
+// The passkey of the passkey tests in stacksend-escrow_test.ts
+const SPKI =
+  '3059301306072a8648ce3d020106082a8648ce3d030107034200042993ae06c5258b4e87c374966ac53dbcf1c57459d3147d678e90fd6bb03a4c257d43bd055393537d42a190be203623e130b39c8fd7bb27d30290f4db82c96d4e';
+const RP_ID_HASH = 'daff41e51da08e0e3c91d0934d0d3a5a7f4b3a3ce97ecaa9ea487e9eb9a2d21a';
+const AUTHENTICATOR_DATA = `${RP_ID_HASH}0500000001`;
+// Release of remittance 0 at nonce 1, whose DER signature has a high s
+const NEXT_RELEASE_SIGNATURE =
+  '3046022100826ac2c1ccafb330332ebec176348b304efb502d348e612d271e45c0686128740221008ae90425f19c719a2b3b9cfe7d5ce2a9495526a008c3a91c2a902627ebd70d1c';
+
+const RELEASE: PasskeyChallengeParams = {
+  escrowContract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.stacksend-escrow',
+  chainId: 0x80000000,
+  remittanceId: 0n,
+  action: 'release',
+  nonce: 0n,
+};
+
+function bytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], pair => parseInt(pair, 16));
+}
+
+function clientData(challenge: string): Uint8Array {
+  const encoded = btoa(String.fromCharCode(...bytes(challenge)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return new TextEncoder().encode(
+    `{"type":"webauthn.get","challenge":"${encoded}","origin":"https://stacksend.app"}`
+  );
+}
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+// ============================================================================
+// CHALLENGE TESTS
+// ============================================================================
+
+Deno.test('passkeyChallenge: Binds the chain, escrow, remittance, action and nonce', () => {
+  // Matches get-passkey-challenge, see the passkey tests in stacksend-escrow_test.ts
+  assertEquals(
+    passkeyChallenge(RELEASE),
+    '3f49cad5343b596f7bcea88ccaae27b65506a8b1763965a7a736046f1fa052a5'
+  );
+  assertEquals(
+    passkeyChallenge({ ...RELEASE, action: 'cancel' }),
+    '422bf42d3273628b83e3a81f16427c714c42a91b3feacba7e801c3d3f56662a8'
+  );
+  assertEquals(
+    passkeyChallenge({ ...RELEASE, nonce: 1n }),
+    '3d353f4a590d2f60b31ec62e5999998e926851697aeabdca84f6354c3c4dd016'
+  );
+
+  const variants = [
+    { ...RELEASE, chainId: 1 },
+    { ...RELEASE, escrowContract: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.other-escrow' },
+    { ...RELEASE, remittanceId: 1n },
+  ];
+  assertEquals(new Set([RELEASE, ...variants].map(passkeyChallenge)).size, 4);
+});
+
+// ============================================================================
+// ENCODING TESTS
+// ============================================================================
+
+Deno.test('compressPasskeyPublicKey: Accepts SPKI and raw uncompressed P-256 keys', () => {
+  const compressed = '022993ae06c5258b4e87c374966ac53dbcf1c57459d3147d678e90fd6bb03a4c25';
+
+  assertEquals(compressPasskeyPublicKey(bytes(SPKI)), compressed);
+  assertEquals(compressPasskeyPublicKey(bytes(SPKI.slice(-130))), compressed);
+  assertEquals(
+    thrown(() => compressPasskeyPublicKey(bytes(compressed))) instanceof PasskeyError,
+    true
+  );
+});
+
+Deno.test('derToCompactSignature: Normalizes s to the lower half of the order', () => {
+  assertEquals(
+    derToCompactSignature(bytes(NEXT_RELEASE_SIGNATURE)),
+    '826ac2c1ccafb330332ebec176348b304efb502d348e612d271e45c068612874' +
+      '7516fbd90e638e66d4c4630182a31d567391d40d9e53f568c929a49b108c1835'
+  );
+
+  const truncated = bytes(NEXT_RELEASE_SIGNATURE.slice(0, -2));
+  assertEquals(thrown(() => derToCompactSignature(truncated)) instanceof PasskeyError, true);
+  assertEquals(thrown(() => derToCompactSignature(bytes('3000'))) instanceof PasskeyError, true);
+});
+
+Deno.test('parseAuthenticatorData: Reads the relying party hash, flags and sign count', () => {
+  assertEquals(hashRpId('stacksend.app'), RP_ID_HASH);
+  assertEquals(parseAuthenticatorData(bytes(AUTHENTICATOR_DATA)), {
+    rpIdHash: RP_ID_HASH,
+    flags: 0x05,
+    userPresent: true,
+    userVerified: true,
+    signCount: 1,
+  });
+  assertEquals(
+    thrown(() => parseAuthenticatorData(bytes(AUTHENTICATOR_DATA.slice(0, 66)))) instanceof
+      PasskeyError,
+    true
+  );
+});
+
+Deno.test('encodePasskeyAssertion: Rejects assertions the contract would reject', () => {
+  const challenge = passkeyChallenge({ ...RELEASE, nonce: 1n });
+  const response = {
+    authenticatorData: bytes(AUTHENTICATOR_DATA),
+    clientDataJSON: clientData(challenge),
+    signature: bytes(NEXT_RELEASE_SIGNATURE),
+  };
+
+  const assertion = encodePasskeyAssertion(response, challenge, RP_ID_HASH);
+  assertEquals(assertion.authenticatorData, AUTHENTICATOR_DATA);
+  assertEquals(assertion.signature, derToCompactSignature(response.signature));
+  assertEquals(
+    new TextDecoder().decode(bytes(assertion.clientDataJson)).includes('"origin"'),
+    true
+  );
+
+  const rejected = (
+    changes: Partial<typeof response>,
+    expected = challenge,
+    rpIdHash = RP_ID_HASH
+  ) =>
+    thrown(() => encodePasskeyAssertion({ ...response, ...changes }, expected, rpIdHash)) instanceof
+    PasskeyError;
+  // Made for another nonce than the passkey's current one
+  assertEquals(rejected({}, passkeyChallenge(RELEASE)), true);
+  // Made for another site than the one the passkey was registered for
+  assertEquals(rejected({}, challenge, hashRpId('stacksend.example')), true);
+  assertEquals(
+    rejected({ authenticatorData: bytes(AUTHENTICATOR_DATA.replace(/05(?=00000001$)/, '01')) }),
+    true
+  );
+  const reordered = JSON.stringify({
+    challenge: JSON.parse(new TextDecoder().decode(response.clientDataJSON)).challenge,
+    type: 'webauthn.get',
+  });
+  assertEquals(rejected({ clientDataJSON: new TextEncoder().encode(reordered) }), true);
+  assertEquals(rejected({ clientDataJSON: new Uint8Array(1025) }), true);
+});
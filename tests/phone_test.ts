@@ -0,0 +1,86 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  PhoneNumberError,
+  hashPhoneNumber,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+  parsePhoneNumber,
+} from '../scripts/phone.ts';
+
+const SALT = '07'.repeat(32);
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+// ============================================================================
+// NORMALIZATION TESTS
+// ============================================================================
+
+Deno.test('normalizePhoneNumber: Accepts international and national forms', () => {
+  assertEquals(normalizePhoneNumber('+254 712 345 678'), '+254712345678');
+  assertEquals(normalizePhoneNumber('00254-712-345-678'), '+254712345678');
+  assertEquals(normalizePhoneNumber('0712 345 678', 'KE'), '+254712345678');
+  assertEquals(normalizePhoneNumber('712345678', 'KE'), '+254712345678');
+  // Trunk prefix left in an international number
+  assertEquals(normalizePhoneNumber('+44 (0)7911 123456'), '+447911123456');
+  assertEquals(normalizePhoneNumber('1 (202) 555-0123', 'US'), '+12025550123');
+});
+
+Deno.test('normalizePhoneNumber: Applies each country format', () => {
+  const cases: [string, string, string][] = [
+    ['0803 123 4567', 'NG', '+2348031234567'],
+    ['024 123 4567', 'GH', '+233241234567'],
+    ['0712 345678', 'UG', '+256712345678'],
+    ['0712 345 678', 'TZ', '+255712345678'],
+    ['082 123 4567', 'ZA', '+27821234567'],
+    ['77 123 45 67', 'SN', '+221771234567'],
+    ['07 01 23 45 67', 'CI', '+2250701234567'],
+    ['098123 45678', 'IN', '+919812345678'],
+    ['0917 123 4567', 'PH', '+639171234567'],
+    ['55 1234 5678', 'MX', '+525512345678'],
+    ['06 12 34 56 78', 'FR', '+33612345678'],
+    ['0151 12345678', 'DE', '+4915112345678'],
+    ['050 123 4567', 'AE', '+971501234567'],
+    ['(416) 555-0199', 'CA', '+14165550199'],
+  ];
+  for (const [input, country, e164] of cases) {
+    assertEquals(normalizePhoneNumber(input, country), e164);
+    // The normalized form parses back to the same number
+    assertEquals(normalizePhoneNumber(e164), e164);
+  }
+  assertEquals(parsePhoneNumber('+2250701234567').country.code, 'CI');
+  assertEquals(parsePhoneNumber('+2250701234567').nationalNumber, '0701234567');
+});
+
+Deno.test('parsePhoneNumber: Rejects malformed, landline and unsupported numbers', () => {
+  assertEquals(isValidPhoneNumber('+254 712 abc 678'), false);
+  assertEquals(isValidPhoneNumber('0712 345 678'), false); // national form without a country
+  assertEquals(isValidPhoneNumber('020 2345678', 'KE'), false); // Nairobi landline
+  assertEquals(isValidPhoneNumber('+25471234567'), false); // one digit short
+  assertEquals(isValidPhoneNumber('+81 90 1234 5678'), false); // Japan is not supported
+  assertEquals(isValidPhoneNumber('0712 345 678', 'JP'), false);
+  assertEquals(thrown(() => parsePhoneNumber('+1 555')) instanceof PhoneNumberError, true);
+});
+
+// ============================================================================
+// HASH TESTS
+// ============================================================================
+
+Deno.test('hashPhoneNumber: Hashes only normalized numbers with a 32-byte salt', () => {
+  // Matches get-phone-hash, see the phone remittance tests in stacksend-escrow_test.ts
+  assertEquals(
+    hashPhoneNumber('+254712345678', SALT),
+    '61b8698c884b5029302a7e3f578e11714d2e56f2ba065e20dd66e80910279220'
+  );
+  assertEquals(
+    thrown(() => hashPhoneNumber('+254 712 345 678', SALT)) instanceof PhoneNumberError,
+    true
+  );
+  assertEquals(thrown(() => hashPhoneNumber('+254712345678', '07')) instanceof RangeError, true);
+});
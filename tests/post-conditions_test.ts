@@ -0,0 +1,199 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { PostConditionMode } from '@stacks/transactions';
+import { claimHash } from '../scripts/claim-code.ts';
+import { EscrowClient } from '../scripts/escrow-client.ts';
+import { REFUND_PAGE_SIZE } from '../scripts/escrow-model.ts';
+import { PostConditionBuilder, type PostConditionSource } from '../scripts/post-conditions.ts';
+import type { Contribution, Remittance, SplitRecipient } from '../scripts/types.ts';
+
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const ESCROW = `${DEPLOYER}.stacksend-escrow`;
+const TOKEN = `${DEPLOYER}.mock-token`;
+const CREATOR = 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5';
+const PARENT = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const SCHOOL = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+
+const client = new EscrowClient({ contractAddress: DEPLOYER, network: 'testnet' });
+
+const REMITTANCE: Remittance = {
+  creator: CREATOR,
+  recipient: PARENT,
+  targetAmount: 1_000_000n,
+  totalRaised: 1_000_000n,
+  deadline: 2_000_000_000n,
+  description: 'School fees',
+  status: 'funded',
+  createdAt: 1_700_000_000n,
+  releasedAt: null,
+  currencyPair: 'USD-KES',
+  token: null,
+  fiatTarget: null,
+  phoneHash: null,
+  claimHash: null,
+  claimExpiresAt: null,
+};
+
+interface SourceState {
+  remittance?: Remittance;
+  splits?: SplitRecipient[];
+  /** Contributors in the order the escrow indexed them, with their current contribution */
+  contributions?: [string, bigint][];
+  nextRefundIndex?: bigint;
+}
+
+function source(state: SourceState = {}): PostConditionSource {
+  const contributions = state.contributions ?? [];
+  return {
+    getRemittance: () => Promise.resolve(state.remittance ?? null),
+    getRemittanceSplits: () => Promise.resolve(state.splits ?? null),
+    getPlatformFee: () => Promise.resolve(50n),
+    getContribution: (_remittanceId, contributor) => {
+      const entry = contributions.find(([principal]) => principal === contributor);
+      const contribution: Contribution | null = entry
+        ? { amount: entry[1], contributedAt: 1_700_000_000n }
+        : null;
+      return Promise.resolve(contribution);
+    },
+    getContributors: (_remittanceId, offset = 0n, limit = REFUND_PAGE_SIZE) =>
+      Promise.resolve(
+        contributions
+          .slice(Number(offset), Number(offset + limit))
+          .map(([contributor]) => contributor)
+      ),
+    getRefundProgress: () =>
+      Promise.resolve({
+        nextIndex: state.nextRefundIndex ?? 0n,
+        pendingCount: BigInt(contributions.length) - (state.nextRefundIndex ?? 0n),
+      }),
+    getSchedule: () => Promise.resolve(null),
+    getTokenAssetName: () => Promise.resolve('mock-token'),
+  };
+}
+
+function builder(state?: SourceState): PostConditionBuilder {
+  return new PostConditionBuilder(source(state), ESCROW);
+}
+
+// Contributors numbered by their position in the escrow's index
+function contributor(index: number): string {
+  return `${DEPLOYER}.contributor-${index}`;
+}
+
+// ============================================================================
+// TRANSFER TESTS
+// ============================================================================
+
+Deno.test('PostConditionBuilder: Pins the amount a contributor sends', async () => {
+  const plan = await builder().forCall(client.contribute(0n, 250_000n), SCHOOL);
+  assertEquals(plan.postConditionMode, PostConditionMode.Deny);
+  assertEquals(plan.transfers, [{ sender: SCHOOL, recipient: ESCROW, amount: 250_000n }]);
+  assertEquals(plan.postConditions, [
+    { type: 'stx-postcondition', address: SCHOOL, condition: 'eq', amount: '250000' },
+  ]);
+
+  const token = await builder().forCall(client.contribute(0n, 7n, TOKEN), SCHOOL);
+  assertEquals(token.postConditions, [
+    {
+      type: 'ft-postcondition',
+      address: SCHOOL,
+      condition: 'eq',
+      amount: '7',
+      asset: `${TOKEN}::mock-token`,
+    },
+  ]);
+});
+
+Deno.test('PostConditionBuilder: Sends the net amount and the fee on release', async () => {
+  const plan = await builder({ remittance: REMITTANCE }).forCall(client.releaseFunds(0n), PARENT);
+  assertEquals(plan.transfers, [
+    { sender: ESCROW, recipient: PARENT, amount: 995_000n },
+    { sender: ESCROW, recipient: DEPLOYER, amount: 5000n },
+  ]);
+  // Both payments leave the escrow, so they share one post-condition
+  assertEquals(plan.postConditions, [
+    { type: 'stx-postcondition', address: ESCROW, condition: 'eq', amount: '1000000' },
+  ]);
+});
+
+Deno.test('PostConditionBuilder: Lists each share of a split release', async () => {
+  const plan = await builder({
+    remittance: { ...REMITTANCE, totalRaised: 1_000_001n },
+    splits: [
+      { recipient: PARENT, shareBps: 6000n },
+      { recipient: SCHOOL, shareBps: 4000n },
+    ],
+  }).forCall(client.releaseFunds(1n), CREATOR);
+  assertEquals(plan.transfers, [
+    { sender: ESCROW, recipient: PARENT, amount: 597_001n },
+    { sender: ESCROW, recipient: SCHOOL, amount: 398_000n },
+    { sender: ESCROW, recipient: DEPLOYER, amount: 5000n },
+  ]);
+  assertEquals(plan.postConditions, [
+    { type: 'stx-postcondition', address: ESCROW, condition: 'eq', amount: '1000001' },
+  ]);
+});
+
+Deno.test('PostConditionBuilder: Pays the recipient a claim is signed for', async () => {
+  const claim = { remittanceId: 2n, secret: '09'.repeat(32) };
+  const plan = await builder({
+    remittance: { ...REMITTANCE, recipient: ESCROW, claimHash: claimHash(claim.secret) },
+  }).forCall(client.claimRemittance(claim, SCHOOL), CREATOR);
+  assertEquals(plan.transfers, [
+    { sender: ESCROW, recipient: SCHOOL, amount: 995_000n },
+    { sender: ESCROW, recipient: DEPLOYER, amount: 5000n },
+  ]);
+});
+
+// ============================================================================
+// REFUND TESTS
+// ============================================================================
+
+Deno.test('PostConditionBuilder: Refunds the first page on cancel', async () => {
+  const contributions: [string, bigint][] = Array.from(
+    { length: Number(REFUND_PAGE_SIZE) + 2 },
+    (_, index) => [contributor(index), BigInt(index + 1) * 1000n]
+  );
+  // The second contributor already claimed a refund of their own
+  contributions[1] = [contributor(1), 0n];
+
+  const plan = await builder({ remittance: REMITTANCE, contributions }).forCall(
+    client.cancelRemittance(0n),
+    CREATOR
+  );
+  assertEquals(plan.transfers.length, Number(REFUND_PAGE_SIZE) - 1);
+  assertEquals(plan.transfers[0], { sender: ESCROW, recipient: contributor(0), amount: 1000n });
+  assertEquals(plan.transfers[1]?.recipient, contributor(2));
+  assertEquals(plan.transfers.at(-1)?.recipient, contributor(Number(REFUND_PAGE_SIZE) - 1));
+
+  // 1 + 3 + 4 + ... + 50 thousand
+  assertEquals(plan.postConditions, [
+    { type: 'stx-postcondition', address: ESCROW, condition: 'eq', amount: '1273000' },
+  ]);
+});
+
+Deno.test('PostConditionBuilder: Refunds the page process-refunds is at', async () => {
+  const contributions: [string, bigint][] = Array.from(
+    { length: Number(REFUND_PAGE_SIZE) + 2 },
+    (_, index) => [contributor(index), 1000n]
+  );
+  const plan = await builder({
+    remittance: { ...REMITTANCE, status: 'cancelled' },
+    contributions,
+    nextRefundIndex: REFUND_PAGE_SIZE,
+  }).forCall(client.processRefunds(0n), CREATOR);
+  assertEquals(plan.transfers, [
+    { sender: ESCROW, recipient: contributor(Number(REFUND_PAGE_SIZE)), amount: 1000n },
+    { sender: ESCROW, recipient: contributor(Number(REFUND_PAGE_SIZE) + 1), amount: 1000n },
+  ]);
+  assertEquals(plan.postConditions, [
+    { type: 'stx-postcondition', address: ESCROW, condition: 'eq', amount: '2000' },
+  ]);
+
+  // Nothing left to refund means nothing may leave the escrow
+  const done = await builder({
+    contributions,
+    nextRefundIndex: BigInt(contributions.length),
+  }).forCall(client.processRefunds(0n), CREATOR);
+  assertEquals(done.transfers, []);
+  assertEquals(done.postConditions, []);
+});
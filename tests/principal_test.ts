@@ -0,0 +1,107 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  ADDRESS_VERSIONS,
+  C32Error,
+  MAX_CONTRACT_NAME_LENGTH,
+  c32address,
+  c32checkDecode,
+  c32decode,
+  c32encode,
+  parsePrincipal,
+  validateRecipient,
+  type PrincipalErrorReason,
+} from '../scripts/principal.ts';
+
+// Vectors from the c32check reference implementation
+const MAINNET = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+const MAINNET_MULTISIG = 'SM2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQVX8X0G';
+const TESTNET = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+const HASH160 = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+function reason(value: string, network: 'mainnet' | 'testnet'): PrincipalErrorReason | null {
+  const result = parsePrincipal(value, network);
+  return result.valid ? null : result.reason;
+}
+
+// ============================================================================
+// ENCODING TESTS
+// ============================================================================
+
+Deno.test('c32address: Matches the reference encoding for each version', () => {
+  assertEquals(c32address(ADDRESS_VERSIONS.mainnet.singleSig, HASH160), MAINNET);
+  assertEquals(c32address(ADDRESS_VERSIONS.mainnet.multiSig, HASH160), MAINNET_MULTISIG);
+  assertEquals(c32address(ADDRESS_VERSIONS.testnet.singleSig, HASH160), TESTNET);
+  assertEquals(c32address(22, '00'.repeat(20)), 'SP000000000000000000002Q6VF78');
+});
+
+Deno.test('c32encode: Keeps leading zero bytes through a round trip', () => {
+  const bytes = new Uint8Array([0, 0, 1, 255]);
+  assertEquals(c32decode(c32encode(bytes)), bytes);
+  assertEquals(c32encode(new Uint8Array([0])), '0');
+});
+
+Deno.test('c32checkDecode: Rejects a bad checksum and characters outside the alphabet', () => {
+  const decoded = c32checkDecode(MAINNET.slice(1));
+  assertEquals(decoded.version, 22);
+
+  for (const [input, expected] of [
+    [`${MAINNET.slice(1, -1)}8`, 'invalid-checksum'],
+    [MAINNET.slice(1).toLowerCase(), 'invalid-character'],
+    ['P22', 'invalid-length'],
+  ] as const) {
+    let error: unknown = null;
+    try {
+      c32checkDecode(input);
+    } catch (caught) {
+      error = caught;
+    }
+    assertEquals(error instanceof C32Error, true);
+    assertEquals((error as C32Error).reason, expected);
+  }
+});
+
+// ============================================================================
+// PRINCIPAL TESTS
+// ============================================================================
+
+Deno.test('parsePrincipal: Parses standard and contract principals', () => {
+  assertEquals(parsePrincipal(MAINNET, 'mainnet'), {
+    valid: true,
+    principal: { address: MAINNET, version: 22, hash160: HASH160, contractName: null },
+  });
+  const contract = parsePrincipal(`${DEPLOYER}.stacksend-escrow`, 'devnet');
+  assertEquals(contract.valid && contract.principal.contractName, 'stacksend-escrow');
+  assertEquals(
+    contract.valid && contract.principal.hash160,
+    '6d78de7b0625dfbfc16c3a8a5735f6dc3dc3f2ce'
+  );
+  assertEquals(reason(MAINNET_MULTISIG, 'mainnet'), null);
+});
+
+Deno.test('parsePrincipal: Reports why a principal is invalid', () => {
+  assertEquals(reason('', 'mainnet'), 'empty');
+  assertEquals(reason(MAINNET.slice(1), 'mainnet'), 'invalid-prefix');
+  assertEquals(reason(`${MAINNET.slice(0, -1)}8`, 'mainnet'), 'invalid-checksum');
+  assertEquals(reason(MAINNET.replace('2', 'I'), 'mainnet'), 'invalid-character');
+  assertEquals(reason(c32address(22, '00'.repeat(19)), 'mainnet'), 'invalid-length');
+  assertEquals(reason(MAINNET, 'testnet'), 'wrong-network');
+  assertEquals(reason(TESTNET, 'mainnet'), 'wrong-network');
+});
+
+Deno.test('parsePrincipal: Checks contract names', () => {
+  const name = 'a'.repeat(MAX_CONTRACT_NAME_LENGTH);
+  assertEquals(reason(`${MAINNET}.${name}`, 'mainnet'), null);
+  assertEquals(reason(`${MAINNET}.${name}a`, 'mainnet'), 'invalid-contract-name');
+  assertEquals(reason(`${MAINNET}.`, 'mainnet'), 'invalid-contract-name');
+  assertEquals(reason(`${MAINNET}.1escrow`, 'mainnet'), 'invalid-contract-name');
+  assertEquals(reason(`${MAINNET}.escrow.v2`, 'mainnet'), 'invalid-contract-name');
+  assertEquals(reason(`${MAINNET}.send escrow`, 'mainnet'), 'invalid-contract-name');
+});
+
+Deno.test('validateRecipient: Rejects the sender like create-remittance', () => {
+  const result = validateRecipient(DEPLOYER, DEPLOYER, 'testnet');
+  assertEquals(result.valid ? null : result.reason, 'same-as-sender');
+  assertEquals(validateRecipient(TESTNET, DEPLOYER, 'testnet').valid, true);
+  assertEquals(validateRecipient(`${DEPLOYER}.vault`, DEPLOYER, 'testnet').valid, true);
+});
@@ -0,0 +1,136 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  CsvReplaySource,
+  RateError,
+  normalizeRate,
+  publishReason,
+  type PublishThresholds,
+} from '../scripts/publisher.ts';
+import { MAX_RATE, MIN_RATE } from '../scripts/quote.ts';
+
+function fixture(name: string): string {
+  return new URL(`./fixtures/publisher/${name}`, import.meta.url).pathname;
+}
+
+const RATES_CSV = fixture('rates.csv');
+
+const THRESHOLDS: PublishThresholds = { deviationBps: 50n, heartbeat: 3_600n };
+
+// 150 KES per USD, published at t = 1,000
+const LAST = { rate: 15_000_000_000n, updatedAt: 1_000n };
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+async function rejected(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+// ============================================================================
+// NORMALIZATION TESTS
+// ============================================================================
+
+Deno.test('normalizeRate: Rounds digits beyond the eighth decimal half up', () => {
+  assertEquals(normalizeRate('150.25'), 15_025_000_000n);
+  assertEquals(normalizeRate(' 250 '), 25_000_000_000n);
+  assertEquals(normalizeRate(150.25), 15_025_000_000n);
+  assertEquals(normalizeRate('1.123456784999'), 112_345_678n);
+  assertEquals(normalizeRate('1.123456785'), 112_345_679n);
+  assertEquals(normalizeRate('0.999999995'), 100_000_000n);
+});
+
+Deno.test('normalizeRate: Accepts exactly the oracle rate bounds', () => {
+  assertEquals(normalizeRate('0.000001'), MIN_RATE);
+  // Rounding up can bring a rate just below the minimum into bounds
+  assertEquals(normalizeRate('0.000000995'), MIN_RATE);
+  assertEquals(normalizeRate('100000000'), MAX_RATE);
+
+  for (const input of ['0.00000099', '0.000000994', '100000000.00000001', '0']) {
+    assertEquals(thrown(() => normalizeRate(input)) instanceof RateError, true);
+  }
+});
+
+Deno.test('normalizeRate: Rejects anything but a plain decimal', () => {
+  for (const input of ['', '-1', '+1', '1e3', '1.', '.5', '1,5', 'abc', -1, Number.NaN]) {
+    assertEquals(thrown(() => normalizeRate(input)) instanceof RateError, true);
+  }
+});
+
+// ============================================================================
+// PUBLISH DECISION TESTS
+// ============================================================================
+
+Deno.test('publishReason: Publishes the first rate of a pair', () => {
+  assertEquals(publishReason(null, 15_000_000_000n, 0n, THRESHOLDS), 'initial');
+});
+
+Deno.test('publishReason: Publishes a move of at least the deviation in either direction', () => {
+  const now = LAST.updatedAt + 60n;
+  assertEquals(publishReason(LAST, LAST.rate, now, THRESHOLDS), null);
+  // 0.49% and 0.5% of 150
+  assertEquals(publishReason(LAST, 15_073_500_000n, now, THRESHOLDS), null);
+  assertEquals(publishReason(LAST, 15_075_000_000n, now, THRESHOLDS), 'deviation');
+  assertEquals(publishReason(LAST, 14_926_500_000n, now, THRESHOLDS), null);
+  assertEquals(publishReason(LAST, 14_925_000_000n, now, THRESHOLDS), 'deviation');
+  assertEquals(
+    publishReason(LAST, 15_073_500_000n, now, { ...THRESHOLDS, deviationBps: 40n }),
+    'deviation'
+  );
+});
+
+Deno.test('publishReason: Republishes an unchanged rate once it reaches the heartbeat', () => {
+  const due = LAST.updatedAt + THRESHOLDS.heartbeat;
+  assertEquals(publishReason(LAST, LAST.rate, due - 1n, THRESHOLDS), null);
+  assertEquals(publishReason(LAST, LAST.rate, due, THRESHOLDS), 'heartbeat');
+  // A stale rate that also moved is reported as a heartbeat
+  assertEquals(publishReason(LAST, 16_000_000_000n, due, THRESHOLDS), 'heartbeat');
+});
+
+// ============================================================================
+// CSV REPLAY TESTS
+// ============================================================================
+
+Deno.test('CsvReplaySource: Returns the rows sharing a time as one poll', async () => {
+  const source = new CsvReplaySource(RATES_CSV);
+  assertEquals(await source.fetchRates(), [
+    { currencyPair: 'USD-KES', rate: '129.50' },
+    { currencyPair: 'STX-KES', rate: '250' },
+  ]);
+  assertEquals(await source.fetchRates(), [{ currencyPair: 'USD-KES', rate: '129.75' }]);
+  const last = [
+    { currencyPair: 'USD-KES', rate: '130' },
+    { currencyPair: 'STX-KES', rate: '251.5' },
+  ];
+  assertEquals(await source.fetchRates(), last);
+  // Without loop the last poll repeats
+  assertEquals(await source.fetchRates(), last);
+});
+
+Deno.test('CsvReplaySource: Starts over after the last poll with loop', async () => {
+  const source = new CsvReplaySource(RATES_CSV, { loop: true });
+  const first = await source.fetchRates();
+  await source.fetchRates();
+  await source.fetchRates();
+  assertEquals(await source.fetchRates(), first);
+});
+
+Deno.test('CsvReplaySource: Rejects a missing header and malformed rows', async () => {
+  const header = await rejected(new CsvReplaySource(fixture('no-header.csv')).fetchRates());
+  assertEquals(header instanceof RateError, true);
+
+  const path = fixture('malformed.csv');
+  const malformed = await rejected(new CsvReplaySource(path).fetchRates());
+  assertEquals(malformed instanceof RateError, true);
+  assertEquals((malformed as RateError).message, `csv:${path}: malformed row 3`);
+});
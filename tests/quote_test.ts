@@ -0,0 +1,169 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { EscrowError } from '../scripts/errors.ts';
+import {
+  MAX_PLATFORM_FEE_BPS,
+  QuoteEngine,
+  calculatePlatformFee,
+  fiatToMicroStx,
+  fiatValue,
+  formatRate,
+  quoteFee,
+  splitPayouts,
+  type QuoteSource,
+} from '../scripts/quote.ts';
+import type { Remittance, SplitRecipient } from '../scripts/types.ts';
+
+const PARENT = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const SCHOOL = 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC';
+const CLINIC = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+// 1 STX = 250 KES
+const RATE = 25_000_000_000n;
+
+const REMITTANCE: Remittance = {
+  creator: 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5',
+  recipient: PARENT,
+  targetAmount: 1_000_000n,
+  totalRaised: 1_000_000n,
+  deadline: 2_000_000_000n,
+  description: 'School fees',
+  status: 'funded',
+  createdAt: 1_700_000_000n,
+  releasedAt: null,
+  currencyPair: 'USD-KES',
+  token: null,
+  fiatTarget: null,
+  phoneHash: null,
+  claimHash: null,
+  claimExpiresAt: null,
+};
+
+function source(
+  remittance: Remittance | null,
+  splits: SplitRecipient[] | null = null,
+  feeBps = 50n
+): QuoteSource {
+  return {
+    getRemittance: () => Promise.resolve(remittance),
+    getRemittanceSplits: () => Promise.resolve(splits),
+    getPlatformFee: () => Promise.resolve(feeBps),
+  };
+}
+
+// ============================================================================
+// FEE TESTS
+// ============================================================================
+
+Deno.test('quoteFee: Truncates the fee like release-funds', () => {
+  assertEquals(quoteFee(1_000_000n, 50n), {
+    amount: 1_000_000n,
+    feeBps: 50n,
+    platformFee: 5000n,
+    netAmount: 995_000n,
+  });
+  // 199 * 50 / 10000 rounds down to nothing, so the recipient gets everything
+  assertEquals(quoteFee(199n, 50n).platformFee, 0n);
+  assertEquals(quoteFee(200n, 50n).platformFee, 1n);
+  assertEquals(quoteFee(1_000_001n, 50n).netAmount, 995_001n);
+  assertEquals(calculatePlatformFee(1_000_000n, MAX_PLATFORM_FEE_BPS), 50_000n);
+  assertEquals(calculatePlatformFee(1_000_000n), 5000n);
+});
+
+// ============================================================================
+// SPLIT TESTS
+// ============================================================================
+
+Deno.test('splitPayouts: Rounds each share down and gives the dust to the first recipient', () => {
+  const payouts = splitPayouts(995_000n, [
+    { recipient: PARENT, shareBps: 3333n },
+    { recipient: SCHOOL, shareBps: 3333n },
+    { recipient: CLINIC, shareBps: 3334n },
+  ]);
+  assertEquals(
+    payouts.map(payout => payout.amount),
+    [331_634n, 331_633n, 331_733n]
+  );
+  assertEquals(
+    payouts.reduce((sum, payout) => sum + payout.amount, 0n),
+    995_000n
+  );
+});
+
+Deno.test('splitPayouts: Leaves a share that rounds to zero at zero', () => {
+  const payouts = splitPayouts(2985n, [
+    { recipient: PARENT, shareBps: 9999n },
+    { recipient: SCHOOL, shareBps: 1n },
+  ]);
+  assertEquals(
+    payouts.map(payout => payout.amount),
+    [2985n, 0n]
+  );
+  assertEquals(splitPayouts(0n, [{ recipient: PARENT, shareBps: 10_000n }])[0]?.amount, 0n);
+  assertEquals(splitPayouts(1000n, []), []);
+});
+
+// ============================================================================
+// FIAT TESTS
+// ============================================================================
+
+Deno.test('fiatToMicroStx: Rounds up so the amount is worth at least the fiat target', () => {
+  // 20,000 KES at 250 KES/STX is exactly 80 STX
+  assertEquals(fiatToMicroStx(2_000_000_000_000n, RATE), 80_000_000n);
+  assertEquals(fiatValue(80_000_000n, RATE), 2_000_000_000_000n);
+  // One fiat unit above needs one more micro-STX, and one micro-STX less falls short
+  assertEquals(fiatToMicroStx(2_000_000_000_001n, RATE), 80_000_001n);
+  assertEquals(fiatValue(80_000_000n, RATE) >= 2_000_000_000_001n, false);
+  assertEquals(fiatValue(80_000_001n, RATE) >= 2_000_000_000_001n, true);
+  assertEquals(fiatToMicroStx(1n, 3n), 333_334n);
+  assertEquals(fiatValue(1n, RATE), 25_000n);
+});
+
+Deno.test('formatRate: Trims trailing zeros of 8-decimal values', () => {
+  assertEquals(formatRate(RATE), '250');
+  assertEquals(formatRate(12_950_000_000n), '129.5');
+  assertEquals(formatRate(1n), '0.00000001');
+});
+
+// ============================================================================
+// QUOTE ENGINE TESTS
+// ============================================================================
+
+Deno.test('QuoteEngine: Quotes a release with the live fee', async () => {
+  const quote = await new QuoteEngine(source(REMITTANCE, null, 100n)).quoteRelease(0n);
+  assertEquals(quote.platformFee, 10_000n);
+  assertEquals(quote.netAmount, 990_000n);
+  assertEquals(quote.payouts, [{ recipient: PARENT, shareBps: 10_000n, amount: 990_000n }]);
+  assertEquals(quote.releasable, true);
+
+  const active = await new QuoteEngine(
+    source({ ...REMITTANCE, status: 'active', totalRaised: 400n })
+  ).quoteRelease(0n);
+  assertEquals(active.releasable, false);
+  assertEquals(active.platformFee, 2n);
+});
+
+Deno.test('QuoteEngine: Quotes each split payout and rejects unknown remittances', async () => {
+  const splits = [
+    { recipient: PARENT, shareBps: 5000n },
+    { recipient: SCHOOL, shareBps: 5000n },
+  ];
+  const quote = await new QuoteEngine(
+    source({ ...REMITTANCE, totalRaised: 1_000_001n }, splits)
+  ).quoteRelease(0n);
+  assertEquals(
+    quote.payouts.map(payout => payout.amount),
+    [497_501n, 497_500n]
+  );
+
+  const projected = await new QuoteEngine(source(null)).projectSplitRelease(1_000_000n, splits);
+  assertEquals(projected.netAmount, 995_000n);
+
+  let error: unknown = null;
+  try {
+    await new QuoteEngine(source(null)).quoteRelease(7n);
+  } catch (caught) {
+    error = caught;
+  }
+  assertEquals(error instanceof EscrowError, true);
+  assertEquals((error as EscrowError).errorName, 'err-not-found');
+});
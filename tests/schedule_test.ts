@@ -0,0 +1,58 @@
+import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import {
+  currentPeriod,
+  duePeriod,
+  missedPeriods,
+  periodCount,
+  schedulePeriod,
+} from '../scripts/schedule.ts';
+
+// Periods start at 100, 110 and 120; the last one is cut short by endAt
+const SCHEDULE = {
+  interval: 10n,
+  startAt: 100n,
+  endAt: 125n,
+  nextPeriod: 0n,
+  status: 'active' as const,
+};
+
+// ============================================================================
+// PERIOD TESTS
+// ============================================================================
+
+Deno.test('periodCount: Counts a period cut short by endAt', () => {
+  assertEquals(periodCount(SCHEDULE), 3n);
+  assertEquals(periodCount({ ...SCHEDULE, endAt: 130n }), 3n);
+  assertEquals(periodCount({ ...SCHEDULE, endAt: 101n }), 1n);
+});
+
+Deno.test('currentPeriod: Matches the period trigger-schedule computes', () => {
+  assertEquals(currentPeriod(SCHEDULE, 99n), null);
+  assertEquals(currentPeriod(SCHEDULE, 100n), { period: 0n, startsAt: 100n, endsAt: 110n });
+  assertEquals(currentPeriod(SCHEDULE, 119n), { period: 1n, startsAt: 110n, endsAt: 120n });
+  // The last period starts before endAt, so it runs a full interval past it
+  assertEquals(currentPeriod(SCHEDULE, 129n), { period: 2n, startsAt: 120n, endsAt: 130n });
+  assertEquals(currentPeriod(SCHEDULE, 130n), null);
+  assertEquals(schedulePeriod(SCHEDULE, 5n), { period: 5n, startsAt: 150n, endsAt: 160n });
+});
+
+// ============================================================================
+// TRIGGER TESTS
+// ============================================================================
+
+Deno.test('duePeriod: Skips triggered periods and cancelled schedules', () => {
+  assertEquals(duePeriod(SCHEDULE, 105n)?.period, 0n);
+  assertEquals(duePeriod({ ...SCHEDULE, nextPeriod: 1n }, 105n), null);
+  assertEquals(duePeriod({ ...SCHEDULE, nextPeriod: 1n }, 110n)?.period, 1n);
+  assertEquals(duePeriod({ ...SCHEDULE, status: 'cancelled' }, 105n), null);
+  assertEquals(duePeriod(SCHEDULE, 130n), null);
+});
+
+Deno.test('missedPeriods: Reports ended periods that were never triggered', () => {
+  assertEquals(missedPeriods(SCHEDULE, 109n), null);
+  assertEquals(missedPeriods(SCHEDULE, 110n), { from: 0n, to: 1n });
+  assertEquals(missedPeriods({ ...SCHEDULE, nextPeriod: 1n }, 115n), null);
+  assertEquals(missedPeriods({ ...SCHEDULE, nextPeriod: 1n }, 121n), { from: 1n, to: 2n });
+  // Past the end every untriggered period is missed
+  assertEquals(missedPeriods({ ...SCHEDULE, nextPeriod: 2n }, 500n), { from: 2n, to: 3n });
+});
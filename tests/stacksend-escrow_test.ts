@@ -1,5 +1,14 @@
 import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v1.0.0/index.ts';
 import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { claimHash, claimMessageHash, claimPublicKey, signClaim } from '../scripts/claim-code.ts';
+import {
+  derToCompactSignature,
+  hashRpId,
+  passkeyChallenge,
+  type PasskeyAction,
+} from '../scripts/passkey.ts';
+import { hashPhoneNumber } from '../scripts/phone.ts';
+import { c32address } from '../scripts/principal.ts';
 
 // Helper function to create a remittance
 function createRemittance(
@@ -154,6 +163,47 @@ Clarinet.test({
   },
 });
 
+Clarinet.test({
+  name: 'create-remittance: Fails with a currency pair the oracle does not support',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const create = (pair: string) =>
+      Tx.contractCall(
+        'stacksend-escrow',
+        'create-remittance',
+        [
+          types.principal(recipient.address),
+          types.uint(1000000),
+          types.uint(1000),
+          types.ascii('Test remittance'),
+          types.ascii(pair),
+        ],
+        creator.address
+      );
+
+    let block = chain.mineBlock([create('usd-kes'), create('XYZ'), create('JPY-KES')]);
+
+    assertEquals(block.receipts[0].result, '(err u112)'); // err-invalid-currency-pair
+    assertEquals(block.receipts[1].result, '(err u112)');
+    assertEquals(block.receipts[2].result, '(err u112)');
+
+    // Pairs the oracle owner registers later are accepted
+    block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-currency-pair',
+        [types.ascii('JPY-KES')],
+        deployer.address
+      ),
+      create('JPY-KES'),
+    ]);
+
+    assertEquals(block.receipts[1].result, '(ok u0)');
+  },
+});
+
 // ============================================================================
 // CONTRIBUTE TESTS
 // ============================================================================
@@ -592,256 +642,2378 @@ Clarinet.test({
 });
 
 // ============================================================================
-// INTEGRATION/FLOW TESTS
+// CLAIM-REFUND TESTS
 // ============================================================================
 
+// Helper to create a remittance whose deadline is a few blocks away
+function createShortRemittance(chain: Chain, creator: Account, recipient: string, target: number) {
+  const deadline = chain.blockHeight + 5;
+  createRemittance(chain, creator, recipient, target, deadline);
+  return deadline;
+}
+
+// Helper to fund and return fresh contributor principals
+function fundContributors(chain: Chain, deployer: Account, count: number): string[] {
+  const contributors = Array.from({ length: count }, (_, i) =>
+    c32address(26, (i + 1).toString(16).padStart(40, '0'))
+  );
+  chain.mineBlock(contributors.map(address => Tx.transferSTX(10000000, address, deployer.address)));
+  return contributors;
+}
+
+function claimRefund(remittanceId: number, sender: string) {
+  return Tx.contractCall('stacksend-escrow', 'claim-refund', [types.uint(remittanceId)], sender);
+}
+
 Clarinet.test({
-  name: 'Complete flow: create → contribute → release',
+  name: 'claim-refund: Fails before the deadline',
   async fn(chain: Chain, accounts: Map<string, Account>) {
     const creator = accounts.get('wallet_1')!;
     const recipient = accounts.get('wallet_2')!;
     const contributor = accounts.get('wallet_3')!;
 
-    // Create
-    let block1 = createRemittance(chain, creator, recipient.address, 1000000, 1000);
-    assertEquals(block1.receipts[0].result, '(ok u0)');
-
-    // Contribute
-    let block2 = chain.mineBlock([
+    createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([
       Tx.contractCall(
         'stacksend-escrow',
         'contribute',
-        [types.uint(0), types.uint(1000000)],
+        [types.uint(0), types.uint(400000)],
         contributor.address
       ),
     ]);
-    assertEquals(block2.receipts[0].result, '(ok true)');
 
-    // Release
-    let block3 = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
-    ]);
-    assertEquals(block3.receipts[0].result, '(ok true)');
+    let block = chain.mineBlock([claimRefund(0, contributor.address)]);
+
+    assertEquals(block.receipts[0].result, '(err u113)'); // err-deadline-not-passed
   },
 });
 
 Clarinet.test({
-  name: 'Complete flow: create → contribute → cancel',
+  name: 'claim-refund: Refunds the contribution after an unmet deadline',
   async fn(chain: Chain, accounts: Map<string, Account>) {
     const creator = accounts.get('wallet_1')!;
     const recipient = accounts.get('wallet_2')!;
     const contributor = accounts.get('wallet_3')!;
 
-    // Create
-    let block1 = createRemittance(chain, creator, recipient.address, 1000000, 1000);
-    assertEquals(block1.receipts[0].result, '(ok u0)');
-
-    // Contribute
-    let block2 = chain.mineBlock([
+    const deadline = createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([
       Tx.contractCall(
         'stacksend-escrow',
         'contribute',
-        [types.uint(0), types.uint(500000)],
+        [types.uint(0), types.uint(400000)],
         contributor.address
       ),
     ]);
-    assertEquals(block2.receipts[0].result, '(ok true)');
+    chain.mineEmptyBlockUntil(deadline);
 
-    // Cancel
-    let block3 = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
-    ]);
-    assertEquals(block3.receipts[0].result, '(ok true)');
+    let block = chain.mineBlock([claimRefund(0, contributor.address)]);
+
+    assertEquals(block.receipts[0].result, '(ok u400000)');
+    block.receipts[0].events.expectSTXTransferEvent(
+      400000,
+      `${accounts.get('deployer')!.address}.stacksend-escrow`,
+      contributor.address
+    );
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['status'], '"expired"');
+    assertEquals(remittance['total-raised'], 'u0');
   },
 });
 
 Clarinet.test({
-  name: 'Multiple contributors scenario',
+  name: 'claim-refund: Prevents double claims',
   async fn(chain: Chain, accounts: Map<string, Account>) {
     const creator = accounts.get('wallet_1')!;
     const recipient = accounts.get('wallet_2')!;
-    const contributor1 = accounts.get('wallet_3')!;
-    const deployer = accounts.get('deployer')!;
-
-    createRemittance(chain, creator, recipient.address, 1000000, 1000);
+    const contributor = accounts.get('wallet_3')!;
 
-    // Multiple contributors
-    let block = chain.mineBlock([
+    const deadline = createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([
       Tx.contractCall(
         'stacksend-escrow',
         'contribute',
         [types.uint(0), types.uint(400000)],
-        contributor1.address
+        contributor.address
       ),
+    ]);
+    chain.mineEmptyBlockUntil(deadline);
+
+    let block = chain.mineBlock([
+      claimRefund(0, contributor.address),
+      claimRefund(0, contributor.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(ok u400000)');
+    assertEquals(block.receipts[1].result, '(err u114)'); // err-already-refunded
+    assertEquals(block.receipts[1].events.length, 0);
+  },
+});
+
+Clarinet.test({
+  name: 'claim-refund: Fails for non-contributors and funded remittances',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    const deadline = createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([
       Tx.contractCall(
         'stacksend-escrow',
         'contribute',
-        [types.uint(0), types.uint(600000)],
-        deployer.address
+        [types.uint(0), types.uint(1000000)],
+        contributor.address
       ),
     ]);
+    chain.mineEmptyBlockUntil(deadline);
 
-    assertEquals(block.receipts[0].result, '(ok true)');
-    assertEquals(block.receipts[1].result, '(ok true)');
-
-    // Check status is funded
-    let checkBlock = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address),
+    let block = chain.mineBlock([
+      claimRefund(0, creator.address),
+      claimRefund(0, contributor.address),
     ]);
-    assertEquals(checkBlock.receipts[0].result.includes('"funded"'), true);
+
+    assertEquals(block.receipts[0].result, '(err u101)'); // err-not-found
+    assertEquals(block.receipts[1].result, '(err u108)'); // err-invalid-status: funded
   },
 });
 
-// ============================================================================
-// ADMIN FUNCTIONS TESTS
-// ============================================================================
-
 Clarinet.test({
-  name: 'pause-contract: Successfully pauses contract (owner only)',
+  name: 'claim-refund: Works while the contract is paused',
   async fn(chain: Chain, accounts: Map<string, Account>) {
     const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
 
-    let block = chain.mineBlock([
+    const deadline = createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(250000)],
+        contributor.address
+      ),
       Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address),
     ]);
+    chain.mineEmptyBlockUntil(deadline);
 
-    assertEquals(block.receipts[0].result, '(ok true)');
+    let block = chain.mineBlock([claimRefund(0, contributor.address)]);
 
-    // Check if paused
-    let checkBlock = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'is-paused', [], deployer.address),
-    ]);
-    assertEquals(checkBlock.receipts[0].result, 'true');
+    assertEquals(block.receipts[0].result, '(ok u250000)');
   },
 });
 
 Clarinet.test({
-  name: 'pause-contract: Fails when called by non-owner',
+  name: 'claim-refund: Partial claims across many contributors, then cancel refunds the rest',
   async fn(chain: Chain, accounts: Map<string, Account>) {
-    const wallet = accounts.get('wallet_1')!;
-
-    let block = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'pause-contract', [], wallet.address),
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributors = fundContributors(chain, deployer, 12);
+    const contractId = `${deployer.address}.stacksend-escrow`;
+
+    const deadline = createShortRemittance(chain, creator, recipient.address, 100000000);
+    chain.mineBlock(
+      contributors.map((address, i) =>
+        Tx.contractCall(
+          'stacksend-escrow',
+          'contribute',
+          [types.uint(0), types.uint(100000 * (i + 1))],
+          address
+        )
+      )
+    );
+    chain.mineEmptyBlockUntil(deadline);
+
+    // Every other contributor claims
+    const claimers = contributors.filter((_, i) => i % 2 === 0);
+    let block = chain.mineBlock(claimers.map(address => claimRefund(0, address)));
+    claimers.forEach((address, i) => {
+      assertEquals(block.receipts[i].result, `(ok u${100000 * (2 * i + 1)})`);
+    });
+
+    // 12 contributions total 7,800,000; claims returned 3,600,000
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['status'], '"expired"');
+    assertEquals(remittance['total-raised'], 'u4200000');
+
+    // Cancelling refunds only the contributors who did not claim
+    block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
+      claimRefund(0, contributors[0]),
     ]);
-
-    assertEquals(block.receipts[0].result, '(err u100)'); // err-owner-only
+    assertEquals(block.receipts[0].result, '(ok true)');
+    const refunds = block.receipts[0].events.filter((e: any) => e.type === 'stx_transfer_event');
+    assertEquals(refunds.length, 6);
+    contributors
+      .filter((_, i) => i % 2 === 1)
+      .forEach(address => {
+        const i = contributors.indexOf(address);
+        block.receipts[0].events.expectSTXTransferEvent(100000 * (i + 1), contractId, address);
+      });
+    assertEquals(block.receipts[1].result, '(err u108)'); // cancelled
+    assertEquals(chain.getAssetsMaps().assets['STX'][contractId] ?? 0, 0);
   },
 });
 
+// ============================================================================
+// WITHDRAW-CONTRIBUTION TESTS
+// ============================================================================
+
+function withdrawContribution(remittanceId: number, amount: number, sender: string) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'withdraw-contribution',
+    [types.uint(remittanceId), types.uint(amount)],
+    sender
+  );
+}
+
+function contribute(remittanceId: number, amount: number, sender: string) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'contribute',
+    [types.uint(remittanceId), types.uint(amount)],
+    sender
+  );
+}
+
 Clarinet.test({
-  name: 'pause-contract: Fails when already paused',
+  name: 'withdraw-contribution: Partial withdrawal keeps the rest of the contribution',
   async fn(chain: Chain, accounts: Map<string, Account>) {
     const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
 
-    // First pause
-    chain.mineBlock([Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address)]);
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    chain.mineBlock([contribute(0, 500000, contributor.address)]);
 
-    // Try to pause again
-    let block = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address),
-    ]);
+    let block = chain.mineBlock([withdrawContribution(0, 200000, contributor.address)]);
 
-    assertEquals(block.receipts[0].result, '(err u109)'); // err-contract-paused
+    assertEquals(block.receipts[0].result, '(ok u300000)');
+    block.receipts[0].events.expectSTXTransferEvent(
+      200000,
+      `${deployer.address}.stacksend-escrow`,
+      contributor.address
+    );
+
+    const contribution = chain
+      .callReadOnlyFn(
+        'stacksend-escrow',
+        'get-contribution',
+        [types.uint(0), types.principal(contributor.address)],
+        creator.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(contribution['amount'], 'u300000');
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['total-raised'], 'u300000');
+    assertEquals(remittance['status'], '"active"');
   },
 });
 
 Clarinet.test({
-  name: 'unpause-contract: Successfully unpauses contract',
+  name: 'withdraw-contribution: Full withdrawal removes the contributor',
   async fn(chain: Chain, accounts: Map<string, Account>) {
-    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
 
-    // First pause
-    chain.mineBlock([Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address)]);
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    chain.mineBlock([contribute(0, 500000, contributor.address)]);
 
-    // Then unpause
-    let block = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], deployer.address),
-    ]);
+    let block = chain.mineBlock([withdrawContribution(0, 500000, contributor.address)]);
 
-    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[0].result, '(ok u0)');
+    const contribution = chain.callReadOnlyFn(
+      'stacksend-escrow',
+      'get-contribution',
+      [types.uint(0), types.principal(contributor.address)],
+      creator.address
+    );
+    assertEquals(contribution.result, '(err u101)');
 
-    // Check if unpaused
-    let checkBlock = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'is-paused', [], deployer.address),
+    // Withdrawing again finds nothing; contributing again starts a new contribution
+    block = chain.mineBlock([
+      withdrawContribution(0, 1, contributor.address),
+      contribute(0, 1000000, contributor.address),
     ]);
-    assertEquals(checkBlock.receipts[0].result, 'false');
+    assertEquals(block.receipts[0].result, '(err u101)');
+    assertEquals(block.receipts[1].result, '(ok true)');
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['total-raised'], 'u1000000');
+    assertEquals(remittance['status'], '"funded"');
   },
 });
 
 Clarinet.test({
-  name: 'unpause-contract: Fails when called by non-owner',
+  name: 'withdraw-contribution: Fails for invalid amounts and non-contributors',
   async fn(chain: Chain, accounts: Map<string, Account>) {
-    const deployer = accounts.get('deployer')!;
-    const wallet = accounts.get('wallet_1')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
 
-    // Pause first
-    chain.mineBlock([Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address)]);
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    chain.mineBlock([contribute(0, 500000, contributor.address)]);
 
-    // Try to unpause with non-owner
     let block = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], wallet.address),
+      withdrawContribution(0, 0, contributor.address),
+      withdrawContribution(0, 500001, contributor.address),
+      withdrawContribution(0, 1000, creator.address),
+      withdrawContribution(1, 1000, contributor.address),
     ]);
 
-    assertEquals(block.receipts[0].result, '(err u100)'); // err-owner-only
+    assertEquals(block.receipts[0].result, '(err u103)'); // err-invalid-amount
+    assertEquals(block.receipts[1].result, '(err u103)'); // more than contributed
+    assertEquals(block.receipts[2].result, '(err u101)'); // err-not-found
+    assertEquals(block.receipts[3].result, '(err u101)');
   },
 });
 
 Clarinet.test({
-  name: 'unpause-contract: Fails when contract is not paused',
+  name: 'withdraw-contribution: Fails once funded or past the deadline',
   async fn(chain: Chain, accounts: Map<string, Account>) {
-    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    const deadline = createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([
+      contribute(0, 1000000, contributor.address),
+      contribute(1, 500000, contributor.address),
+    ]);
+    chain.mineEmptyBlockUntil(deadline);
 
     let block = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], deployer.address),
+      withdrawContribution(0, 1000, contributor.address),
+      withdrawContribution(1, 1000, contributor.address),
     ]);
 
-    assertEquals(block.receipts[0].result, '(err u108)'); // err-invalid-status
+    assertEquals(block.receipts[0].result, '(err u108)'); // err-invalid-status: funded
+    assertEquals(block.receipts[1].result, '(err u107)'); // err-deadline-passed
   },
 });
 
 Clarinet.test({
-  name: 'update-platform-fee: Successfully updates fee within limits',
+  name: 'withdraw-contribution: Cancel only refunds contributors who did not withdraw',
   async fn(chain: Chain, accounts: Map<string, Account>) {
     const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributors = fundContributors(chain, deployer, 3);
+    const contractId = `${deployer.address}.stacksend-escrow`;
+
+    createRemittance(chain, creator, recipient.address, 10000000, chain.blockHeight + 100);
+    chain.mineBlock(contributors.map(address => contribute(0, 400000, address)));
 
-    // Update to 1% (100 bps)
     let block = chain.mineBlock([
-      Tx.contractCall(
-        'stacksend-escrow',
-        'update-platform-fee',
-        [types.uint(100)],
-        deployer.address
-      ),
+      withdrawContribution(0, 400000, contributors[1]),
+      withdrawContribution(0, 100000, contributors[2]),
     ]);
+    assertEquals(block.receipts[0].result, '(ok u0)');
+    assertEquals(block.receipts[1].result, '(ok u300000)');
 
-    assertEquals(block.receipts[0].result, '(ok true)');
-
-    // Check new fee
-    let checkBlock = chain.mineBlock([
-      Tx.contractCall('stacksend-escrow', 'get-platform-fee', [], deployer.address),
+    block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
     ]);
-    assertEquals(checkBlock.receipts[0].result, 'u100');
+
+    assertEquals(block.receipts[0].result, '(ok true)');
+    const refunds = block.receipts[0].events.filter((e: any) => e.type === 'stx_transfer_event');
+    assertEquals(refunds.length, 2);
+    block.receipts[0].events.expectSTXTransferEvent(400000, contractId, contributors[0]);
+    block.receipts[0].events.expectSTXTransferEvent(300000, contractId, contributors[2]);
+    assertEquals(chain.getAssetsMaps().assets['STX'][contractId] ?? 0, 0);
   },
 });
 
+// ============================================================================
+// PAGINATED REFUND TESTS
+// ============================================================================
+
+function processRefunds(remittanceId: number, sender: string) {
+  return Tx.contractCall('stacksend-escrow', 'process-refunds', [types.uint(remittanceId)], sender);
+}
+
+function contributorCount(chain: Chain, remittanceId: number, sender: string) {
+  return chain.callReadOnlyFn(
+    'stacksend-escrow',
+    'get-contributor-count',
+    [types.uint(remittanceId)],
+    sender
+  ).result;
+}
+
+function refundTransfers(events: any[]) {
+  return events.filter((e: any) => e.type === 'stx_transfer_event');
+}
+
 Clarinet.test({
-  name: 'update-platform-fee: Fails when exceeding max fee (5%)',
+  name: 'process-refunds: Fails unless refunds of a cancelled remittance are pending',
   async fn(chain: Chain, accounts: Map<string, Account>) {
-    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    chain.mineBlock([contribute(0, 500000, contributor.address)]);
 
-    // Try to set to 6% (600 bps) - should fail
     let block = chain.mineBlock([
-      Tx.contractCall(
-        'stacksend-escrow',
-        'update-platform-fee',
-        [types.uint(600)],
-        deployer.address
-      ),
+      processRefunds(0, contributor.address),
+      processRefunds(1, contributor.address),
     ]);
+    assertEquals(block.receipts[0].result, '(err u108)'); // err-invalid-status: active
+    assertEquals(block.receipts[1].result, '(err u101)'); // err-not-found
 
-    assertEquals(block.receipts[0].result, '(err u103)'); // err-invalid-amount
-  },
-});
+    block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
+      processRefunds(0, contributor.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(err u115)'); // err-no-pending-refunds
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['total-raised'], 'u0');
+  },
+});
+
+Clarinet.test({
+  name: 'scale: 515 contributors are refunded in pages of 50 after a cancel',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributors = fundContributors(chain, deployer, 520);
+    const contractId = `${deployer.address}.stacksend-escrow`;
+
+    createRemittance(chain, creator, recipient.address, 1000000000, chain.blockHeight + 100);
+    let block = chain.mineBlock(contributors.map(address => contribute(0, 100000, address)));
+    block.receipts.forEach((receipt: any) => assertEquals(receipt.result, '(ok true)'));
+    assertEquals(contributorCount(chain, 0, creator.address), 'u520');
+
+    // Full withdrawals move the last contributors into the freed positions
+    const withdrawn = contributors.slice(100, 105);
+    block = chain.mineBlock(withdrawn.map(address => withdrawContribution(0, 100000, address)));
+    block.receipts.forEach((receipt: any) => assertEquals(receipt.result, '(ok u0)'));
+    assertEquals(contributorCount(chain, 0, creator.address), 'u515');
+    const moved = chain.callReadOnlyFn(
+      'stacksend-escrow',
+      'get-contributor-at',
+      [types.uint(0), types.uint(100)],
+      creator.address
+    );
+    assertEquals(moved.result, `(ok ${contributors[519]})`);
+
+    block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    const refunded = new Set(
+      refundTransfers(block.receipts[0].events).map((e: any) => e.stx_transfer_event.recipient)
+    );
+    assertEquals(refunded.size, 50);
+    const page = printEvent(block.receipts[0].events, 'refunds-processed');
+    assertEquals(page['next-index'], 'u50');
+    assertEquals(page['pending-count'], 'u465');
+
+    // Anyone can pay out the remaining pages
+    block = chain.mineBlock(Array.from({ length: 10 }, () => processRefunds(0, recipient.address)));
+    block.receipts.forEach((receipt: any, i: number) => {
+      assertEquals(receipt.result, `(ok u${Math.max(465 - 50 * (i + 1), 0)})`);
+      refundTransfers(receipt.events).forEach((e: any) =>
+        refunded.add(e.stx_transfer_event.recipient)
+      );
+    });
+    assertEquals(refunded.size, 515);
+    withdrawn.forEach(address => assertEquals(refunded.has(address), false));
+
+    block = chain.mineBlock([processRefunds(0, recipient.address)]);
+    assertEquals(block.receipts[0].result, '(err u115)');
+    assertEquals(chain.getAssetsMaps().assets['STX'][contractId] ?? 0, 0);
+  },
+});
+
+Clarinet.test({
+  name: 'scale: A remittance funded by 510 contributors releases in one transaction',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributors = fundContributors(chain, deployer, 510);
+
+    createRemittance(chain, creator, recipient.address, 51000000, chain.blockHeight + 100);
+    let block = chain.mineBlock(contributors.map(address => contribute(0, 100000, address)));
+    assertEquals(block.receipts[509].result, '(ok true)');
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['status'], '"funded"');
+
+    block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+  },
+});
+
+// ============================================================================
+// TOKEN REMITTANCE TESTS
+// ============================================================================
+
+// Largest mock-token target or contribution setupToken allows, what it mints to each holder
+const TOKEN_MAX_AMOUNT = 10000000;
+
+// Helper to allow mock-token for remittances and mint it to the given principals
+function setupToken(chain: Chain, deployer: Account, holders: string[]) {
+  const token = `${deployer.address}.mock-token`;
+  chain.mineBlock([
+    Tx.contractCall(
+      'stacksend-escrow',
+      'set-token-allowed',
+      [types.principal(token), types.bool(true), types.uint(TOKEN_MAX_AMOUNT)],
+      deployer.address
+    ),
+    ...holders.map(holder =>
+      Tx.contractCall(
+        'mock-token',
+        'mint',
+        [types.uint(TOKEN_MAX_AMOUNT), types.principal(holder)],
+        deployer.address
+      )
+    ),
+  ]);
+  return token;
+}
+
+function createTokenRemittance(
+  token: string,
+  creator: string,
+  recipient: string,
+  targetAmount: number,
+  deadline: number
+) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'create-token-remittance',
+    [
+      types.principal(token),
+      types.principal(recipient),
+      types.uint(targetAmount),
+      types.uint(deadline),
+      types.ascii('Token remittance'),
+      types.ascii('USD-KES'),
+    ],
+    creator
+  );
+}
+
+function contributeToken(token: string, remittanceId: number, amount: number, sender: string) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'contribute-token',
+    [types.uint(remittanceId), types.principal(token), types.uint(amount)],
+    sender
+  );
+}
+
+// Helper for the token functions that take only the remittance ID and the token
+function tokenCall(fn: string, token: string, remittanceId: number, sender: string) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    fn,
+    [types.uint(remittanceId), types.principal(token)],
+    sender
+  );
+}
+
+function tokenBalance(chain: Chain, reader: Account, owner: string) {
+  return chain.callReadOnlyFn('mock-token', 'get-balance', [types.principal(owner)], reader.address)
+    .result;
+}
+
+Clarinet.test({
+  name: 'create-token-remittance: Only accepts tokens allowed by the owner',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const token = `${deployer.address}.mock-token`;
+    const deadline = chain.blockHeight + 100;
+
+    let block = chain.mineBlock([
+      createTokenRemittance(token, creator.address, recipient.address, 1000000, deadline),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'set-token-allowed',
+        [types.principal(token), types.bool(true), types.uint(TOKEN_MAX_AMOUNT)],
+        creator.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u116)'); // err-token-not-allowed
+    assertEquals(block.receipts[1].result, '(err u100)'); // err-owner-only
+
+    block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'set-token-allowed',
+        [types.principal(token), types.bool(true), types.uint(TOKEN_MAX_AMOUNT)],
+        deployer.address
+      ),
+      createTokenRemittance(token, creator.address, recipient.address, 1000000, deadline),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(ok u0)');
+    const allowed = printEvent(block.receipts[0].events, 'token-allowance-updated');
+    assertEquals(allowed['token'], token);
+    assertEquals(allowed['allowed'], 'true');
+    assertEquals(allowed['max-amount'], `u${TOKEN_MAX_AMOUNT}`);
+    assertEquals(
+      printEvent(block.receipts[1].events, 'remittance-created')['token'],
+      `(some ${token})`
+    );
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['token'], `(some ${token})`);
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-escrow',
+        'is-token-allowed',
+        [types.principal(token)],
+        creator.address
+      ).result,
+      'true'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'token remittance: Amounts are bounded by the max set for the token, not the STX max',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const token = setupToken(chain, deployer, [creator.address]);
+    const deadline = chain.blockHeight + 100;
+
+    let block = chain.mineBlock([
+      createTokenRemittance(
+        token,
+        creator.address,
+        recipient.address,
+        TOKEN_MAX_AMOUNT + 1,
+        deadline
+      ),
+      createTokenRemittance(token, creator.address, recipient.address, TOKEN_MAX_AMOUNT, deadline),
+      contributeToken(token, 0, TOKEN_MAX_AMOUNT + 1, creator.address),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'set-token-allowed',
+        [types.principal(token), types.bool(true), types.uint(0)],
+        deployer.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u103)'); // err-invalid-amount
+    assertEquals(block.receipts[1].result, '(ok u0)');
+    assertEquals(block.receipts[2].result, '(err u103)'); // err-invalid-amount
+    assertEquals(block.receipts[3].result, '(err u103)'); // a zero max is rejected
+
+    // A token with more decimals than STX may need a larger max than 1 million STX
+    block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'set-token-allowed',
+        [types.principal(token), types.bool(true), types.uint(2000000000000)],
+        deployer.address
+      ),
+      createTokenRemittance(token, creator.address, recipient.address, 1500000000000, deadline),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(ok u1)');
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-escrow',
+        'get-token-max-amount',
+        [types.principal(token)],
+        creator.address
+      ).result,
+      'u2000000000000'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'token remittance: Contributions, release and platform fee move the token',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const token = setupToken(chain, deployer, [creator.address, contributor.address]);
+    const assetId = `${token}::mock-token`;
+    const contractId = `${deployer.address}.stacksend-escrow`;
+
+    chain.mineBlock([
+      createTokenRemittance(
+        token,
+        creator.address,
+        recipient.address,
+        1000000,
+        chain.blockHeight + 100
+      ),
+    ]);
+    let block = chain.mineBlock([
+      contributeToken(token, 0, 400000, creator.address),
+      contributeToken(token, 0, 600000, contributor.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(ok true)');
+    block.receipts[0].events.expectFungibleTokenTransferEvent(
+      400000,
+      creator.address,
+      contractId,
+      assetId
+    );
+    block.receipts[1].events.expectFungibleTokenTransferEvent(
+      600000,
+      contributor.address,
+      contractId,
+      assetId
+    );
+    assertEquals(refundTransfers(block.receipts[1].events).length, 0);
+    assertEquals(tokenBalance(chain, deployer, contractId), '(ok u1000000)');
+
+    block = chain.mineBlock([tokenCall('release-token-funds', token, 0, recipient.address)]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    // Default platform fee is 0.5%
+    block.receipts[0].events.expectFungibleTokenTransferEvent(
+      995000,
+      contractId,
+      recipient.address,
+      assetId
+    );
+    block.receipts[0].events.expectFungibleTokenTransferEvent(
+      5000,
+      contractId,
+      deployer.address,
+      assetId
+    );
+    assertEquals(refundTransfers(block.receipts[0].events).length, 0);
+    assertEquals(tokenBalance(chain, deployer, recipient.address), '(ok u995000)');
+    assertEquals(tokenBalance(chain, deployer, contractId), '(ok u0)');
+  },
+});
+
+Clarinet.test({
+  name: 'token remittance: Calls fail when the asset does not match the remittance',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const token = setupToken(chain, deployer, [contributor.address]);
+    const deadline = chain.blockHeight + 100;
+
+    chain.mineBlock([
+      createTokenRemittance(token, creator.address, recipient.address, 1000000, deadline),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'create-remittance',
+        [
+          types.principal(recipient.address),
+          types.uint(1000000),
+          types.uint(deadline),
+          types.ascii('STX remittance'),
+          types.ascii('USD-KES'),
+        ],
+        creator.address
+      ),
+    ]);
+
+    const block = chain.mineBlock([
+      contribute(0, 500000, contributor.address),
+      contributeToken(token, 1, 500000, contributor.address),
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+      tokenCall('cancel-token-remittance', token, 1, creator.address),
+      tokenCall('process-token-refunds', token, 1, contributor.address),
+    ]);
+    block.receipts.forEach((receipt: any) => assertEquals(receipt.result, '(err u117)')); // err-token-mismatch
+  },
+});
+
+Clarinet.test({
+  name: 'token remittance: Withdrawals, refund claims and cancel refunds return the token',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const token = setupToken(chain, deployer, [creator.address, contributor.address]);
+    const assetId = `${token}::mock-token`;
+    const contractId = `${deployer.address}.stacksend-escrow`;
+    const deadline = chain.blockHeight + 6;
+
+    chain.mineBlock([
+      createTokenRemittance(token, creator.address, recipient.address, 1000000, deadline),
+      createTokenRemittance(
+        token,
+        creator.address,
+        recipient.address,
+        1000000,
+        chain.blockHeight + 100
+      ),
+    ]);
+    let block = chain.mineBlock([
+      contributeToken(token, 0, 400000, contributor.address),
+      contributeToken(token, 1, 300000, creator.address),
+      contributeToken(token, 1, 200000, contributor.address),
+    ]);
+    block.receipts.forEach((receipt: any) => assertEquals(receipt.result, '(ok true)'));
+
+    block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'withdraw-token-contribution',
+        [types.uint(0), types.principal(token), types.uint(100000)],
+        contributor.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok u300000)');
+    block.receipts[0].events.expectFungibleTokenTransferEvent(
+      100000,
+      contractId,
+      contributor.address,
+      assetId
+    );
+
+    // Disallowing the token does not strand remittances already created with it
+    chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'set-token-allowed',
+        [types.principal(token), types.bool(false), types.uint(TOKEN_MAX_AMOUNT)],
+        deployer.address
+      ),
+    ]);
+    chain.mineEmptyBlockUntil(deadline);
+
+    block = chain.mineBlock([
+      tokenCall('claim-token-refund', token, 0, contributor.address),
+      tokenCall('cancel-token-remittance', token, 1, creator.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok u300000)');
+    block.receipts[0].events.expectFungibleTokenTransferEvent(
+      300000,
+      contractId,
+      contributor.address,
+      assetId
+    );
+    assertEquals(block.receipts[1].result, '(ok true)');
+    block.receipts[1].events.expectFungibleTokenTransferEvent(
+      300000,
+      contractId,
+      creator.address,
+      assetId
+    );
+    block.receipts[1].events.expectFungibleTokenTransferEvent(
+      200000,
+      contractId,
+      contributor.address,
+      assetId
+    );
+
+    block = chain.mineBlock([tokenCall('process-token-refunds', token, 1, creator.address)]);
+    assertEquals(block.receipts[0].result, '(err u115)'); // err-no-pending-refunds
+    assertEquals(tokenBalance(chain, deployer, contractId), '(ok u0)');
+    assertEquals(tokenBalance(chain, deployer, contributor.address), '(ok u10000000)');
+  },
+});
+
+Clarinet.test({
+  name: 'emergency-withdraw-token: Owner can recover tokens held by the escrow',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const wallet1 = accounts.get('wallet_1')!;
+    const contractId = `${deployer.address}.stacksend-escrow`;
+    const token = setupToken(chain, deployer, [wallet1.address]);
+
+    chain.mineBlock([
+      Tx.contractCall(
+        'mock-token',
+        'transfer',
+        [
+          types.uint(5000),
+          types.principal(wallet1.address),
+          types.principal(contractId),
+          types.none(),
+        ],
+        wallet1.address
+      ),
+    ]);
+
+    const block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'emergency-withdraw-token',
+        [types.principal(token), types.uint(5000), types.principal(wallet1.address)],
+        wallet1.address
+      ),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'emergency-withdraw-token',
+        [types.principal(token), types.uint(5000), types.principal(deployer.address)],
+        deployer.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u100)'); // err-owner-only
+    assertEquals(block.receipts[1].result, '(ok true)');
+    block.receipts[1].events.expectFungibleTokenTransferEvent(
+      5000,
+      contractId,
+      deployer.address,
+      `${token}::mock-token`
+    );
+    assertEquals(
+      printEvent(block.receipts[1].events, 'emergency-withdrawal')['token'],
+      `(some ${token})`
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'emergency-withdraw-token: Owner can recover a token that was never allowed',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const wallet1 = accounts.get('wallet_1')!;
+    const contractId = `${deployer.address}.stacksend-escrow`;
+    const token = `${deployer.address}.mock-token`;
+
+    chain.mineBlock([
+      Tx.contractCall(
+        'mock-token',
+        'mint',
+        [types.uint(TOKEN_MAX_AMOUNT), types.principal(contractId)],
+        deployer.address
+      ),
+    ]);
+
+    const block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'emergency-withdraw-token',
+        [types.principal(token), types.uint(0), types.principal(wallet1.address)],
+        deployer.address
+      ),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'emergency-withdraw-token',
+        [types.principal(token), types.uint(TOKEN_MAX_AMOUNT), types.principal(wallet1.address)],
+        deployer.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u103)'); // err-invalid-amount
+    assertEquals(block.receipts[1].result, '(ok true)');
+    assertEquals(tokenBalance(chain, deployer, wallet1.address), `(ok u${TOKEN_MAX_AMOUNT})`);
+  },
+});
+
+// ============================================================================
+// FIAT TARGET TESTS
+// ============================================================================
+
+// 1 STX = 250 KES and 1,000 KES, with the oracle's 8 decimals
+const STX_KES_RATE = 25000000000;
+const FIAT_TARGET = 100000000000;
+
+function setExchangeRate(pair: string, rate: number, sender: string) {
+  return Tx.contractCall(
+    'stacksend-oracle',
+    'update-exchange-rate',
+    [types.ascii(pair), types.uint(rate)],
+    sender
+  );
+}
+
+function createFiatRemittance(
+  creator: string,
+  recipient: string,
+  fiatTarget: number,
+  deadline: number,
+  pair = 'STX-KES'
+) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'create-fiat-remittance',
+    [
+      types.principal(recipient),
+      types.uint(fiatTarget),
+      types.uint(deadline),
+      types.ascii('Send 1,000 KES'),
+      types.ascii(pair),
+    ],
+    creator
+  );
+}
+
+function refreshFunding(remittanceId: number, sender: string) {
+  return Tx.contractCall('stacksend-escrow', 'refresh-funding', [types.uint(remittanceId)], sender);
+}
+
+function remittanceStatus(chain: Chain, remittanceId: number, sender: string) {
+  return chain
+    .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(remittanceId)], sender)
+    .result.expectOk()
+    .expectTuple()['status'];
+}
+
+Clarinet.test({
+  name: 'create-fiat-remittance: Records the fiat target and its STX equivalent',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const deadline = chain.blockHeight + 100;
+
+    let block = chain.mineBlock([
+      createFiatRemittance(creator.address, recipient.address, FIAT_TARGET, deadline),
+      createFiatRemittance(creator.address, recipient.address, FIAT_TARGET, deadline, 'USD-KES'),
+      createFiatRemittance(creator.address, recipient.address, 0, deadline),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u118)'); // err-stale-rate: no rate yet
+    assertEquals(block.receipts[1].result, '(err u112)'); // err-invalid-currency-pair
+    assertEquals(block.receipts[2].result, '(err u103)'); // err-invalid-amount
+
+    block = chain.mineBlock([
+      setExchangeRate('STX-KES', STX_KES_RATE, deployer.address),
+      createFiatRemittance(creator.address, recipient.address, FIAT_TARGET, deadline),
+    ]);
+    assertEquals(block.receipts[1].result, '(ok u0)');
+    const created = printEvent(block.receipts[1].events, 'remittance-created');
+    assertEquals(created['fiat-target'], `(some u${FIAT_TARGET})`);
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['fiat-target'], `(some u${FIAT_TARGET})`);
+    assertEquals(remittance['target-amount'], 'u4000000'); // 4 STX at 250 KES
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-escrow',
+        'get-stx-equivalent',
+        [types.uint(FIAT_TARGET), types.ascii('STX-KES')],
+        creator.address
+      ).result,
+      '(ok u4000000)'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'fiat target: Funding is evaluated with the current oracle rate',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    chain.mineBlock([
+      setExchangeRate('STX-KES', STX_KES_RATE, deployer.address),
+      createFiatRemittance(
+        creator.address,
+        recipient.address,
+        FIAT_TARGET,
+        chain.blockHeight + 100
+      ),
+    ]);
+
+    // 3 STX is worth 750 KES
+    let block = chain.mineBlock([contribute(0, 3000000, contributor.address)]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(remittanceStatus(chain, 0, creator.address), '"active"');
+
+    // At 400 KES per STX, 3.5 STX covers 1,000 KES although it is below the original 4 STX
+    block = chain.mineBlock([
+      setExchangeRate('STX-KES', 40000000000, deployer.address),
+      contribute(0, 500000, contributor.address),
+    ]);
+    assertEquals(block.receipts[1].result, '(ok true)');
+    assertEquals(
+      printEvent(block.receipts[1].events, 'remittance-funded')['total-raised'],
+      'u3500000'
+    );
+    assertEquals(remittanceStatus(chain, 0, creator.address), '"funded"');
+
+    block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    block.receipts[0].events.expectSTXTransferEvent(
+      3482500,
+      `${deployer.address}.stacksend-escrow`,
+      recipient.address
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'fiat target: A stale rate keeps the remittance active until refresh-funding',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const deadline = chain.blockHeight + 100000;
+
+    chain.mineBlock([
+      setExchangeRate('STX-KES', STX_KES_RATE, deployer.address),
+      createFiatRemittance(creator.address, recipient.address, FIAT_TARGET, deadline),
+    ]);
+    // Let the rate age past the oracle's max-rate-age
+    chain.mineEmptyBlockUntil(chain.blockHeight + 86401);
+
+    let block = chain.mineBlock([
+      contribute(0, 5000000, contributor.address),
+      refreshFunding(0, creator.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(err u118)'); // err-stale-rate
+    assertEquals(remittanceStatus(chain, 0, creator.address), '"active"');
+
+    block = chain.mineBlock([
+      setExchangeRate('STX-KES', STX_KES_RATE, deployer.address),
+      refreshFunding(0, recipient.address),
+      refreshFunding(0, recipient.address),
+    ]);
+    assertEquals(block.receipts[1].result, '(ok true)');
+    printEvent(block.receipts[1].events, 'remittance-funded');
+    assertEquals(block.receipts[2].result, '(err u108)'); // err-invalid-status: already funded
+    assertEquals(remittanceStatus(chain, 0, creator.address), '"funded"');
+  },
+});
+
+Clarinet.test({
+  name: 'refresh-funding: Reports false below the target and for STX targets',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    chain.mineBlock([
+      setExchangeRate('STX-KES', STX_KES_RATE, deployer.address),
+      createFiatRemittance(
+        creator.address,
+        recipient.address,
+        FIAT_TARGET,
+        chain.blockHeight + 100
+      ),
+      contribute(1, 1000000, contributor.address),
+    ]);
+
+    const block = chain.mineBlock([
+      refreshFunding(0, contributor.address),
+      refreshFunding(1, contributor.address),
+      refreshFunding(2, contributor.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok false)');
+    assertEquals(block.receipts[1].result, '(ok false)');
+    assertEquals(block.receipts[2].result, '(err u101)'); // err-not-found
+    assertEquals(remittanceStatus(chain, 1, creator.address), '"active"');
+  },
+});
+
+// ============================================================================
+// PHONE REMITTANCE TESTS
+// ============================================================================
+
+// Fixtures signed off-chain with signPhoneAttestation from scripts/phone-verifier.ts:
+// verifier key 0x01 repeated, binding PHONE_HASH to wallet_1
+const PHONE = '+254712345678';
+const PHONE_SALT = '07'.repeat(32);
+const PHONE_HASH = '0x61b8698c884b5029302a7e3f578e11714d2e56f2ba065e20dd66e80910279220';
+const VERIFIER_PUBLIC_KEY = '0x031b84c5567b126440995d3ed5aaba0565d71e1834604819ff9c17f5e9d5dd078f';
+const ATTESTATION_EXPIRES_AT = 99999999999;
+const ATTESTATION =
+  '0x42d201506928b239073588596aebd6ad77f20b0918e61fa83019898f2c8ea6d91bff25771cc61efe0a20cc227fb2750c3fe3b2848e1466aa7105ed761949aea001';
+// The same binding expiring at block time 1
+const EXPIRED_ATTESTATION =
+  '0xd804eac0b3ee6626b0485447d0f229a670545289d038f2fa51cfb183fe09cde969f6bbde28912c91edae297e55fd369b27c98e11c9901e832da861427b26256301';
+
+function createPhoneRemittance(creator: string, targetAmount: number, deadline: number) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'create-phone-remittance',
+    [
+      PHONE_HASH,
+      types.uint(targetAmount),
+      types.uint(deadline),
+      types.ascii('Send to a phone number'),
+      types.ascii('USD-KES'),
+    ],
+    creator
+  );
+}
+
+function setPhoneVerifier(active: boolean, sender: string) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'set-phone-verifier',
+    [VERIFIER_PUBLIC_KEY, types.bool(active)],
+    sender
+  );
+}
+
+function bindPhone(expiresAt: number, signature: string, sender: string) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'bind-phone',
+    [PHONE_HASH, types.uint(expiresAt), signature],
+    sender
+  );
+}
+
+Clarinet.test({
+  name: 'get-phone-hash: Matches hashPhoneNumber',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    const result = chain.callReadOnlyFn(
+      'stacksend-escrow',
+      'get-phone-hash',
+      [types.ascii(PHONE), `0x${PHONE_SALT}`],
+      deployer.address
+    ).result;
+    assertEquals(result, PHONE_HASH);
+    assertEquals(`0x${hashPhoneNumber(PHONE, PHONE_SALT)}`, PHONE_HASH);
+  },
+});
+
+Clarinet.test({
+  name: 'create-phone-remittance: Escrow holds the funds until the phone hash is bound',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const contributor = accounts.get('wallet_3')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+
+    let block = chain.mineBlock([
+      createPhoneRemittance(creator.address, 1000000, chain.blockHeight + 100),
+      createPhoneRemittance(creator.address, 0, chain.blockHeight + 100),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok u0)');
+    assertEquals(block.receipts[1].result, '(err u103)'); // err-invalid-amount
+    const created = printEvent(block.receipts[0].events, 'remittance-created');
+    assertEquals(created['recipient'], escrow);
+    assertEquals(created['phone-hash'], `(some ${PHONE_HASH})`);
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['recipient'], escrow);
+    assertEquals(remittance['phone-hash'], `(some ${PHONE_HASH})`);
+
+    block = chain.mineBlock([
+      contribute(0, 1000000, contributor.address),
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], creator.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(err u121)'); // err-phone-not-bound
+  },
+});
+
+Clarinet.test({
+  name: "bind-phone: Requires an active verifier's unexpired attestation for the sender",
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const owner = accounts.get('wallet_1')!;
+    const other = accounts.get('wallet_2')!;
+
+    let block = chain.mineBlock([
+      bindPhone(ATTESTATION_EXPIRES_AT, ATTESTATION, owner.address),
+      setPhoneVerifier(true, other.address),
+      setPhoneVerifier(true, deployer.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u119)'); // err-invalid-attestation: no verifier
+    assertEquals(block.receipts[1].result, '(err u100)'); // err-owner-only
+    assertEquals(block.receipts[2].result, '(ok true)');
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-escrow',
+        'is-phone-verifier',
+        [VERIFIER_PUBLIC_KEY],
+        deployer.address
+      ).result,
+      'true'
+    );
+
+    block = chain.mineBlock([
+      // Signed for wallet_1, so it recovers to another key for wallet_2
+      bindPhone(ATTESTATION_EXPIRES_AT, ATTESTATION, other.address),
+      bindPhone(ATTESTATION_EXPIRES_AT + 1, ATTESTATION, owner.address),
+      bindPhone(1, EXPIRED_ATTESTATION, owner.address),
+      bindPhone(ATTESTATION_EXPIRES_AT, ATTESTATION, owner.address),
+      bindPhone(ATTESTATION_EXPIRES_AT, ATTESTATION, owner.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u119)');
+    assertEquals(block.receipts[1].result, '(err u119)');
+    assertEquals(block.receipts[2].result, '(err u120)'); // err-attestation-expired
+    assertEquals(block.receipts[3].result, '(ok true)');
+    assertEquals(block.receipts[4].result, '(err u122)'); // err-phone-already-bound
+    const bound = printEvent(block.receipts[3].events, 'phone-bound');
+    assertEquals(bound['recipient'], owner.address);
+    assertEquals(bound['verifier'], VERIFIER_PUBLIC_KEY);
+
+    // Deactivating the verifier keeps the bindings it attested
+    chain.mineBlock([setPhoneVerifier(false, deployer.address)]);
+    const binding = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-phone-binding', [PHONE_HASH], deployer.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(binding['recipient'], owner.address);
+  },
+});
+
+Clarinet.test({
+  name: 'release-funds: A phone remittance pays the principal bound to its hash',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_2')!;
+    const owner = accounts.get('wallet_1')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    chain.mineBlock([
+      createPhoneRemittance(creator.address, 1000000, chain.blockHeight + 100),
+      contribute(0, 1000000, contributor.address),
+      setPhoneVerifier(true, deployer.address),
+      bindPhone(ATTESTATION_EXPIRES_AT, ATTESTATION, owner.address),
+    ]);
+
+    const block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], creator.address),
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], owner.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u102)'); // err-unauthorized
+    assertEquals(block.receipts[1].result, '(ok true)');
+    block.receipts[1].events.expectSTXTransferEvent(
+      995000,
+      `${deployer.address}.stacksend-escrow`,
+      owner.address
+    );
+    assertEquals(
+      printEvent(block.receipts[1].events, 'funds-released')['recipient'],
+      owner.address
+    );
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['recipient'], owner.address);
+    assertEquals(remittance['status'], '"completed"');
+  },
+});
+
+// ============================================================================
+// CLAIMABLE REMITTANCE TESTS
+// ============================================================================
+
+const CLAIM_SECRET = '09'.repeat(32);
+const CLAIM_HASH = '0x75452e058dd8181336abfd016c4b67b8544fd96b451d800f92a10cba6c7737a5';
+// The deployer of the escrow, whose principal the claim signature covers
+const CLAIM_ESCROW = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.stacksend-escrow';
+
+function createClaimableRemittance(
+  creator: string,
+  targetAmount: number,
+  deadline: number,
+  claimExpiresAt: number
+) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'create-claimable-remittance',
+    [
+      CLAIM_HASH,
+      types.uint(targetAmount),
+      types.uint(deadline),
+      types.uint(claimExpiresAt),
+      types.ascii('Claim with the code I sent you'),
+      types.ascii('USD-KES'),
+    ],
+    creator
+  );
+}
+
+// A claim signed with `secret` for `signedFor`, which defaults to the recipient it is sent with
+function claimRemittance(
+  remittanceId: number,
+  secret: string,
+  recipient: string,
+  sender: string,
+  signedFor = recipient
+) {
+  const signature = signClaim(
+    { remittanceId: BigInt(remittanceId), secret },
+    {
+      escrowContract: CLAIM_ESCROW,
+      chainId: 0x80000000,
+      recipient: signedFor,
+    }
+  );
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'claim-remittance',
+    [types.uint(remittanceId), `0x${signature}`, types.principal(recipient)],
+    sender
+  );
+}
+
+Clarinet.test({
+  name: 'get-claim-hash: Matches claimHash and claimMessageHash',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const recipient = accounts.get('wallet_2')!;
+
+    const result = chain.callReadOnlyFn(
+      'stacksend-escrow',
+      'get-claim-hash',
+      [`0x${claimPublicKey(CLAIM_SECRET)}`],
+      deployer.address
+    ).result;
+    assertEquals(result, CLAIM_HASH);
+    assertEquals(`0x${claimHash(CLAIM_SECRET)}`, CLAIM_HASH);
+
+    const messageHash = chain.callReadOnlyFn(
+      'stacksend-escrow',
+      'get-claim-message-hash',
+      [types.uint(3), types.principal(recipient.address)],
+      deployer.address
+    ).result;
+    const expected = claimMessageHash({
+      escrowContract: CLAIM_ESCROW,
+      chainId: 0x80000000,
+      remittanceId: 3n,
+      recipient: recipient.address,
+    });
+    assertEquals(messageHash, `0x${expected}`);
+  },
+});
+
+Clarinet.test({
+  name: 'claim-remittance: A signature by the secret releases a funded remittance to its principal',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const deadline = chain.blockHeight + 100;
+
+    let block = chain.mineBlock([
+      createClaimableRemittance(creator.address, 1000000, deadline, deadline),
+      createClaimableRemittance(creator.address, 1000000, deadline, deadline + 100),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u104)'); // err-invalid-deadline: expires at deadline
+    assertEquals(block.receipts[1].result, '(ok u0)');
+    const created = printEvent(block.receipts[1].events, 'remittance-created');
+    assertEquals(created['recipient'], escrow);
+    assertEquals(created['claim-hash'], `(some ${CLAIM_HASH})`);
+    assertEquals(created['claim-expires-at'], `(some u${deadline + 100})`);
+
+    block = chain.mineBlock([
+      claimRemittance(0, CLAIM_SECRET, recipient.address, contributor.address),
+      contribute(0, 1000000, contributor.address),
+      claimRemittance(0, '01'.repeat(32), recipient.address, contributor.address),
+      claimRemittance(0, CLAIM_SECRET, escrow, contributor.address),
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+      // A claim seen in the mempool cannot be resent to another principal
+      claimRemittance(0, CLAIM_SECRET, contributor.address, contributor.address, recipient.address),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'claim-remittance',
+        [types.uint(0), `0x${'00'.repeat(65)}`, types.principal(recipient.address)],
+        contributor.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u108)'); // err-invalid-status: not funded yet
+    assertEquals(block.receipts[1].result, '(ok true)');
+    assertEquals(block.receipts[2].result, '(err u123)'); // err-invalid-secret
+    assertEquals(block.receipts[3].result, '(err u110)'); // err-invalid-recipient
+    assertEquals(block.receipts[4].result, '(err u102)'); // err-unauthorized
+    assertEquals(block.receipts[5].result, '(err u123)'); // signed for the recipient
+    assertEquals(block.receipts[6].result, '(err u123)'); // does not recover
+
+    // Anyone holding the signature can send the claim
+    block = chain.mineBlock([
+      claimRemittance(0, CLAIM_SECRET, recipient.address, contributor.address),
+      claimRemittance(0, CLAIM_SECRET, recipient.address, contributor.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(err u108)');
+    block.receipts[0].events.expectSTXTransferEvent(995000, escrow, recipient.address);
+    assertEquals(
+      printEvent(block.receipts[0].events, 'funds-released')['recipient'],
+      recipient.address
+    );
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['recipient'], recipient.address);
+    assertEquals(remittance['status'], '"completed"');
+  },
+});
+
+Clarinet.test({
+  name: 'claim-refund: Contributors reclaim a funded remittance once its claim expires',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const deadline = chain.blockHeight + 5;
+    const claimExpiresAt = deadline + 5;
+
+    chain.mineBlock([
+      createClaimableRemittance(creator.address, 1000000, deadline, claimExpiresAt),
+      contribute(0, 1000000, contributor.address),
+    ]);
+
+    // Past the deadline the claim stays open and refunds stay closed
+    chain.mineEmptyBlockUntil(deadline);
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'claim-refund', [types.uint(0)], contributor.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u108)'); // err-invalid-status
+
+    chain.mineEmptyBlockUntil(claimExpiresAt);
+    block = chain.mineBlock([
+      claimRemittance(0, CLAIM_SECRET, recipient.address, recipient.address),
+      Tx.contractCall('stacksend-escrow', 'claim-refund', [types.uint(0)], contributor.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u124)'); // err-claim-expired
+    assertEquals(block.receipts[1].result, '(ok u1000000)');
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['status'], '"expired"');
+  },
+});
+
+// ============================================================================
+// PASSKEY TESTS
+// ============================================================================
+
+// Fixtures signed off-chain by a P-256 passkey for the relying party stacksend.app, each over
+// the challenge of remittance 0 for an action and nonce, DER-encoded as browsers return them
+const PASSKEY_PUBLIC_KEY = '0x022993ae06c5258b4e87c374966ac53dbcf1c57459d3147d678e90fd6bb03a4c25';
+const RP_ID_HASH = 'daff41e51da08e0e3c91d0934d0d3a5a7f4b3a3ce97ecaa9ea487e9eb9a2d21a';
+const RELEASE_SIGNATURE =
+  '3045022100ea2c8a9ffd56a43893e0674109783e28804c92d627f625f26d38e7299eba9d3802201585375f6e2ce14ea40f14909701171c50d4a14ae2aa0625c4d332b89a409cb7';
+const CANCEL_SIGNATURE =
+  '3045022100b2aeb351ff8bec444563d4dd693df6ada5245492287916df671c071250ca4f78022030a2c582d4067ed33518242a5cf5e9075f65c4f77d2a932c5994903d31dcc50c';
+// The release challenge for nonce 1
+const NEXT_RELEASE_SIGNATURE =
+  '3046022100826ac2c1ccafb330332ebec176348b304efb502d348e612d271e45c0686128740221008ae90425f19c719a2b3b9cfe7d5ce2a9495526a008c3a91c2a902627ebd70d1c';
+// The release challenge for nonce 0, asserted without user verification
+const UNVERIFIED_RELEASE_SIGNATURE =
+  '304502203f35301fbee8af9feaa3661e1707ed57040819432501a5cb035f8c814d1daf0c022100b3d529dfe08adc0ff187e63dab2972a37b3fcd277266e762f8483c71d228e70e';
+
+// Rebuild the signed assertion: authenticator data with the given flags and a sign count of 1,
+// and client data carrying the challenge
+function passkeyAssertion(
+  escrow: string,
+  action: PasskeyAction,
+  nonce: bigint,
+  flags: number,
+  signature: string
+) {
+  const challenge = passkeyChallenge({
+    escrowContract: escrow,
+    chainId: 0x80000000,
+    remittanceId: 0n,
+    action,
+    nonce,
+  });
+  const bytes = (challenge.match(/../g) ?? []).map(pair => parseInt(pair, 16));
+  const clientData = JSON.stringify({
+    type: 'webauthn.get',
+    challenge: btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, ''),
+    origin: 'https://stacksend.app',
+    crossOrigin: false,
+  });
+  const signatureBytes = Uint8Array.from(signature.match(/../g) ?? [], pair => parseInt(pair, 16));
+  return types.tuple({
+    'authenticator-data': `0x${RP_ID_HASH}${flags.toString(16).padStart(2, '0')}00000001`,
+    'client-data-json': types.buff(clientData),
+    signature: `0x${derToCompactSignature(signatureBytes)}`,
+  });
+}
+
+function registerPasskey(remittanceId: number, sender: string, rpIdHash = RP_ID_HASH) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'register-passkey',
+    [types.uint(remittanceId), PASSKEY_PUBLIC_KEY, `0x${rpIdHash}`],
+    sender
+  );
+}
+
+function getPasskey(chain: Chain, remittanceId: number, owner: string) {
+  return chain.callReadOnlyFn(
+    'stacksend-escrow',
+    'get-passkey',
+    [types.uint(remittanceId), types.principal(owner)],
+    owner
+  ).result;
+}
+
+Clarinet.test({
+  name: 'register-passkey: Only the creator or recipient registers, once, while the remittance is open',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const other = accounts.get('wallet_3')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    let block = chain.mineBlock([
+      registerPasskey(0, other.address),
+      registerPasskey(0, recipient.address),
+      registerPasskey(0, recipient.address),
+      registerPasskey(0, creator.address),
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(1)], creator.address),
+      registerPasskey(1, creator.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u102)'); // err-unauthorized
+    assertEquals(block.receipts[1].result, '(ok true)');
+    assertEquals(block.receipts[2].result, '(err u127)'); // err-passkey-already-registered
+    assertEquals(block.receipts[3].result, '(ok true)');
+    assertEquals(block.receipts[5].result, '(err u108)'); // err-invalid-status: cancelled
+
+    const registered = printEvent(block.receipts[1].events, 'passkey-registered');
+    assertEquals(registered['owner'], recipient.address);
+    assertEquals(registered['public-key'], PASSKEY_PUBLIC_KEY);
+    assertEquals(registered['rp-id-hash'], `0x${RP_ID_HASH}`);
+
+    const passkey = getPasskey(chain, 0, recipient.address).expectOk().expectTuple();
+    assertEquals(passkey['public-key'], PASSKEY_PUBLIC_KEY);
+    assertEquals(passkey['rp-id-hash'], `0x${RP_ID_HASH}`);
+    assertEquals(passkey['nonce'], 'u0');
+    assertEquals(getPasskey(chain, 0, other.address), '(err u128)'); // err-passkey-not-registered
+
+    // The challenge helper matches the contract
+    const challenge = chain.callReadOnlyFn(
+      'stacksend-escrow',
+      'get-passkey-challenge',
+      [types.uint(0), types.ascii('release'), types.uint(0)],
+      recipient.address
+    ).result;
+    assertEquals(
+      challenge,
+      `0x${passkeyChallenge({
+        escrowContract: `${deployer.address}.stacksend-escrow`,
+        chainId: 0x80000000,
+        remittanceId: 0n,
+        action: 'release',
+        nonce: 0n,
+      })}`
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'release-funds-with-passkey: A registered passkey must sign each release',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const release = (assertion: string) =>
+      Tx.contractCall(
+        'stacksend-escrow',
+        'release-funds-with-passkey',
+        [types.uint(0), assertion],
+        recipient.address
+      );
+
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    let block = chain.mineBlock([
+      registerPasskey(0, recipient.address),
+      contribute(0, 1000000, contributor.address),
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+      release(passkeyAssertion(escrow, 'cancel', 0n, 0x05, CANCEL_SIGNATURE)),
+      release(passkeyAssertion(escrow, 'release', 1n, 0x05, NEXT_RELEASE_SIGNATURE)),
+      release(passkeyAssertion(escrow, 'release', 0n, 0x01, UNVERIFIED_RELEASE_SIGNATURE)),
+      // Signed for user verification, but the flags were altered afterwards
+      release(passkeyAssertion(escrow, 'release', 0n, 0x45, RELEASE_SIGNATURE)),
+    ]);
+    assertEquals(block.receipts[2].result, '(err u125)'); // err-passkey-required
+    assertEquals(block.receipts[3].result, '(err u126)'); // err-invalid-passkey-assertion: action
+    assertEquals(block.receipts[4].result, '(err u126)'); // nonce not reached yet
+    assertEquals(block.receipts[5].result, '(err u126)'); // user not verified
+    assertEquals(block.receipts[6].result, '(err u126)'); // signature does not cover the flags
+
+    block = chain.mineBlock([
+      release(passkeyAssertion(escrow, 'release', 0n, 0x05, RELEASE_SIGNATURE)),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    const verified = printEvent(block.receipts[0].events, 'passkey-verified');
+    assertEquals(verified['owner'], recipient.address);
+    assertEquals(verified['action'], '"release"');
+    assertEquals(verified['nonce'], 'u0');
+    assertEquals(getPasskey(chain, 0, recipient.address).expectOk().expectTuple()['nonce'], 'u1');
+  },
+});
+
+Clarinet.test({
+  name: 'release-funds-with-passkey: Rejects an assertion made for another relying party',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+
+    // The same key registered for another site; the signed assertion is for stacksend.app
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    const block = chain.mineBlock([
+      registerPasskey(0, recipient.address, hashRpId('stacksend.example')),
+      contribute(0, 1000000, contributor.address),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'release-funds-with-passkey',
+        [types.uint(0), passkeyAssertion(escrow, 'release', 0n, 0x05, RELEASE_SIGNATURE)],
+        recipient.address
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[2].result, '(err u126)'); // err-invalid-passkey-assertion
+    assertEquals(getPasskey(chain, 0, recipient.address).expectOk().expectTuple()['nonce'], 'u0');
+  },
+});
+
+Clarinet.test({
+  name: 'cancel-remittance-with-passkey: Assertions are only accepted once a passkey is registered',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const cancel = Tx.contractCall(
+      'stacksend-escrow',
+      'cancel-remittance-with-passkey',
+      [types.uint(0), passkeyAssertion(escrow, 'cancel', 0n, 0x05, CANCEL_SIGNATURE)],
+      creator.address
+    );
+
+    createRemittance(chain, creator, recipient.address, 1000000, chain.blockHeight + 100);
+    let block = chain.mineBlock([
+      contribute(0, 400000, contributor.address),
+      cancel,
+      registerPasskey(0, creator.address),
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
+    ]);
+    assertEquals(block.receipts[1].result, '(err u128)'); // err-passkey-not-registered
+    assertEquals(block.receipts[2].result, '(ok true)');
+    assertEquals(block.receipts[3].result, '(err u125)'); // err-passkey-required
+
+    block = chain.mineBlock([cancel]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(printEvent(block.receipts[0].events, 'passkey-verified')['action'], '"cancel"');
+    block.receipts[0].events.expectSTXTransferEvent(400000, escrow, contributor.address);
+  },
+});
+
+// ============================================================================
+// SCHEDULE TESTS
+// ============================================================================
+
+function createSchedule(
+  creator: string,
+  recipient: string,
+  interval: number,
+  startAt: number,
+  endAt: number,
+  deposit: number
+) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'create-schedule',
+    [
+      types.principal(recipient),
+      types.uint(1000000),
+      types.uint(interval),
+      types.uint(startAt),
+      types.uint(endAt),
+      types.ascii('Monthly rent'),
+      types.ascii('USD-KES'),
+      types.uint(deposit),
+    ],
+    creator
+  );
+}
+
+function scheduleCall(fn: string, scheduleId: number, sender: string, amount?: number) {
+  const args = amount === undefined ? [] : [types.uint(amount)];
+  return Tx.contractCall('stacksend-escrow', fn, [types.uint(scheduleId), ...args], sender);
+}
+
+Clarinet.test({
+  name: 'create-schedule: Validates the timing and holds the deposit',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const startAt = chain.blockHeight + 10;
+
+    const block = chain.mineBlock([
+      createSchedule(creator.address, recipient.address, 0, startAt, startAt + 30, 0),
+      createSchedule(creator.address, recipient.address, 10, startAt, startAt, 0),
+      createSchedule(creator.address, creator.address, 10, startAt, startAt + 30, 0),
+      createSchedule(creator.address, recipient.address, 10, startAt, startAt + 30, 2500000),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u131)'); // err-invalid-interval
+    assertEquals(block.receipts[1].result, '(err u104)'); // err-invalid-deadline: no periods
+    assertEquals(block.receipts[2].result, '(err u110)'); // err-invalid-recipient
+    assertEquals(block.receipts[3].result, '(ok u0)');
+    block.receipts[3].events.expectSTXTransferEvent(2500000, creator.address, escrow);
+
+    const schedule = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-schedule', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(schedule['next-period'], 'u0');
+    assertEquals(schedule['deposit'], 'u2500000');
+    assertEquals(schedule['status'], '"active"');
+    assertEquals(
+      chain.callReadOnlyFn('stacksend-escrow', 'get-schedule-count', [], creator.address).result,
+      'u1'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'trigger-schedule: Spawns each period once, funded from the deposit while it lasts',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const keeper = accounts.get('wallet_3')!;
+    const startAt = chain.blockHeight + 5;
+
+    chain.mineBlock([
+      createSchedule(creator.address, recipient.address, 10, startAt, startAt + 30, 1500000),
+    ]);
+    let block = chain.mineBlock([scheduleCall('trigger-schedule', 0, keeper.address)]);
+    assertEquals(block.receipts[0].result, '(err u129)'); // err-schedule-not-due: not started
+
+    chain.mineEmptyBlockUntil(startAt);
+    block = chain.mineBlock([
+      scheduleCall('trigger-schedule', 0, keeper.address),
+      scheduleCall('trigger-schedule', 0, keeper.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok u0)');
+    assertEquals(block.receipts[1].result, '(err u129)'); // already triggered
+    const triggered = printEvent(block.receipts[0].events, 'schedule-triggered');
+    assertEquals(triggered['prefunded'], 'true');
+    assertEquals(triggered['deposit'], 'u500000');
+
+    const remittance = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(remittance['creator'], creator.address);
+    assertEquals(remittance['recipient'], recipient.address);
+    assertEquals(remittance['deadline'], `u${startAt + 10}`);
+    assertEquals(remittance['total-raised'], 'u1000000');
+    assertEquals(remittance['status'], '"funded"');
+
+    // Period 1 passes untriggered; period 2 cannot be prefunded from what is left
+    chain.mineEmptyBlockUntil(startAt + 20);
+    block = chain.mineBlock([scheduleCall('trigger-schedule', 0, keeper.address)]);
+    assertEquals(block.receipts[0].result, '(ok u1)');
+    const late = printEvent(block.receipts[0].events, 'schedule-triggered');
+    assertEquals(late['period'], 'u2');
+    assertEquals(late['missed'], 'u1');
+    assertEquals(late['prefunded'], 'false');
+
+    chain.mineEmptyBlockUntil(startAt + 30);
+    block = chain.mineBlock([scheduleCall('trigger-schedule', 0, keeper.address)]);
+    assertEquals(block.receipts[0].result, '(err u130)'); // err-schedule-ended
+  },
+});
+
+Clarinet.test({
+  name: 'cancel-schedule: Only the creator cancels, and the deposit is refunded',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const startAt = chain.blockHeight + 5;
+
+    chain.mineBlock([
+      createSchedule(creator.address, recipient.address, 10, startAt, startAt + 30, 1000000),
+    ]);
+    let block = chain.mineBlock([
+      scheduleCall('fund-schedule', 0, recipient.address, 500000),
+      scheduleCall('fund-schedule', 0, creator.address, 500000),
+      scheduleCall('withdraw-schedule-deposit', 0, creator.address, 2000000),
+      scheduleCall('withdraw-schedule-deposit', 0, creator.address, 300000),
+      scheduleCall('cancel-schedule', 0, recipient.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u102)'); // err-unauthorized
+    assertEquals(block.receipts[1].result, '(ok u1500000)');
+    assertEquals(block.receipts[2].result, '(err u103)'); // err-invalid-amount
+    assertEquals(block.receipts[3].result, '(ok u1200000)');
+    assertEquals(block.receipts[4].result, '(err u102)');
+
+    block = chain.mineBlock([
+      scheduleCall('cancel-schedule', 0, creator.address),
+      scheduleCall('cancel-schedule', 0, creator.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok u1200000)');
+    assertEquals(block.receipts[1].result, '(err u108)'); // err-invalid-status
+    block.receipts[0].events.expectSTXTransferEvent(1200000, escrow, creator.address);
+
+    chain.mineEmptyBlockUntil(startAt);
+    block = chain.mineBlock([scheduleCall('trigger-schedule', 0, creator.address)]);
+    assertEquals(block.receipts[0].result, '(err u108)');
+  },
+});
+
+// ============================================================================
+// SPLIT REMITTANCE TESTS
+// ============================================================================
+
+function createSplitRemittance(creator: string, splits: [string, number][], deadline: number) {
+  return Tx.contractCall(
+    'stacksend-escrow',
+    'create-split-remittance',
+    [
+      types.list(
+        splits.map(([recipient, shareBps]) =>
+          types.tuple({ recipient: types.principal(recipient), 'share-bps': types.uint(shareBps) })
+        )
+      ),
+      types.uint(1000000),
+      types.uint(deadline),
+      types.ascii('Household support'),
+      types.ascii('USD-KES'),
+    ],
+    creator
+  );
+}
+
+Clarinet.test({
+  name: 'create-split-remittance: Validates the recipients and their shares',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const first = accounts.get('wallet_2')!.address;
+    const second = accounts.get('wallet_3')!.address;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const deadline = chain.blockHeight + 100;
+
+    const block = chain.mineBlock([
+      createSplitRemittance(creator.address, [], deadline),
+      createSplitRemittance(creator.address, [[first, 10000]], deadline),
+      createSplitRemittance(
+        creator.address,
+        [
+          [first, 5000],
+          [second, 4000],
+        ],
+        deadline
+      ),
+      createSplitRemittance(
+        creator.address,
+        [
+          [first, 5000],
+          [first, 5000],
+        ],
+        deadline
+      ),
+      createSplitRemittance(
+        creator.address,
+        [
+          [first, 10000],
+          [second, 0],
+        ],
+        deadline
+      ),
+      createSplitRemittance(
+        creator.address,
+        [
+          [first, 5000],
+          [escrow, 5000],
+        ],
+        deadline
+      ),
+      createSplitRemittance(
+        creator.address,
+        [
+          [creator.address, 5000],
+          [second, 5000],
+        ],
+        deadline
+      ),
+      createSplitRemittance(
+        creator.address,
+        [
+          [first, 6000],
+          [second, 4000],
+        ],
+        deadline
+      ),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u132)'); // err-invalid-split: no recipients
+    assertEquals(block.receipts[1].result, '(err u132)'); // a single recipient
+    assertEquals(block.receipts[2].result, '(err u132)'); // shares sum to 9000
+    assertEquals(block.receipts[3].result, '(err u132)'); // duplicate recipient
+    assertEquals(block.receipts[4].result, '(err u132)'); // zero share
+    assertEquals(block.receipts[5].result, '(err u110)'); // err-invalid-recipient
+    assertEquals(block.receipts[6].result, '(err u110)'); // the creator
+    assertEquals(block.receipts[7].result, '(ok u0)');
+
+    const splits = chain
+      .callReadOnlyFn('stacksend-escrow', 'get-remittance-splits', [types.uint(0)], creator.address)
+      .result.expectOk()
+      .expectList();
+    assertEquals(splits.length, 2);
+    assertEquals(splits[1].expectTuple()['recipient'], second);
+    assertEquals(splits[1].expectTuple()['share-bps'], 'u4000');
+    assertEquals(
+      chain
+        .callReadOnlyFn('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address)
+        .result.expectOk()
+        .expectTuple()['recipient'],
+      first
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'release-funds: Pays a split remittance pro rata, rounding dust to the first recipient',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const first = accounts.get('wallet_2')!;
+    const second = accounts.get('wallet_3')!;
+    const escrow = `${deployer.address}.stacksend-escrow`;
+    const splits: [string, number][] = [
+      [first.address, 3333],
+      [second.address, 3333],
+      [deployer.address, 3334],
+    ];
+
+    chain.mineBlock([
+      createSplitRemittance(creator.address, splits, chain.blockHeight + 100),
+      contribute(0, 1000000, creator.address),
+    ]);
+    const block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], second.address),
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], first.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(err u102)'); // only the first recipient releases
+    assertEquals(block.receipts[1].result, '(ok true)');
+
+    // 995000 net: 331633 + 331633 + 331733 leaves 1 micro-STX of dust
+    const events = block.receipts[1].events;
+    events.expectSTXTransferEvent(331634, escrow, first.address);
+    events.expectSTXTransferEvent(331633, escrow, second.address);
+    events.expectSTXTransferEvent(331733, escrow, deployer.address);
+    events.expectSTXTransferEvent(5000, escrow, deployer.address);
+    assertEquals(printEvent(events, 'split-paid')['amount'], 'u331634');
+  },
+});
+
+// ============================================================================
+// INTEGRATION/FLOW TESTS
+// ============================================================================
+
+Clarinet.test({
+  name: 'Complete flow: create → contribute → release',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    // Create
+    let block1 = createRemittance(chain, creator, recipient.address, 1000000, 1000);
+    assertEquals(block1.receipts[0].result, '(ok u0)');
+
+    // Contribute
+    let block2 = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(1000000)],
+        contributor.address
+      ),
+    ]);
+    assertEquals(block2.receipts[0].result, '(ok true)');
+
+    // Release
+    let block3 = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+    ]);
+    assertEquals(block3.receipts[0].result, '(ok true)');
+  },
+});
+
+Clarinet.test({
+  name: 'Complete flow: create → contribute → cancel',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    // Create
+    let block1 = createRemittance(chain, creator, recipient.address, 1000000, 1000);
+    assertEquals(block1.receipts[0].result, '(ok u0)');
+
+    // Contribute
+    let block2 = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(500000)],
+        contributor.address
+      ),
+    ]);
+    assertEquals(block2.receipts[0].result, '(ok true)');
+
+    // Cancel
+    let block3 = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
+    ]);
+    assertEquals(block3.receipts[0].result, '(ok true)');
+  },
+});
+
+Clarinet.test({
+  name: 'Multiple contributors scenario',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor1 = accounts.get('wallet_3')!;
+    const deployer = accounts.get('deployer')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, 1000);
+
+    // Multiple contributors
+    let block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(400000)],
+        contributor1.address
+      ),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(600000)],
+        deployer.address
+      ),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(ok true)');
+
+    // Check status is funded
+    let checkBlock = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'get-remittance', [types.uint(0)], creator.address),
+    ]);
+    assertEquals(checkBlock.receipts[0].result.includes('"funded"'), true);
+  },
+});
+
+// ============================================================================
+// ADMIN FUNCTIONS TESTS
+// ============================================================================
+
+Clarinet.test({
+  name: 'pause-contract: Successfully pauses contract (owner only)',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(ok true)');
+
+    // Check if paused
+    let checkBlock = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'is-paused', [], deployer.address),
+    ]);
+    assertEquals(checkBlock.receipts[0].result, 'true');
+  },
+});
+
+Clarinet.test({
+  name: 'pause-contract: Fails when called by non-owner',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const wallet = accounts.get('wallet_1')!;
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'pause-contract', [], wallet.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u100)'); // err-owner-only
+  },
+});
+
+Clarinet.test({
+  name: 'pause-contract: Fails when already paused',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    // First pause
+    chain.mineBlock([Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address)]);
+
+    // Try to pause again
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u109)'); // err-contract-paused
+  },
+});
+
+Clarinet.test({
+  name: 'unpause-contract: Successfully unpauses contract',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    // First pause
+    chain.mineBlock([Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address)]);
+
+    // Then unpause
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(ok true)');
+
+    // Check if unpaused
+    let checkBlock = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'is-paused', [], deployer.address),
+    ]);
+    assertEquals(checkBlock.receipts[0].result, 'false');
+  },
+});
+
+Clarinet.test({
+  name: 'unpause-contract: Fails when called by non-owner',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const wallet = accounts.get('wallet_1')!;
+
+    // Pause first
+    chain.mineBlock([Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address)]);
+
+    // Try to unpause with non-owner
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], wallet.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u100)'); // err-owner-only
+  },
+});
+
+Clarinet.test({
+  name: 'unpause-contract: Fails when contract is not paused',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u108)'); // err-invalid-status
+  },
+});
+
+Clarinet.test({
+  name: 'update-platform-fee: Successfully updates fee within limits',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    // Update to 1% (100 bps)
+    let block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'update-platform-fee',
+        [types.uint(100)],
+        deployer.address
+      ),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(ok true)');
+
+    // Check new fee
+    let checkBlock = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'get-platform-fee', [], deployer.address),
+    ]);
+    assertEquals(checkBlock.receipts[0].result, 'u100');
+  },
+});
+
+Clarinet.test({
+  name: 'update-platform-fee: Fails when exceeding max fee (5%)',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    // Try to set to 6% (600 bps) - should fail
+    let block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'update-platform-fee',
+        [types.uint(600)],
+        deployer.address
+      ),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u103)'); // err-invalid-amount
+  },
+});
 
 Clarinet.test({
   name: 'update-platform-fee: Fails when called by non-owner',
@@ -1008,3 +3180,246 @@ Clarinet.test({
     assertEquals(block.receipts[0].result, '(err u109)'); // err-contract-paused
   },
 });
+
+// ============================================================================
+// PRINT EVENT TESTS
+// ============================================================================
+
+// Helper to find a printed escrow event by name and return its fields
+function printEvent(events: any[], name: string): Record<string, string> {
+  for (const e of events) {
+    if (e.type !== 'contract_event' || e.contract_event.topic !== 'print') continue;
+    const tuple = e.contract_event.value.expectTuple();
+    if (tuple['event'] === `"${name}"`) return tuple;
+  }
+  throw new Error(`No ${name} print event`);
+}
+
+function printEventCount(events: any[]): number {
+  return events.filter((e: any) => e.type === 'contract_event').length;
+}
+
+Clarinet.test({
+  name: 'events: create-remittance prints remittance-created',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+
+    let block = createRemittance(chain, creator, recipient.address, 1000000, 1000);
+
+    const event = printEvent(block.receipts[0].events, 'remittance-created');
+    assertEquals(event['version'], 'u1');
+    assertEquals(event['remittance-id'], 'u0');
+    assertEquals(event['creator'], creator.address);
+    assertEquals(event['recipient'], recipient.address);
+    assertEquals(event['target-amount'], 'u1000000');
+    assertEquals(event['deadline'], 'u1000');
+    assertEquals(event['currency-pair'], '"USD-KES"');
+  },
+});
+
+Clarinet.test({
+  name: 'events: contribute prints contribution-received and remittance-funded once',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, 1000);
+
+    let block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(400000)],
+        contributor.address
+      ),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(600000)],
+        contributor.address
+      ),
+    ]);
+
+    const first = printEvent(block.receipts[0].events, 'contribution-received');
+    assertEquals(first['contributor'], contributor.address);
+    assertEquals(first['amount'], 'u400000');
+    assertEquals(first['contributor-total'], 'u400000');
+    assertEquals(first['total-raised'], 'u400000');
+    assertEquals(printEventCount(block.receipts[0].events), 1);
+
+    const second = printEvent(block.receipts[1].events, 'contribution-received');
+    assertEquals(second['amount'], 'u600000');
+    assertEquals(second['contributor-total'], 'u1000000');
+    const funded = printEvent(block.receipts[1].events, 'remittance-funded');
+    assertEquals(funded['remittance-id'], 'u0');
+    assertEquals(funded['target-amount'], 'u1000000');
+    assertEquals(funded['total-raised'], 'u1000000');
+  },
+});
+
+Clarinet.test({
+  name: 'events: release-funds prints funds-released with fee split',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, 1000);
+    chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(1000000)],
+        contributor.address
+      ),
+    ]);
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'release-funds', [types.uint(0)], recipient.address),
+    ]);
+
+    const event = printEvent(block.receipts[0].events, 'funds-released');
+    assertEquals(event['recipient'], recipient.address);
+    assertEquals(event['total-raised'], 'u1000000');
+    assertEquals(event['net-amount'], 'u995000');
+    assertEquals(event['platform-fee'], 'u5000');
+  },
+});
+
+Clarinet.test({
+  name: 'events: cancel-remittance prints remittance-cancelled with refund totals',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor1 = accounts.get('wallet_3')!;
+    const contributor2 = accounts.get('deployer')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, 1000);
+    chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(300000)],
+        contributor1.address
+      ),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(200000)],
+        contributor2.address
+      ),
+    ]);
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'cancel-remittance', [types.uint(0)], creator.address),
+    ]);
+
+    const event = printEvent(block.receipts[0].events, 'remittance-cancelled');
+    assertEquals(event['creator'], creator.address);
+    assertEquals(event['refunded-amount'], 'u500000');
+    assertEquals(event['refund-count'], 'u2');
+  },
+});
+
+Clarinet.test({
+  name: 'events: withdraw-contribution and claim-refund print the remaining totals',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+    const contributor = accounts.get('wallet_3')!;
+
+    const deadline = createShortRemittance(chain, creator, recipient.address, 1000000);
+    chain.mineBlock([contribute(0, 500000, contributor.address)]);
+
+    let block = chain.mineBlock([withdrawContribution(0, 200000, contributor.address)]);
+    const withdrawn = printEvent(block.receipts[0].events, 'contribution-withdrawn');
+    assertEquals(withdrawn['version'], 'u1');
+    assertEquals(withdrawn['contributor'], contributor.address);
+    assertEquals(withdrawn['amount'], 'u200000');
+    assertEquals(withdrawn['contributor-total'], 'u300000');
+    assertEquals(withdrawn['total-raised'], 'u300000');
+
+    chain.mineEmptyBlockUntil(deadline);
+    block = chain.mineBlock([claimRefund(0, contributor.address)]);
+    const claimed = printEvent(block.receipts[0].events, 'refund-claimed');
+    assertEquals(claimed['version'], 'u1');
+    assertEquals(claimed['remittance-id'], 'u0');
+    assertEquals(claimed['contributor'], contributor.address);
+    assertEquals(claimed['amount'], 'u300000');
+    assertEquals(claimed['total-raised'], 'u0');
+  },
+});
+
+Clarinet.test({
+  name: 'events: admin functions print their transitions',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const creator = accounts.get('wallet_1')!;
+    const recipient = accounts.get('wallet_2')!;
+
+    createRemittance(chain, creator, recipient.address, 1000000, 1000);
+    chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(100000)],
+        creator.address
+      ),
+    ]);
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'pause-contract', [], deployer.address),
+      Tx.contractCall('stacksend-escrow', 'unpause-contract', [], deployer.address),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'update-platform-fee',
+        [types.uint(100)],
+        deployer.address
+      ),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'emergency-withdraw',
+        [types.uint(50000), types.principal(recipient.address)],
+        deployer.address
+      ),
+    ]);
+
+    assertEquals(
+      printEvent(block.receipts[0].events, 'contract-paused')['owner'],
+      deployer.address
+    );
+    assertEquals(
+      printEvent(block.receipts[1].events, 'contract-unpaused')['owner'],
+      deployer.address
+    );
+    const fee = printEvent(block.receipts[2].events, 'platform-fee-updated');
+    assertEquals(fee['old-fee-bps'], 'u50');
+    assertEquals(fee['new-fee-bps'], 'u100');
+    const withdrawal = printEvent(block.receipts[3].events, 'emergency-withdrawal');
+    assertEquals(withdrawal['amount'], 'u50000');
+    assertEquals(withdrawal['recipient'], recipient.address);
+  },
+});
+
+Clarinet.test({
+  name: 'events: failed calls print nothing',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const creator = accounts.get('wallet_1')!;
+    const wallet = accounts.get('wallet_2')!;
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-escrow', 'pause-contract', [], wallet.address),
+      Tx.contractCall(
+        'stacksend-escrow',
+        'contribute',
+        [types.uint(0), types.uint(100000)],
+        creator.address
+      ),
+    ]);
+
+    assertEquals(printEventCount(block.receipts[0].events), 0);
+    assertEquals(printEventCount(block.receipts[1].events), 0);
+  },
+});
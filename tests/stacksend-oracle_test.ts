@@ -590,6 +590,505 @@ Clarinet.test({
   },
 });
 
+// ============================================================================
+// QUORUM TESTS
+// ============================================================================
+
+function submitRate(pair: string, rate: number, sender: string) {
+  return Tx.contractCall(
+    'stacksend-oracle',
+    'update-exchange-rate',
+    [types.ascii(pair), types.uint(rate)],
+    sender
+  );
+}
+
+// Helper to find a printed oracle event by name and return its fields
+function printEvent(events: any[], name: string): Record<string, string> {
+  for (const e of events) {
+    if (e.type !== 'contract_event' || e.contract_event.topic !== 'print') continue;
+    const tuple = e.contract_event.value.expectTuple();
+    if (tuple['event'] === `"${name}"`) return tuple;
+  }
+  throw new Error(`No ${name} print event`);
+}
+
+function setupUpdaters(chain: Chain, deployer: Account, updaters: Account[], quorum: number) {
+  chain.mineBlock([
+    ...updaters.map(updater =>
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-authorized-updater',
+        [types.principal(updater.address)],
+        deployer.address
+      )
+    ),
+    Tx.contractCall('stacksend-oracle', 'set-quorum', [types.uint(quorum)], deployer.address),
+  ]);
+}
+
+Clarinet.test({
+  name: 'set-quorum: Owner sets a quorum within bounds',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const user = accounts.get('wallet_1')!;
+
+    assertEquals(
+      chain.callReadOnlyFn('stacksend-oracle', 'get-quorum', [], deployer.address).result,
+      'u1'
+    );
+
+    let block = chain.mineBlock([
+      Tx.contractCall('stacksend-oracle', 'set-quorum', [types.uint(3)], user.address),
+      Tx.contractCall('stacksend-oracle', 'set-quorum', [types.uint(0)], deployer.address),
+      Tx.contractCall('stacksend-oracle', 'set-quorum', [types.uint(16)], deployer.address),
+      Tx.contractCall('stacksend-oracle', 'set-quorum', [types.uint(3)], deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u200)'); // err-owner-only
+    assertEquals(block.receipts[1].result, '(err u207)'); // err-invalid-quorum
+    assertEquals(block.receipts[2].result, '(err u207)'); // err-invalid-quorum
+    assertEquals(block.receipts[3].result, '(ok true)');
+    assertEquals(
+      chain.callReadOnlyFn('stacksend-oracle', 'get-quorum', [], deployer.address).result,
+      'u3'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'update-exchange-rate: Publishes the median once quorum is met',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const updater1 = accounts.get('wallet_1')!;
+    const updater2 = accounts.get('wallet_2')!;
+    setupUpdaters(chain, deployer, [updater1, updater2], 3);
+
+    let block = chain.mineBlock([
+      submitRate('USD-KES', 15200000000, deployer.address),
+      submitRate('USD-KES', 15000000000, updater1.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok false)');
+    assertEquals(block.receipts[1].result, '(ok false)');
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-oracle',
+        'get-exchange-rate',
+        [types.ascii('USD-KES')],
+        deployer.address
+      ).result,
+      '(err u201)'
+    );
+
+    block = chain.mineBlock([submitRate('USD-KES', 15100000000, updater2.address)]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+
+    const published = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-exchange-rate',
+        [types.ascii('USD-KES')],
+        deployer.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(published['rate'], 'u15100000000');
+    assertEquals(published['round-id'], 'u0');
+    assertEquals(published['updater'], updater2.address);
+
+    const round = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-round',
+        [types.ascii('USD-KES'), types.uint(0)],
+        deployer.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(round['sorted-rates'], '[u15000000000, u15100000000, u15200000000]');
+    assertEquals(round['published-rate'], '(some u15100000000)');
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-oracle',
+        'get-current-round-id',
+        [types.ascii('USD-KES')],
+        deployer.address
+      ).result,
+      'u1'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'update-exchange-rate: Each updater submits once per round',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const updater = accounts.get('wallet_1')!;
+    setupUpdaters(chain, deployer, [updater], 2);
+
+    let block = chain.mineBlock([
+      submitRate('USD-KES', 15000000000, deployer.address),
+      submitRate('USD-KES', 15100000000, deployer.address),
+      submitRate('USD-NGN', 78000000000, deployer.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok false)');
+    assertEquals(block.receipts[1].result, '(err u206)'); // err-already-submitted
+    assertEquals(block.receipts[2].result, '(ok false)'); // rounds are per pair
+
+    // Once the round publishes, the next round accepts the owner again
+    block = chain.mineBlock([
+      submitRate('USD-KES', 15100000000, updater.address),
+      submitRate('USD-KES', 15100000000, deployer.address),
+    ]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+    assertEquals(block.receipts[1].result, '(ok false)');
+  },
+});
+
+Clarinet.test({
+  name: 'update-exchange-rate: Abandons a round that misses quorum for max-rate-age',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const updater = accounts.get('wallet_1')!;
+    setupUpdaters(chain, deployer, [updater], 2);
+
+    chain.mineBlock([submitRate('USD-KES', 10000000000, deployer.address)]);
+    chain.mineEmptyBlockUntil(chain.blockHeight + 86401);
+
+    // The stale submission does not count towards the new round
+    let block = chain.mineBlock([submitRate('USD-KES', 15000000000, updater.address)]);
+    assertEquals(block.receipts[0].result, '(ok false)');
+    block = chain.mineBlock([submitRate('USD-KES', 15200000000, deployer.address)]);
+    assertEquals(block.receipts[0].result, '(ok true)');
+
+    const published = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-exchange-rate',
+        [types.ascii('USD-KES')],
+        deployer.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(published['rate'], 'u15100000000');
+    assertEquals(published['round-id'], 'u1');
+  },
+});
+
+Clarinet.test({
+  name: 'update-exchange-rate: Records outliers and averages an even median',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const updater1 = accounts.get('wallet_1')!;
+    const updater2 = accounts.get('wallet_2')!;
+    const updater3 = accounts.get('wallet_3')!;
+    setupUpdaters(chain, deployer, [updater1, updater2, updater3], 4);
+
+    const block = chain.mineBlock([
+      submitRate('USD-KES', 15000000000, deployer.address),
+      submitRate('USD-KES', 30000000000, updater1.address),
+      submitRate('USD-KES', 15100000000, updater2.address),
+      submitRate('USD-KES', 15200000000, updater3.address),
+    ]);
+    assertEquals(block.receipts[3].result, '(ok true)');
+    const outlier = printEvent(block.receipts[3].events, 'outlier-submission');
+    assertEquals(outlier['version'], 'u1');
+    assertEquals(outlier['updater'], updater1.address);
+    assertEquals(outlier['median'], 'u15150000000');
+    const round = printEvent(block.receipts[3].events, 'rate-published');
+    assertEquals(round['version'], 'u1');
+    assertEquals(round['submission-count'], 'u4');
+    assertEquals(round['outlier-count'], 'u1');
+
+    // Median of 150, 151, 152 and 300 KES
+    const published = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-exchange-rate',
+        [types.ascii('USD-KES')],
+        deployer.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(published['rate'], 'u15150000000');
+
+    const submission = (updater: Account) =>
+      chain
+        .callReadOnlyFn(
+          'stacksend-oracle',
+          'get-submission',
+          [types.ascii('USD-KES'), types.uint(0), types.principal(updater.address)],
+          deployer.address
+        )
+        .result.expectOk()
+        .expectTuple();
+    assertEquals(submission(updater1)['outlier'], 'true');
+    assertEquals(submission(updater1)['rate'], 'u30000000000');
+    assertEquals(submission(updater2)['outlier'], 'false');
+    assertEquals(submission(deployer)['outlier'], 'false');
+
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-oracle',
+        'get-outlier-count',
+        [types.principal(updater1.address)],
+        deployer.address
+      ).result,
+      'u1'
+    );
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-oracle',
+        'get-submission',
+        [types.ascii('USD-KES'), types.uint(1), types.principal(updater1.address)],
+        deployer.address
+      ).result,
+      '(err u201)'
+    );
+  },
+});
+
+// ============================================================================
+// RATE HISTORY TESTS
+// ============================================================================
+
+function getTwap(chain: Chain, pair: string, window: number, sender: string) {
+  return chain.callReadOnlyFn(
+    'stacksend-oracle',
+    'get-twap',
+    [types.ascii(pair), types.uint(window)],
+    sender
+  ).result;
+}
+
+Clarinet.test({
+  name: 'get-rate-history: Keeps the latest 24 rates, newest first',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    for (let i = 1; i <= 26; i++) {
+      chain.mineBlock([submitRate('USD-KES', 15000000000 + i, deployer.address)]);
+    }
+
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-oracle',
+        'get-history-count',
+        [types.ascii('USD-KES')],
+        deployer.address
+      ).result,
+      'u26'
+    );
+    const history = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-rate-history',
+        [types.ascii('USD-KES')],
+        deployer.address
+      )
+      .result.expectList();
+    assertEquals(history.length, 24);
+    assertEquals(history[0].expectTuple()['rate'], 'u15000000026');
+    assertEquals(history[0].expectTuple()['round-id'], 'u25');
+    assertEquals(history[23].expectTuple()['rate'], 'u15000000003');
+    assertEquals(
+      chain.callReadOnlyFn(
+        'stacksend-oracle',
+        'get-rate-history',
+        [types.ascii('USD-NGN')],
+        deployer.address
+      ).result,
+      '[]'
+    );
+  },
+});
+
+Clarinet.test({
+  name: 'get-twap: Weighs each rate by how long it was current',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    const first = chain.mineBlock([submitRate('USD-KES', 15000000000, deployer.address)]);
+    chain.mineEmptyBlockUntil(chain.blockHeight + 10);
+    const second = chain.mineBlock([submitRate('USD-KES', 16000000000, deployer.address)]);
+    chain.mineEmptyBlockUntil(chain.blockHeight + 5);
+
+    const twap = getTwap(chain, 'USD-KES', 1000, deployer.address).expectOk().expectTuple();
+    const covered = Number(twap['covered'].slice(1));
+    const firstDuration = second.height - first.height;
+    const secondDuration = covered - firstDuration;
+    assertEquals(secondDuration > 0, true);
+    assertEquals(
+      twap['twap'],
+      `u${Math.floor((15000000000 * firstDuration + 16000000000 * secondDuration) / covered)}`
+    );
+    assertEquals(twap['observations'], 'u2');
+
+    // A window inside the latest rate's lifetime is the latest rate
+    const recent = getTwap(chain, 'USD-KES', 1, deployer.address).expectOk().expectTuple();
+    assertEquals(recent['twap'], 'u16000000000');
+    assertEquals(recent['covered'], 'u1');
+  },
+});
+
+Clarinet.test({
+  name: 'get-twap: Fails without history or with an empty window',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    assertEquals(getTwap(chain, 'USD-KES', 3600, deployer.address), '(err u201)'); // err-not-found
+    chain.mineBlock([submitRate('USD-KES', 15000000000, deployer.address)]);
+    assertEquals(getTwap(chain, 'USD-KES', 0, deployer.address), '(err u208)'); // err-invalid-window
+  },
+});
+
+// ============================================================================
+// CURRENCY PAIR REGISTRY TESTS
+// ============================================================================
+
+function isSupportedPair(chain: Chain, pair: string, sender: string) {
+  return chain.callReadOnlyFn('stacksend-oracle', 'is-supported-pair', [types.ascii(pair)], sender)
+    .result;
+}
+
+Clarinet.test({
+  name: 'Currency pairs: Initial pairs are registered at deployment',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    assertEquals(isSupportedPair(chain, 'USD-KES', deployer.address), 'true');
+    assertEquals(isSupportedPair(chain, 'STX-KES', deployer.address), 'true');
+    assertEquals(isSupportedPair(chain, 'usd-kes', deployer.address), 'false');
+    assertEquals(isSupportedPair(chain, 'XYZ', deployer.address), 'false');
+
+    const pair = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-currency-pair',
+        [types.ascii('USD-KES')],
+        deployer.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(pair['base'], '"USD"');
+    assertEquals(pair['quote'], '"KES"');
+    assertEquals(pair['active'], 'true');
+  },
+});
+
+Clarinet.test({
+  name: 'update-exchange-rate: Fails for unregistered currency pairs',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+
+    let block = chain.mineBlock([
+      submitRate('usd-kes', 15050000000, deployer.address),
+      submitRate('JPY-KES', 15050000000, deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u205)'); // err-invalid-pair
+    assertEquals(block.receipts[1].result, '(err u205)');
+  },
+});
+
+Clarinet.test({
+  name: 'add-currency-pair: Owner registers well-formed pairs only',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const wallet1 = accounts.get('wallet_1')!;
+
+    let block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-currency-pair',
+        [types.ascii('JPY-KES')],
+        wallet1.address
+      ),
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-currency-pair',
+        [types.ascii('jpy-kes')],
+        deployer.address
+      ),
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-currency-pair',
+        [types.ascii('KES-KES')],
+        deployer.address
+      ),
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-currency-pair',
+        [types.ascii('JPYKES')],
+        deployer.address
+      ),
+      Tx.contractCall(
+        'stacksend-oracle',
+        'add-currency-pair',
+        [types.ascii('JPY-KES')],
+        deployer.address
+      ),
+      submitRate('JPY-KES', 105000000, deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u200)'); // err-owner-only
+    assertEquals(block.receipts[1].result, '(err u205)'); // err-invalid-pair
+    assertEquals(block.receipts[2].result, '(err u205)');
+    assertEquals(block.receipts[3].result, '(err u205)');
+    assertEquals(block.receipts[4].result, '(ok true)');
+    assertEquals(block.receipts[5].result, '(ok true)');
+    assertEquals(isSupportedPair(chain, 'JPY-KES', deployer.address), 'true');
+  },
+});
+
+Clarinet.test({
+  name: 'remove-currency-pair: Stops updates but keeps the published rate',
+  async fn(chain: Chain, accounts: Map<string, Account>) {
+    const deployer = accounts.get('deployer')!;
+    const wallet1 = accounts.get('wallet_1')!;
+
+    chain.mineBlock([submitRate('USD-KES', 15050000000, deployer.address)]);
+    let block = chain.mineBlock([
+      Tx.contractCall(
+        'stacksend-oracle',
+        'remove-currency-pair',
+        [types.ascii('USD-KES')],
+        wallet1.address
+      ),
+      Tx.contractCall(
+        'stacksend-oracle',
+        'remove-currency-pair',
+        [types.ascii('JPY-KES')],
+        deployer.address
+      ),
+      Tx.contractCall(
+        'stacksend-oracle',
+        'remove-currency-pair',
+        [types.ascii('USD-KES')],
+        deployer.address
+      ),
+      submitRate('USD-KES', 15100000000, deployer.address),
+    ]);
+
+    assertEquals(block.receipts[0].result, '(err u200)'); // err-owner-only
+    assertEquals(block.receipts[1].result, '(err u201)'); // err-not-found
+    assertEquals(block.receipts[2].result, '(ok true)');
+    assertEquals(block.receipts[3].result, '(err u205)'); // err-invalid-pair
+    assertEquals(isSupportedPair(chain, 'USD-KES', deployer.address), 'false');
+
+    const rate = chain
+      .callReadOnlyFn(
+        'stacksend-oracle',
+        'get-exchange-rate',
+        [types.ascii('USD-KES')],
+        deployer.address
+      )
+      .result.expectOk()
+      .expectTuple();
+    assertEquals(rate['rate'], 'u15050000000');
+  },
+});
+
 // ============================================================================
 // INTEGRATION TESTS
 // ============================================================================